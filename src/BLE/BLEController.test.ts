@@ -0,0 +1,131 @@
+import { mocked, testDevice } from '@utils/testHelpers';
+import { Deferred } from '@utils/deferred';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
+import { mock } from 'jest-mock-extended';
+import { BLEController } from './BLEController';
+
+jest.mock('@utils/logger');
+jest.mock('Diagnostics/HealthMonitor', () => ({
+  healthMonitor: {
+    recordBleSuccess: jest.fn(),
+    recordBleFailure: jest.fn(),
+    recordCommand: jest.fn(),
+    requestRestart: jest.fn(),
+  },
+}));
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe(BLEController.name, () => {
+  const bleDevice = mock<IBLEDevice>();
+  const written = () => bleDevice.writeCharacteristic.mock.calls.map(([, bytes]) => bytes[0]);
+  let controller: BLEController<number>;
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.clearAllTimers();
+    bleDevice.connect.mockResolvedValue();
+    bleDevice.writeCharacteristic.mockResolvedValue();
+    controller = new BLEController(testDevice, bleDevice, 1, (command: number) => [command]);
+  });
+
+  it('sends a stop ahead of a running burst and cancels it', async () => {
+    const burst = controller.writeCommand(1, 25, 200);
+    await flush();
+    jest.advanceTimersByTime(200);
+    await flush();
+
+    await controller.writeStopCommand(0);
+    await burst;
+    jest.advanceTimersByTime(10_000);
+    await flush();
+
+    expect(written()).toEqual([1, 1, 0]);
+  });
+
+  it("doesn't wait for the queue to connect", async () => {
+    const connecting = new Deferred<void>();
+    bleDevice.connect.mockReturnValueOnce(connecting);
+    const queued = controller.writeCommand(1);
+    await flush();
+
+    const stop = controller.writeStopCommand(0);
+    connecting.resolve();
+    await Promise.all([stop, queued]);
+
+    expect(written()).toEqual([0]);
+  });
+
+  it('drops commands queued before a stop', async () => {
+    const burst = controller.writeCommand(1, 25, 200);
+    const queued = [controller.writeCommand(2), controller.writeCommand(3, 5, 100)];
+    await flush();
+
+    await controller.writeStopCommand(0);
+    await Promise.all([burst, ...queued]);
+    const after = controller.writeCommand(4);
+    await flush();
+    await after;
+
+    expect(written()).toEqual([1, 0, 4]);
+  });
+
+  it('drops commands queued before a cancel', async () => {
+    const burst = controller.writeCommand(1, 25, 200);
+    const queued = controller.writeCommand(2);
+    await flush();
+
+    await controller.cancelCommands();
+    await Promise.all([burst, queued]);
+
+    expect(written()).toEqual([1]);
+  });
+
+  describe('notifications', () => {
+    let notify: (data: Uint8Array) => void;
+    let onDisconnect: () => void;
+
+    beforeEach(async () => {
+      bleDevice.subscribeToCharacteristic.mockImplementation(async (_, handler) => void (notify = handler));
+      mocked(bleDevice.onDisconnect).mockImplementation((handler: () => void) => (onDisconnect = handler));
+      controller = new BLEController(testDevice, bleDevice, 1, (command: number) => [command], { feedback: 2 });
+      await flush();
+      bleDevice.subscribeToCharacteristic.mockClear();
+    });
+
+    it('re-subscribes after the link dropped', async () => {
+      await controller.writeCommand(1);
+      expect(bleDevice.subscribeToCharacteristic).not.toHaveBeenCalled();
+
+      onDisconnect();
+      expect(controller.getNotifyStatus().feedback.subscribed).toBe(false);
+      await controller.writeCommand(1);
+
+      expect(bleDevice.subscribeToCharacteristic).toHaveBeenCalledWith(2, expect.any(Function));
+      expect(controller.getNotifyStatus().feedback.subscribed).toBe(true);
+    });
+
+    it('flags a channel that stopped answering writes and re-subscribes it', async () => {
+      const writeWithoutAnswer = async () => {
+        await controller.writeCommand(1);
+        jest.advanceTimersByTime(5_000);
+        await flush();
+      };
+      await controller.writeCommand(1);
+      notify(new Uint8Array([1]));
+      jest.advanceTimersByTime(5_000);
+
+      await writeWithoutAnswer();
+      await writeWithoutAnswer();
+      expect(controller.getNotifyStatus().feedback.stale).toBe(false);
+      await writeWithoutAnswer();
+
+      expect(controller.getNotifyStatus().feedback.stale).toBe(true);
+      expect(bleDevice.subscribeToCharacteristic).toHaveBeenCalledTimes(1);
+    });
+  });
+});
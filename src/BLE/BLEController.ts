@@ -2,6 +2,7 @@ import { IDeviceData } from '@ha/IDeviceData';
 import { Dictionary } from '@utils/Dictionary';
 import { Timer } from '@utils/Timer';
 import { loopWithWait } from '@utils/loopWithWait';
+import { BLEAdvertisement } from 'ESPHome/types/BLEAdvertisement';
 import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import EventEmitter from 'events';
 import { IController } from '../Common/IController';
@@ -12,18 +13,55 @@ import { logError, logInfo, logWarn } from '@utils/logger';
 import { healthMonitor } from 'Diagnostics/HealthMonitor';
 import { isSocketOrBLETimeoutError } from '@utils/retryWithBackoff';
 import { wait } from '@utils/wait';
+import { seconds } from '@utils/seconds';
+import { LinkState } from './DeviceAvailability';
+import { recordProxySuccess } from 'ESPHome/proxyPreferences';
+import { registerSlotUser } from 'ESPHome/proxySlots';
+
+/** Notification channel state, see `getNotifyStatus`. */
+export type NotifyChannelStatus = {
+  subscribed: boolean;
+  /** Answered writes before and then stayed silent after several in a row. */
+  stale: boolean;
+  lastDataAt?: number;
+};
+
+type NotifyChannel = NotifyChannelStatus & {
+  answersWrites: boolean;
+  missedWrites: number;
+};
+
+// How long after a write a feedback channel has to answer before the write counts as missed.
+const NOTIFY_RESPONSE_WINDOW_MS = seconds(5);
+const STALE_AFTER_MISSED_WRITES = 3;
 
 export class BLEController<TCommand> extends EventEmitter implements IEventSource, IController<TCommand> {
   cache: Dictionary<Object> = {};
   get notifyNames() {
     return Object.keys(this.notifyHandles);
   }
+  /** MAC of the BLE device currently bound (changes on rebind for beds with linked controllers). */
+  get mac() {
+    return this.bleDevice.mac;
+  }
   private timer?: Timer;
   private notifyValues: Dictionary<Uint8Array> = {};
   private disconnectTimeout?: NodeJS.Timeout;
   private lastCommands?: number[][];
   private connectMutex: Promise<void> | null = null;
   private commandQueue: Promise<void> = Promise.resolve();
+  /** Bumped by stop/cancel: queued commands from an older generation are stale and get dropped. */
+  private generation = 0;
+  private gattWrites: Promise<void> = Promise.resolve();
+  private queuedOperations = 0;
+  private releaseSlot?: () => void;
+  private reconnectHandlers: Array<() => Promise<void>> = [];
+  private linkStateHandlers: Array<(state: LinkState) => void> = [];
+  private writeHandlers: Array<() => void> = [];
+  private advertisementHandlers: Array<(advertisement: BLEAdvertisement) => void> = [];
+  private notifyChannels: Dictionary<NotifyChannel> = {};
+  private notifyStatusHandlers: Array<() => void> = [];
+  private notifyCheck?: NodeJS.Timeout;
 
     constructor(
       public deviceData: IDeviceData,
@@ -35,19 +73,245 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
       public proxyHost?: string
     ) {
       super();
-      Object.entries(notifyHandles).forEach(([key, handle]) => {
-        this.stayConnected ||= true;
-        void this.bleDevice.subscribeToCharacteristic(handle, (data) => {
-          const previous = this.notifyValues[key];
-          if (previous && arrayEquals(data, previous)) return;
-          this.emit(key, data);
+      if (Object.keys(notifyHandles).length) this.stayConnected = true;
+      for (const key of Object.keys(notifyHandles)) {
+        this.notifyChannels[key] = { subscribed: false, stale: false, answersWrites: false, missedWrites: 0 };
+      }
+      void this.subscribeNotifications();
+      this.registerSlotUser();
+      this.watchDisconnects();
+    }
+
+    // The proxy forgets notify registrations when the link drops, including drops we didn't ask for.
+    private watchDisconnects = () => {
+      const bleDevice = this.bleDevice;
+      bleDevice.onDisconnect?.(() => {
+        if (bleDevice === this.bleDevice) this.markNotificationsLost();
+      });
+    };
+
+    /**
+     * Let another device on the same proxy take this device's connection slot while it is only waiting for its
+     * idle disconnect (see proxySlots).
+     */
+    private registerSlotUser = () => {
+      this.releaseSlot?.();
+      this.releaseSlot = registerSlotUser(this.proxyHost, this.bleDevice.mac, {
+        canEvict: () => !this.stayConnected && !!this.disconnectTimeout && !this.timer && !this.queuedOperations,
+        evict: () =>
+          this.enqueue(async () => {
+            if (!this.disconnectTimeout) return;
+            clearTimeout(this.disconnectTimeout);
+            this.disconnectTimeout = undefined;
+            await this.disconnect();
+          }),
+      });
+    };
+
+    private subscribeNotifications = async (onlyLost = false) => {
+      for (const [key, handle] of Object.entries(this.notifyHandles)) {
+        const channel = this.notifyChannels[key];
+        if (onlyLost && channel.subscribed) continue;
+        try {
+          await this.bleDevice.subscribeToCharacteristic(handle, (data) => {
+            channel.lastDataAt = Date.now();
+            const previous = this.notifyValues[key];
+            if (previous && arrayEquals(data, previous)) return;
+            this.emit(key, data);
+          });
+          channel.subscribed = true;
+          channel.missedWrites = 0;
+        } catch (error: any) {
+          channel.subscribed = false;
+          logWarn(
+            `[BLE] Failed to subscribe to '${key}' notifications on ${this.deviceData.device.name}:`,
+            error?.message || error
+          );
+        }
+      }
+      this.notifyStatusChanged();
+    };
+
+    private markNotificationsLost = () => {
+      let changed = false;
+      for (const channel of Object.values(this.notifyChannels)) {
+        changed ||= channel.subscribed;
+        channel.subscribed = false;
+      }
+      if (changed) this.notifyStatusChanged();
+    };
+
+    /**
+     * Flag feedback channels that went quiet.
+     *
+     * Why:
+     * - A notify registration can get lost on the proxy without any error (e.g. the link dropped and came back);
+     *   commands keep working while positions/feedback silently stop updating.
+     *
+     * How:
+     * - After a write (or burst of writes), every subscribed channel that has answered writes before must send
+     *   something within NOTIFY_RESPONSE_WINDOW_MS.
+     * - A channel missing STALE_AFTER_MISSED_WRITES writes in a row is flagged stale and re-subscribed.
+     */
+    private checkNotifyResponses = () => {
+      if (this.notifyCheck || !Object.keys(this.notifyChannels).length) return;
+      const writtenAt = Date.now();
+      this.notifyCheck = setTimeout(() => {
+        this.notifyCheck = undefined;
+        let lost = false;
+        for (const [key, channel] of Object.entries(this.notifyChannels)) {
+          if (!channel.subscribed) continue;
+          if ((channel.lastDataAt ?? 0) >= writtenAt) {
+            channel.answersWrites = true;
+            channel.missedWrites = 0;
+            if (channel.stale) {
+              channel.stale = false;
+              this.notifyStatusChanged();
+            }
+            continue;
+          }
+          if (!channel.answersWrites || ++channel.missedWrites < STALE_AFTER_MISSED_WRITES) continue;
+          logWarn(
+            `[BLE] '${key}' notifications on ${this.deviceData.device.name} stopped answering writes; re-subscribing`
+          );
+          channel.stale = true;
+          channel.subscribed = false;
+          lost = true;
+        }
+        if (!lost) return;
+        this.notifyStatusChanged();
+        this.enqueue(() => this.subscribeNotifications(true)).catch(() => undefined);
+      }, NOTIFY_RESPONSE_WINDOW_MS);
+    };
+
+    private notifyStatusChanged = () => {
+      for (const handler of this.notifyStatusHandlers) handler();
+    };
+
+    /**
+     * Subscription state of each notification channel (keys as in `notifyNames`).
+     */
+    getNotifyStatus = (): Dictionary<NotifyChannelStatus> => {
+      const status: Dictionary<NotifyChannelStatus> = {};
+      for (const [key, { subscribed, stale, lastDataAt }] of Object.entries(this.notifyChannels)) {
+        status[key] = { subscribed, stale, lastDataAt };
+      }
+      return status;
+    };
+
+    onNotifyStatusChange = (handler: () => void) => {
+      this.notifyStatusHandlers.push(handler);
+    };
+
+    /**
+     * Swap in a freshly discovered BLEDevice (e.g. after a full ESPHome reconnect) without rebuilding
+     * the controller, so the HA entities built on top of it keep working and aren't published twice.
+     * Call reconnect() afterwards to bring the link and notifications up on the new device.
+     */
+    rebind = (bleDevice: IBLEDevice, proxyHost?: string) => {
+      this.bleDevice = bleDevice;
+      this.proxyHost = proxyHost;
+      for (const handler of this.advertisementHandlers) bleDevice.onAdvertisement(handler);
+      this.registerSlotUser();
+      this.markNotificationsLost();
+      this.watchDisconnects();
+    };
+
+    /**
+     * Drop and re-establish the BLE link for this device only, re-subscribing notifications.
+     * Runs through the command queue so it never overlaps an in-flight write.
+     */
+    reconnect = async () => {
+      await this.enqueue(async () => {
+        await this.disconnect();
+        await wait(300);
+        // Re-subscribes notifications (see ensureConnected).
+        await this.ensureConnected().catch((error) => {
+          this.setLinkState('failed');
+          throw error;
         });
+        logInfo(`[BLE] Reconnected device ${this.deviceData.device.name}`);
+        healthMonitor.recordBleSuccess(this.deviceData.device.name);
+        this.recordProxySuccess();
+        this.scheduleDisconnect();
       });
-    }
+      // Outside the queued block so handlers can use writeCommand without deadlocking on the queue.
+      for (const handler of this.reconnectHandlers) await handler();
+    };
+
+    /**
+     * Run `handler` after every supervised reconnect, for per-session setup such as unlocking a PIN.
+     */
+    onReconnect = (handler: () => Promise<void>) => {
+      this.reconnectHandlers.push(handler);
+    };
+
+    /**
+     * Connect/write outcomes, for per-device availability.
+     */
+    onLinkStateChange = (handler: (state: LinkState) => void) => {
+      this.linkStateHandlers.push(handler);
+    };
+
+    /**
+     * Advertisements of the bed, kept across rebinds to a rediscovered BLEDevice.
+     */
+    onAdvertisement = (handler: (advertisement: BLEAdvertisement) => void) => {
+      this.advertisementHandlers.push(handler);
+      this.bleDevice.onAdvertisement(handler);
+    };
+
+    /**
+     * Successful writes, e.g. for estimated motor positions to start timing once the bed got the command.
+     */
+    onWrite = (handler: () => void) => {
+      this.writeHandlers.push(handler);
+      return () => {
+        this.writeHandlers = this.writeHandlers.filter((writeHandler) => writeHandler !== handler);
+      };
+    };
+
+    /**
+     * Run a link-level operation (pair, unpair, clear cache, lease requests) on the bed through the command queue.
+     * With `connected: false` the link is dropped first, for operations the proxy only takes while disconnected;
+     * beds that stay connected are reconnected afterwards, the others on their next command.
+     */
+    runDeviceOperation = async <T>(operation: (bleDevice: IBLEDevice) => Promise<T>, connected = true) => {
+      return await this.enqueue(async () => {
+        if (connected) await this.ensureConnected();
+        else await this.disconnect();
+        const result = await operation(this.bleDevice);
+        if (!connected && this.stayConnected) await this.ensureConnected();
+        this.scheduleDisconnect();
+        return result;
+      });
+    };
+
+    // Per-proxy history for this bed: picks its proxy on the next discovery and drives failover (DeviceSupervisor).
+    // Failures are recorded by DeviceSupervisor, from the link state of bound controllers and from setup.
+    private recordProxySuccess = () => {
+      if (this.proxyHost) recordProxySuccess(this.bleDevice.mac, this.proxyHost);
+    };
+
+    private notifyWrite = () => {
+      for (const handler of this.writeHandlers) handler();
+    };
+
+    private setLinkState = (state: LinkState) => {
+      if (state !== 'connected') this.markNotificationsLost();
+      for (const handler of this.linkStateHandlers) handler(state);
+    };
+
+    private scheduleDisconnect = () => {
+      if (this.stayConnected) return;
+      if (this.disconnectTimeout) clearTimeout(this.disconnectTimeout);
+      this.disconnectTimeout = setTimeout(this.disconnect, 60_000);
+    };
   
     private disconnect = async () => {
       try {
         await this.bleDevice.disconnect();
+        this.setLinkState('idle');
         logInfo(`[BLE] Successfully disconnected from device ${this.deviceData.device.name}`);
       } catch (error: any) {
         // Don't log as error - disconnect failures are often harmless (device already disconnected)
@@ -88,6 +352,9 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
       if (this.connectMutex) return this.connectMutex;
       this.connectMutex = (async () => {
         await this.bleDevice.connect();
+        this.setLinkState('connected');
+        // Restore notify subscriptions lost with an earlier disconnect (ours, the bed's or the proxy's).
+        await this.subscribeNotifications(true);
       })();
       try {
         await this.connectMutex;
@@ -182,17 +449,33 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
       }
     };
   
+    /**
+     * Priority writes bypass the command queue, so GATT writes are serialized here instead: a stop waits for
+     * the write in flight, never for the rest of the queue.
+     */
+    private writeCharacteristic = (command: number[]) => {
+      const op = this.gattWrites.then(() => this.bleDevice.writeCharacteristic(this.handle, new Uint8Array(command)));
+      this.gattWrites = op.then(
+        () => undefined,
+        () => undefined
+      );
+      return op;
+    };
+
     private write = async (command: number[]) => {
       if (this.disconnectTimeout) {
         clearTimeout(this.disconnectTimeout);
         this.disconnectTimeout = undefined;
       }
       try {
-        await this.bleDevice.writeCharacteristic(this.handle, new Uint8Array(command));
+        await this.writeCharacteristic(command);
         logInfo(`[BLE] Successfully wrote command to device ${this.deviceData.device.name}`);
+        this.notifyWrite();
+        this.checkNotifyResponses();
         // Record last attempted command time for idle-based maintenance reconnect decisions.
         healthMonitor.recordCommand(this.deviceData.device.name);
         healthMonitor.recordBleSuccess(this.deviceData.device.name);
+        this.recordProxySuccess();
       } catch (e) {
         // Retry once after forced reconnect if this looks transient.
         if (this.isTransientBleError(e)) {
@@ -206,26 +489,29 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
           await wait(300);
           try {
             await this.ensureConnected();
-            await this.bleDevice.writeCharacteristic(this.handle, new Uint8Array(command));
+            await this.writeCharacteristic(command);
             logInfo(`[BLE] Successfully wrote command to device ${this.deviceData.device.name} after retry`);
+            this.notifyWrite();
+            this.checkNotifyResponses();
             healthMonitor.recordCommand(this.deviceData.device.name);
             healthMonitor.recordBleSuccess(this.deviceData.device.name);
+            this.recordProxySuccess();
             // Schedule disconnect if we're not staying connected.
-            if (!this.stayConnected) this.disconnectTimeout = setTimeout(this.disconnect, 60_000);
+            this.scheduleDisconnect();
             return;
           } catch (retryError) {
             logError(`[BLE] Retry write failed for device ${this.deviceData.device.name}`, retryError);
             healthMonitor.recordBleFailure(this.deviceData.device.name, retryError, this.proxyHost);
+            this.setLinkState('failed');
             throw retryError;
           }
         }
         logError(`[BLE] Failed to write characteristic to device ${this.deviceData.device.name}`, e);
         healthMonitor.recordBleFailure(this.deviceData.device.name, e, this.proxyHost);
+        this.setLinkState('failed');
         throw e; // Re-throw so callers know the write failed
       }
-      if (this.stayConnected) return;
-  
-      this.disconnectTimeout = setTimeout(this.disconnect, 60_000);
+      this.scheduleDisconnect();
     };
   writeCommand = (command: TCommand, count: number = 1, waitTime?: number) =>
     this.writeCommands([command], count, waitTime);
@@ -239,12 +525,24 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
      * Strategy:
      * - Serialize all command executions per controller instance via a FIFO promise queue.
      * - This prevents overlapping writes and reduces "GATT busy / services timeout" flakiness.
+     * - Commands queued before a stop/cancel are dropped when their turn comes (see writeStopCommand).
      */
+    const generation = this.generation;
+    const isStale = () => {
+      if (generation === this.generation) return false;
+      logInfo(`[BLE] Dropping stale queued command for device ${this.deviceData.device.name}`);
+      return true;
+    };
     const run = async () => {
+      if (isStale()) return;
       const commandList = commands.map(this.commandBuilder).filter((command) => command.length > 0);
       if (commandList.length === 0) return;
 
-      await this.ensureConnectedWithRetry();
+      await this.ensureConnectedWithRetry().catch((error) => {
+        this.setLinkState('failed');
+        throw error;
+      });
+      if (isStale()) return;
 
       const onTick =
         commandList.length === 1 ? () => this.write(commandList[0]) : () => loopWithWait(commandList, this.write);
@@ -264,7 +562,12 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
       await this.timer.start();
     };
 
-    const op = this.commandQueue.then(run);
+    return await this.enqueue(run);
+  };
+
+  private enqueue = async <T>(run: () => Promise<T>) => {
+    this.queuedOperations++;
+    const op = this.commandQueue.then(run).finally(() => this.queuedOperations--);
     // Ensure the queue continues even if this operation fails.
     this.commandQueue = op.then(
       () => undefined,
@@ -274,9 +577,32 @@ export class BLEController<TCommand> extends EventEmitter implements IEventSourc
   };
 
   cancelCommands = async () => {
+    this.generation++;
     await this.timer?.cancel();
   };
 
+  /**
+   * Priority lane for stop commands.
+   *
+   * Why:
+   * - Through the FIFO queue a stop (or the stop half of a Cover direction change) waits behind a running
+   *   25×200ms motor burst or a reconnect retry, so the bed keeps moving after the user let go.
+   *
+   * How:
+   * - Cancels the active Timer and drops everything queued so far (stale commands aren't replayed after the stop).
+   * - Skips the queue: it only waits for a connect in progress and the GATT write in flight.
+   */
+  writeStopCommand = async (command: TCommand) => {
+    await this.cancelCommands();
+    const bytes = this.commandBuilder(command);
+    if (bytes.length === 0) return;
+    await this.ensureConnected().catch((error) => {
+      this.setLinkState('failed');
+      throw error;
+    });
+    await this.write(bytes);
+  };
+
   on = (eventName: string, handler: (data: Uint8Array) => void): this => {
     this.addListener(eventName, handler);
     return this;
@@ -0,0 +1,57 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { minutes } from '@utils/minutes';
+import { testDevice } from '@utils/testHelpers';
+import { mock } from 'jest-mock-extended';
+import { DeviceAvailability } from './DeviceAvailability';
+
+const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+const topic = 'device_topic/availability';
+const options = { retain: true, qos: 1 };
+
+describe(DeviceAvailability.name, () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.resetAllMocks();
+  });
+  afterEach(() => jest.useRealTimers());
+
+  it('publishes online on construction', () => {
+    new DeviceAvailability(mqtt, testDevice);
+    expect(mqtt.publish).toBeCalledWith(topic, 'online', options);
+  });
+
+  it('goes offline on link failure and back online on the next advertisement', () => {
+    const subject = new DeviceAvailability(mqtt, testDevice);
+    subject.setLinkState('failed');
+    expect(mqtt.publish).toHaveBeenLastCalledWith(topic, 'offline', options);
+
+    subject.recordAdvertisement();
+    expect(mqtt.publish).toHaveBeenLastCalledWith(topic, 'online', options);
+  });
+
+  it('goes offline when an idle device stops advertising', () => {
+    const subject = new DeviceAvailability(mqtt, testDevice);
+    jest.advanceTimersByTime(minutes(4));
+    subject.recordAdvertisement();
+    jest.advanceTimersByTime(minutes(4));
+    expect(mqtt.publish).toBeCalledTimes(1);
+
+    jest.advanceTimersByTime(minutes(2));
+    expect(mqtt.publish).toHaveBeenLastCalledWith(topic, 'offline', options);
+  });
+
+  it('stays online while connected without advertisements', () => {
+    const subject = new DeviceAvailability(mqtt, testDevice);
+    subject.setLinkState('connected');
+    jest.advanceTimersByTime(minutes(30));
+    expect(mqtt.publish).toBeCalledTimes(1);
+  });
+
+  it('does not republish an unchanged state', () => {
+    const subject = new DeviceAvailability(mqtt, testDevice);
+    subject.setLinkState('connected');
+    subject.setLinkState('idle');
+    subject.recordAdvertisement();
+    expect(mqtt.publish).toBeCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { IDeviceData } from '@ha/IDeviceData';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { minutes } from '@utils/minutes';
+import { seconds } from '@utils/seconds';
+
+/**
+ * Link state reported by BLEController:
+ * - `connected`: connect or write just succeeded.
+ * - `idle`: disconnected on purpose (idle timeout, before a reconnect).
+ * - `failed`: connect or write failed after the controller's own retries.
+ */
+export type LinkState = 'connected' | 'idle' | 'failed';
+
+const ONLINE = 'online';
+const OFFLINE = 'offline';
+
+/**
+ * Publishes `<deviceTopic>/availability` for one bed.
+ *
+ * Why:
+ * - With only the add-on status topic, an unplugged or out-of-range bed still shows as available in HA and
+ *   commands fail silently.
+ *
+ * How:
+ * - A failed connect/write takes the bed offline until a later success or until it advertises again.
+ * - While idle (not connected), the bed must have been seen recently: an advertisement, or a successful link.
+ *   Connected beds usually stop advertising, so freshness is not checked while connected.
+ */
+export class DeviceAvailability {
+  readonly topic: string;
+  private linkState: LinkState = 'idle';
+  private lastSeenAt = Date.now();
+  private published?: string;
+
+  constructor(private mqtt: IMQTTConnection, deviceData: IDeviceData, private staleAfterMs = minutes(5)) {
+    this.topic = `${deviceData.deviceTopic}/availability`;
+    setInterval(() => this.update(), seconds(30));
+    this.update();
+  }
+
+  get isAvailable() {
+    if (this.linkState === 'failed') return false;
+    if (this.linkState === 'connected') return true;
+    return Date.now() - this.lastSeenAt < this.staleAfterMs;
+  }
+
+  setLinkState(state: LinkState) {
+    this.linkState = state;
+    if (state !== 'failed') this.lastSeenAt = Date.now();
+    this.update();
+  }
+
+  recordAdvertisement() {
+    this.lastSeenAt = Date.now();
+    // Advertising again after a failure: it's back in range, let the user try.
+    if (this.linkState === 'failed') this.linkState = 'idle';
+    this.update();
+  }
+
+  private update() {
+    const availability = this.isAvailable ? ONLINE : OFFLINE;
+    if (availability === this.published) return;
+    this.published = availability;
+    this.mqtt.publish(this.topic, availability, { retain: true, qos: 1 });
+  }
+}
@@ -0,0 +1,291 @@
+import { IDeviceData } from '@ha/IDeviceData';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { logError, logInfo, logWarn } from '@utils/logger';
+import { minutes } from '@utils/minutes';
+import { getAdvertisingTimeoutMinutes, getRoutines } from '@utils/options';
+import { retryWithBackoff } from '@utils/retryWithBackoff';
+import { wait } from '@utils/wait';
+import { setupCommandTopic } from 'Common/setupCommandTopic';
+import { setupPurgeDeviceButton } from 'Common/setupDiscoveryCleanup';
+import { setupRoutines } from 'Common/setupRoutines';
+import { healthMonitor } from 'Diagnostics/HealthMonitor';
+import { findFailoverProxy, recordProxyFailure, recordProxySuccess } from 'ESPHome/proxyPreferences';
+import { BLEDevice } from 'ESPHome/types/BLEDevice';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
+import { BLEController } from './BLEController';
+import { DeviceAvailability } from './DeviceAvailability';
+import { setupAdvertisementSensors } from './setupAdvertisementSensors';
+import { setupBondEntities } from './setupBondEntities';
+import { setupNotifyStatusSensor } from './setupNotifyStatusSensor';
+
+/**
+ * Brand-specific setup for one bed: connect, look up characteristics, build the controller and its entities.
+ * Return `undefined` when the device is not supported (no retry); throw to have the supervisor retry.
+ */
+export type DeviceSetup = (bleDevice: IBLEDevice) => Promise<BLEController<any> | undefined>;
+
+export interface SuperviseOptions {
+  context: string;
+  mqtt: IMQTTConnection;
+  deviceData: IDeviceData;
+  bleDevice: IBLEDevice;
+  setup: DeviceSetup;
+}
+
+interface SupervisedDevice {
+  context: string;
+  name: string;
+  mqtt: IMQTTConnection;
+  availability: DeviceAvailability;
+  bleDevice?: IBLEDevice;
+  setup?: DeviceSetup;
+  controller?: BLEController<any>;
+  settingUp?: Promise<void>;
+  recovering?: Promise<void>;
+}
+
+const SETUP_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+/**
+ * The proxy connection itself is gone (as opposed to one bed's BLE link): only a full ESPHome
+ * reconnect helps here, per-device retries would just spin.
+ */
+const isProxyConnectionDead = (error: any) => {
+  const code = error?.code || '';
+  const msg = String(error?.message || error).toLowerCase();
+  return (
+    msg.includes('esphome api not ready') ||
+    code === 'ECONNRESET' ||
+    code === 'ERR_STREAM_WRITE_AFTER_END' ||
+    msg.includes('write after end')
+  );
+};
+
+/**
+ * Per-device supervisor.
+ *
+ * Why:
+ * - Restarting the whole brand function because one bed is flaky tears down ESPHome and re-creates the
+ *   entities of every other bed.
+ *
+ * How:
+ * - Each bed gets its own lifecycle here: initial setup retried with its own backoff, and once the controller
+ *   exists, repeated BLE failures (reported through HealthMonitor) reconnect only that bed.
+ * - Controllers outlive ESPHome reconnects: when a brand re-discovers a bed we already own, the new BLEDevice is
+ *   bound to the existing controller instead of building (and publishing) a second set of entities.
+ * - Only a dead proxy connection escalates to HealthMonitor.requestRestart (full ESPHome reconnect).
+ * - With several proxies, a bed whose connects/writes keep failing on its proxy is moved to another proxy that
+ *   has heard it (see proxyPreferences) before the next setup/reconnect attempt.
+ * - Each bed publishes its own availability (DeviceAvailability), so HA greys out only the affected bed.
+ */
+class DeviceSupervisor {
+  private devices = new Map<string, SupervisedDevice>();
+
+  /**
+   * Set up a bed and keep it alive. Resolves after the first attempt; failed attempts continue in the background.
+   */
+  async supervise({ context, mqtt, deviceData, bleDevice, setup }: SuperviseOptions) {
+    if (this.rebind(deviceData, bleDevice)) return;
+
+    const device = this.register(context, mqtt, deviceData);
+    device.bleDevice = bleDevice;
+    device.setup = setup;
+    // A retry loop is already running for this bed; it will use the new BLEDevice on its next attempt.
+    if (device.settingUp) return;
+
+    try {
+      await this.attemptSetup(device);
+    } catch (error: any) {
+      logWarn(`[${context}] Setup failed for ${device.name}, retrying in the background:`, error?.message || error);
+      device.settingUp = this.retrySetup(device).finally(() => (device.settingUp = undefined));
+    }
+  }
+
+  /**
+   * Track a bed whose setup is driven by the brand itself (e.g. Keeson's linked-controller failover),
+   * so its runtime failures are still handled per device.
+   * Must be called before the bed's entities are built: it sets `deviceData.availabilityTopic`.
+   */
+  register(context: string, mqtt: IMQTTConnection, deviceData: IDeviceData) {
+    const key = deviceData.deviceTopic;
+    let device = this.devices.get(key);
+    if (!device) {
+      device = {
+        context,
+        name: deviceData.device.name,
+        mqtt,
+        availability: new DeviceAvailability(mqtt, deviceData),
+      };
+      this.devices.set(key, device);
+      const supervised = device;
+      healthMonitor.registerDeviceRecovery(device.name, (error) => this.recover(supervised, error));
+    }
+    deviceData.availabilityTopic = device.availability.topic;
+    return device;
+  }
+
+  adopt(
+    context: string,
+    mqtt: IMQTTConnection,
+    deviceData: IDeviceData,
+    controller: BLEController<any>,
+    bleDevice?: IBLEDevice
+  ) {
+    const device = this.register(context, mqtt, deviceData);
+    if (bleDevice) device.bleDevice = bleDevice;
+    this.bindController(device, controller);
+    healthMonitor.setDeviceState(device.name, 'ready', false);
+  }
+
+  /**
+   * Bind a re-discovered BLEDevice to the controller we already built for this bed.
+   * Returns false when the bed has no controller yet and needs the normal setup path.
+   */
+  rebind(deviceData: IDeviceData, bleDevice: IBLEDevice) {
+    const device = this.devices.get(deviceData.deviceTopic);
+    if (!device?.controller) return false;
+
+    logInfo(`[${device.context}] Re-attaching ${device.name} to rediscovered BLE device ${bleDevice.mac}`);
+    device.bleDevice = bleDevice;
+    device.controller.rebind(bleDevice, (bleDevice as BLEDevice).host);
+    this.recover(device);
+    return true;
+  }
+
+  private attemptSetup = async (device: SupervisedDevice) => {
+    const { bleDevice, setup, name, context } = device;
+    if (!bleDevice || !setup) return;
+
+    const host = (bleDevice as BLEDevice).host;
+    healthMonitor.setDeviceState(name, 'connecting', false);
+    try {
+      const controller = await setup(bleDevice);
+      if (host) recordProxySuccess(bleDevice.mac, host);
+      if (!controller) {
+        healthMonitor.setDeviceState(name, 'unsupported', false);
+        return;
+      }
+      this.bindController(device, controller);
+      healthMonitor.setDeviceState(name, 'ready', false);
+      logInfo(`[${context}] Device ${name} is ready`);
+    } catch (error) {
+      healthMonitor.setDeviceState(name, 'setup_failed', true, error);
+      if (host) recordProxyFailure(bleDevice.mac, host, error);
+      try {
+        await bleDevice.disconnect();
+      } catch {}
+      throw error;
+    }
+  };
+
+  private bindController(device: SupervisedDevice, controller: BLEController<any>) {
+    const { availability, mqtt } = device;
+    device.controller = controller;
+    controller.onLinkStateChange((state) => {
+      availability.setLinkState(state);
+      // Setup failures are recorded by attemptSetup: this controller is only bound once setup succeeded.
+      if (state === 'failed' && controller.proxyHost) recordProxyFailure(controller.mac, controller.proxyHost);
+    });
+    controller.onAdvertisement(() => availability.recordAdvertisement());
+    setupNotifyStatusSensor(mqtt, controller);
+    setupBondEntities(mqtt, controller);
+    setupAdvertisementSensors(mqtt, controller, minutes(getAdvertisingTimeoutMinutes()));
+    setupPurgeDeviceButton(mqtt, controller);
+    // The brand has built its entities by now, so every command routines and the command topic use is registered.
+    setupRoutines(mqtt, controller, getRoutines());
+    setupCommandTopic(mqtt, controller);
+  }
+
+  /** The controller of a bed this instance supervises, by MAC (lease requests from other instances use it). */
+  getController(mac: string) {
+    for (const { controller } of this.devices.values()) {
+      if (controller?.mac === mac) return controller;
+    }
+    return undefined;
+  }
+
+  private retrySetup = async (device: SupervisedDevice) => {
+    await wait(SETUP_RETRY_DELAY_MS);
+    try {
+      const setup = async () => {
+        await this.failover(device);
+        await this.attemptSetup(device);
+      };
+      await retryWithBackoff(setup, {
+        maxRetries: undefined,
+        initialDelayMs: SETUP_RETRY_DELAY_MS,
+        maxDelayMs: MAX_RETRY_DELAY_MS,
+        backoffMultiplier: 2,
+        isRetryableError: (error) => !isProxyConnectionDead(error),
+        onRetry: (error, attempt, delayMs) =>
+          logWarn(
+            `[${device.context}] Setup attempt ${attempt} failed for ${device.name}, retrying in ${delayMs / 1000}s:`,
+            error?.message || error
+          ),
+      });
+    } catch (error: any) {
+      this.escalate(device, error);
+    }
+  };
+
+  private recover(device: SupervisedDevice, error?: any) {
+    const { controller, name, context } = device;
+    if (!controller || device.recovering) return;
+
+    healthMonitor.setDeviceState(name, 'recovering', true, error);
+    const reconnect = async () => {
+      await this.failover(device);
+      await controller.reconnect();
+    };
+    device.recovering = retryWithBackoff(reconnect, {
+      maxRetries: undefined,
+      initialDelayMs: 5_000,
+      maxDelayMs: MAX_RETRY_DELAY_MS,
+      backoffMultiplier: 2,
+      isRetryableError: (error) => !isProxyConnectionDead(error),
+      onRetry: (error, attempt, delayMs) => {
+        healthMonitor.setDeviceState(name, 'recovering', true, error);
+        logWarn(
+          `[${context}] Reconnect attempt ${attempt} failed for ${name}, retrying in ${delayMs / 1000}s:`,
+          error?.message || error
+        );
+      },
+    })
+      .then(() => healthMonitor.setDeviceState(name, 'ready', false))
+      .catch((error) => this.escalate(device, error))
+      .finally(() => (device.recovering = undefined));
+  }
+
+  /**
+   * Move the bed to the best other proxy that recently heard it, once connects/writes keep failing on its own.
+   */
+  private failover = async (device: SupervisedDevice) => {
+    const { bleDevice, controller, context, name } = device;
+    if (!bleDevice) return;
+    const host = (bleDevice as BLEDevice).host;
+    const target = findFailoverProxy(bleDevice.mac, host);
+    if (!target) return;
+
+    logWarn(`[${context}] Connects to ${name} keep failing via proxy ${host}; moving it to proxy ${target.host}`);
+    try {
+      // Free the slot on the old proxy.
+      await bleDevice.disconnect();
+    } catch {}
+    const moved = new BLEDevice(bleDevice.name, target.advertisement, target.connection);
+    device.bleDevice = moved;
+    controller?.rebind(moved, target.host);
+  };
+
+  private escalate(device: SupervisedDevice, error: any) {
+    logError(`[${device.context}] Proxy connection lost while supervising ${device.name}`, error?.message || error);
+    healthMonitor.requestRestart({
+      kind: 'ble',
+      reason: 'ESPHome proxy connection lost',
+      deviceName: device.name,
+      error: error?.message || String(error),
+    });
+  }
+}
+
+export const deviceSupervisor = new DeviceSupervisor();
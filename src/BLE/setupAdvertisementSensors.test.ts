@@ -0,0 +1,94 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { minutes } from '@utils/minutes';
+import { deviceDiscoveryTopic, mocked, testDevice } from '@utils/testHelpers';
+import { onProxySighting, ProxySighting } from 'ESPHome/proxyPreferences';
+import { BLEAdvertisement } from 'ESPHome/types/BLEAdvertisement';
+import { mock } from 'jest-mock-extended';
+import { BLEController } from './BLEController';
+import { LinkState } from './DeviceAvailability';
+import { setupAdvertisementSensors } from './setupAdvertisementSensors';
+
+jest.mock('@utils/logger');
+jest.mock('ESPHome/proxyPreferences');
+
+const mqtt = mock<IMQTTConnection>();
+const rssiTopic = 'device_topic/rssi/state';
+const advertisingTopic = 'device_topic/advertising/state';
+
+describe(setupAdvertisementSensors.name, () => {
+  let advertise: (advertisement: BLEAdvertisement) => void;
+  let sight: (mac: string, sighting: ProxySighting) => void;
+  let setLinkState: (state: LinkState) => void;
+
+  const published = (topic: string) =>
+    mocked(mqtt.publish)
+      .mock.calls.filter(([t]) => t === topic)
+      .map(([, message]) => message);
+
+  const buildSubject = () => {
+    const controller = {
+      cache: {},
+      deviceData: { ...testDevice, availabilityTopic: 'device_topic/availability' },
+      mac: 'aabbccddeeff',
+      proxyHost: 'proxy-a',
+      onAdvertisement: (handler: typeof advertise) => (advertise = handler),
+      onLinkStateChange: (handler: typeof setLinkState) => (setLinkState = handler),
+    } as unknown as BLEController<any>;
+    setupAdvertisementSensors(mqtt, controller, minutes(5));
+    jest.advanceTimersByTime(1000);
+  };
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.clearAllTimers();
+    mocked(onProxySighting).mockImplementation((listener) => (sight = listener));
+  });
+
+  it('publishes the strongest proxy with every proxy that heard the bed', () => {
+    buildSubject();
+    advertise({ rssi: -80 } as BLEAdvertisement);
+    sight('aabbccddeeff', { host: 'proxy-b', rssi: -60 } as ProxySighting);
+    sight('other', { host: 'proxy-c', rssi: -40 } as ProxySighting);
+    jest.advanceTimersByTime(1000);
+
+    expect(published(rssiTopic).pop()).toMatchObject({
+      rssi: -60,
+      proxy: 'proxy-b',
+      proxies: { 'proxy-a': { rssi: -80 }, 'proxy-b': { rssi: -60 } },
+    });
+  });
+
+  it('throttles RSSI updates from known proxies', () => {
+    buildSubject();
+    advertise({ rssi: -80 } as BLEAdvertisement);
+    jest.advanceTimersByTime(1000);
+    advertise({ rssi: -70 } as BLEAdvertisement);
+    advertise({ rssi: -75 } as BLEAdvertisement);
+    jest.advanceTimersByTime(1000);
+    expect(published(rssiTopic)).toHaveLength(1);
+
+    jest.advanceTimersByTime(minutes(1));
+    expect(published(rssiTopic).pop()).toMatchObject({ rssi: -75 });
+  });
+
+  it('turns advertising off after the timeout unless the bed is connected', () => {
+    buildSubject();
+    advertise({ rssi: -80 } as BLEAdvertisement);
+    jest.advanceTimersByTime(minutes(6));
+    expect(published(advertisingTopic)).toEqual(['ON', 'OFF']);
+
+    setLinkState('connected');
+    jest.advanceTimersByTime(minutes(10));
+    setLinkState('idle');
+    jest.advanceTimersByTime(1000);
+    expect(published(advertisingTopic)).toEqual(['ON', 'OFF', 'ON', 'OFF']);
+  });
+
+  it('keeps its entities available while the bed is offline', () => {
+    buildSubject();
+    const discovery = mocked(mqtt.publish).mock.calls.find(([topic]) => topic === deviceDiscoveryTopic);
+    expect(discovery?.[1].components.rssi).toMatchObject({ availability_topic: 'smartbedmqtt/status' });
+  });
+});
@@ -0,0 +1,115 @@
+import { BinarySensor } from '@ha/BinarySensor';
+import { IDeviceData } from '@ha/IDeviceData';
+import { JsonSensor } from '@ha/JsonSensor';
+import { Sensor } from '@ha/Sensor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { minutes } from '@utils/minutes';
+import { onProxySighting } from 'ESPHome/proxyPreferences';
+import { BLEController } from './BLEController';
+
+type ProxySignal = { rssi: number; lastSeen: string };
+type RssiState = { rssi: number; proxy: string; proxies: Dictionary<ProxySignal> };
+
+// Beds advertise several times a second; RSSI and last-seen are published at most this often.
+const PUBLISH_INTERVAL_MS = minutes(1);
+
+class RssiSensor extends JsonSensor<RssiState> {
+  constructor(mqtt: IMQTTConnection, deviceData: IDeviceData) {
+    super(mqtt, deviceData, { description: 'RSSI', category: 'diagnostic', icon: 'mdi:signal', valueField: 'rssi' });
+  }
+
+  discoveryState() {
+    return {
+      ...super.discoveryState(),
+      state_class: 'measurement',
+      unit_of_measurement: 'dBm',
+      device_class: 'signal_strength',
+    };
+  }
+}
+
+class LastSeenSensor extends Sensor<string> {
+  constructor(mqtt: IMQTTConnection, deviceData: IDeviceData) {
+    super(mqtt, deviceData, { description: 'Last Seen', category: 'diagnostic', icon: 'mdi:clock-outline' });
+  }
+
+  discoveryState() {
+    return { ...super.discoveryState(), device_class: 'timestamp' };
+  }
+}
+
+/**
+ * Advertisement diagnostics for a bed: `RSSI` (strongest proxy, with every proxy that heard it as attributes),
+ * `Last Seen` and an `Advertising` binary sensor that turns off after `timeoutMs` without advertisements.
+ *
+ * Why:
+ * - Helps placing proxies, and tells a bed that is unplugged (nothing advertises) apart from a proxy that is
+ *   broken (other proxies still hear the bed).
+ *
+ * How:
+ * - Fed from the bed's own advertisements and from the sightings of every other proxy that tracks it.
+ * - Connected beds usually stop advertising, so a live link counts as advertising.
+ * - These entities only use the add-on's availability, so they keep reporting while the bed is offline.
+ */
+export const setupAdvertisementSensors = (
+  mqtt: IMQTTConnection,
+  controller: BLEController<any>,
+  timeoutMs = minutes(5)
+) => {
+  const { cache } = controller;
+  if (cache.rssiSensor) return;
+
+  const deviceData = { ...controller.deviceData, availabilityTopic: undefined };
+  const rssiSensor = new RssiSensor(mqtt, deviceData);
+  const lastSeenSensor = new LastSeenSensor(mqtt, deviceData);
+  const advertisingSensor = new BinarySensor(mqtt, deviceData, {
+    description: 'Advertising',
+    category: 'diagnostic',
+    icon: 'mdi:broadcast',
+  });
+  cache.rssiSensor = rssiSensor;
+
+  const proxies = new Map<string, { rssi: number; at: number }>();
+  const boundAt = Date.now();
+  let lastSeenAt: number | undefined;
+  let connected = false;
+  let changed = false;
+
+  const publish = () => {
+    const now = Date.now();
+    advertisingSensor.setState(connected || now - (lastSeenAt ?? boundAt) < timeoutMs);
+    if (!changed) return;
+    changed = false;
+
+    for (const [host, { at }] of proxies) if (now - at >= timeoutMs) proxies.delete(host);
+    if (lastSeenAt) lastSeenSensor.setState(new Date(lastSeenAt).toISOString());
+    // Nobody heard the bed lately: keep the last reading rather than publish a non-numeric RSSI.
+    if (!proxies.size) return;
+    const [proxy, { rssi }] = [...proxies].reduce((best, entry) => (entry[1].rssi > best[1].rssi ? entry : best));
+    const signals: Dictionary<ProxySignal> = {};
+    for (const [host, { rssi, at }] of proxies) signals[host] = { rssi, lastSeen: new Date(at).toISOString() };
+    rssiSensor.setState({ rssi, proxy, proxies: signals });
+  };
+
+  const record = (host: string | undefined, rssi: number) => {
+    const wasAdvertising = advertisingSensor.getState();
+    const isNewProxy = !!host && !proxies.has(host);
+    lastSeenAt = Date.now();
+    if (host) proxies.set(host, { rssi, at: lastSeenAt });
+    changed = true;
+    // First sighting, a proxy that just started hearing the bed or a bed that is back: don't wait for the tick.
+    if (!lastSeenSensor.getState() || isNewProxy || !wasAdvertising) publish();
+  };
+
+  controller.onAdvertisement(({ rssi }) => record(controller.proxyHost, rssi));
+  onProxySighting((mac, { host, rssi }) => {
+    if (mac === controller.mac) record(host, rssi);
+  });
+  controller.onLinkStateChange((state) => {
+    connected = state === 'connected';
+    publish();
+  });
+  setInterval(publish, PUBLISH_INTERVAL_MS);
+  publish();
+};
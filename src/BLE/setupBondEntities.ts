@@ -0,0 +1,47 @@
+import { Button } from '@ha/Button';
+import { JsonSensor } from '@ha/JsonSensor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import {
+  BondState,
+  clearDeviceCache,
+  getBondState,
+  onBondStateChange,
+  pairDevice,
+  unpairDevice,
+} from 'ESPHome/bondState';
+import { BLEController } from './BLEController';
+
+/**
+ * Bond management for a bed: a `Bond` diagnostic sensor and Pair / Unpair / Clear BLE Cache buttons.
+ * A failed pairing shows up on the sensor with the proxy's reason.
+ */
+export const setupBondEntities = (mqtt: IMQTTConnection, controller: BLEController<any>) => {
+  const { deviceData, cache } = controller;
+  if (cache.bondSensor) return;
+
+  const sensor = new JsonSensor<BondState>(mqtt, deviceData, {
+    description: 'Bond',
+    category: 'diagnostic',
+    icon: 'mdi:link-lock',
+    valueField: 'status',
+  });
+  cache.bondSensor = sensor;
+  onBondStateChange((mac, state) => {
+    if (mac === controller.mac) sensor.setState(state);
+  });
+  sensor.setState(getBondState(controller.mac));
+
+  const buttons = [
+    { description: 'Pair', icon: 'mdi:link-variant', run: () => controller.runDeviceOperation(pairDevice) },
+    { description: 'Unpair', icon: 'mdi:link-variant-off', run: () => controller.runDeviceOperation(unpairDevice) },
+    {
+      description: 'Clear BLE Cache',
+      icon: 'mdi:delete-sweep',
+      // The proxy only clears the cache of a device it is not connected to.
+      run: () => controller.runDeviceOperation(clearDeviceCache, false),
+    },
+  ];
+  for (const { description, icon, run } of buttons) {
+    new Button(mqtt, deviceData, { description, category: 'diagnostic', icon }, run);
+  }
+};
@@ -0,0 +1,37 @@
+import { JsonSensor } from '@ha/JsonSensor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { BLEController, NotifyChannelStatus } from './BLEController';
+
+type NotifyStatusState = { status: string; channels: Dictionary<NotifyChannelStatus> };
+
+/**
+ * Diagnostic sensor for beds with feedback channels: `ok`, or the channels that are stale or not subscribed.
+ */
+export const setupNotifyStatusSensor = (mqtt: IMQTTConnection, controller: BLEController<any>) => {
+  const { deviceData, cache, notifyNames } = controller;
+  if (!notifyNames.length || cache.notifyStatusSensor) return;
+
+  const sensor = new JsonSensor<NotifyStatusState>(mqtt, deviceData, {
+    description: 'Notifications',
+    category: 'diagnostic',
+    icon: 'mdi:bell-ring-outline',
+    valueField: 'status',
+  });
+  cache.notifyStatusSensor = sensor;
+
+  let published: string | undefined;
+  const update = () => {
+    const channels = controller.getNotifyStatus();
+    const problems = Object.entries(channels)
+      .filter(([, { subscribed, stale }]) => stale || !subscribed)
+      .map(([key, { stale }]) => `${key} ${stale ? 'stale' : 'unsubscribed'}`);
+    const status = problems.length ? problems.join(', ') : 'ok';
+    // Timestamps change on every notification; only publish when a channel's state does.
+    if (status === published) return;
+    published = status;
+    sensor.setState({ status, channels });
+  };
+  controller.onNotifyStatusChange(update);
+  update();
+};
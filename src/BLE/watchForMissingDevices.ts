@@ -0,0 +1,121 @@
+import { JsonSensor } from '@ha/JsonSensor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { logError, logWarn } from '@utils/logger';
+import { buildAddonDeviceData } from 'Common/buildAddonDeviceData';
+import { IESPConnection } from 'ESPHome/IESPConnection';
+import { matchesDeviceName } from 'ESPHome/matchesDeviceName';
+import { BLEDevice } from 'ESPHome/types/BLEDevice';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
+
+type DiscoveryState = {
+  status: 'not_found' | 'found';
+  brand: string;
+  bed: string;
+  identifiers: string[];
+  since: string;
+  foundVia?: { name: string; mac: string; host?: string };
+};
+
+interface WatchOptions {
+  context: string;
+  mqtt: IMQTTConnection;
+  esphome: IESPConnection;
+  /** Configured identifier (lower case) -> device config. Aliases of one bed share the same config object. */
+  devicesMap: Dictionary<{ friendlyName: string }>;
+  found: IBLEDevice[];
+  setupDevice: (bleDevice: IBLEDevice) => Promise<void>;
+  nameMapper?: (name: string) => string;
+}
+
+// One sensor per bed for the lifetime of the process; brands call this again after every ESPHome reconnect.
+const discoverySensors = new Map<string, JsonSensor<DiscoveryState>>();
+
+const getDiscoverySensor = (mqtt: IMQTTConnection, context: string, bed: string) => {
+  const key = `${context}:${bed}`;
+  let sensor = discoverySensors.get(key);
+  if (!sensor) {
+    sensor = new JsonSensor<DiscoveryState>(mqtt, buildAddonDeviceData(), {
+      tag: `${context} ${bed} discovery`,
+      description: `${bed} Discovery`,
+      category: 'diagnostic',
+      icon: 'mdi:bed-clock',
+      valueField: 'status',
+    });
+    discoverySensors.set(key, sensor);
+  }
+  return sensor;
+};
+
+/**
+ * Attach configured beds that `getBLEDevices` did not find.
+ *
+ * Why:
+ * - The startup scan gives up after 30s; a bed that is powered off or out of range at boot was never attached
+ *   until the add-on restarted.
+ *
+ * How:
+ * - Publish a "not found" diagnostic on the SmartbedMQTT device for every missing bed.
+ * - Watch the advertisement stream in the background and run the brand's normal setup (`setupDevice`) as soon
+ *   as the bed shows up. The watch ends with the ESPHome session; the brand starts a new one after a reconnect.
+ */
+export const watchForMissingDevices = ({
+  context,
+  mqtt,
+  esphome,
+  devicesMap,
+  found,
+  setupDevice,
+  nameMapper,
+}: WatchOptions) => {
+  const identifiersByDevice = new Map<{ friendlyName: string }, string[]>();
+  for (const [identifier, device] of Object.entries(devicesMap)) {
+    identifiersByDevice.set(device, [...(identifiersByDevice.get(device) ?? []), identifier]);
+  }
+
+  const since = new Date().toISOString();
+  const missing: string[] = [];
+  let missingDevices = 0;
+  for (const [{ friendlyName: bed }, identifiers] of identifiersByDevice) {
+    const isFound = found.some((bleDevice) =>
+      identifiers.some((identifier) => matchesDeviceName(identifier, bleDevice))
+    );
+    if (isFound) {
+      discoverySensors.get(`${context}:${bed}`)?.setState({ status: 'found', brand: context, bed, identifiers, since });
+      continue;
+    }
+    missing.push(...identifiers);
+    missingDevices += 1;
+    getDiscoverySensor(mqtt, context, bed).setState({ status: 'not_found', brand: context, bed, identifiers, since });
+  }
+  if (!missing.length) return;
+
+  logWarn(`[${context}] Device(s) not found at startup, will set up when they appear: ${missing.join(', ')}`);
+  const attached = new Set<{ friendlyName: string }>();
+  const stop = esphome.watchForBLEDevices(
+    missing,
+    (bleDevice, matchedNames) => {
+      const device = devicesMap[matchedNames[0]];
+      // A linked controller of a bed we already attached (alias match): keep the first one.
+      if (!device || attached.has(device)) return;
+      attached.add(device);
+
+      const { name, mac } = bleDevice;
+      const bed = device.friendlyName;
+      getDiscoverySensor(mqtt, context, bed).setState({
+        status: 'found',
+        brand: context,
+        bed,
+        identifiers: identifiersByDevice.get(device) ?? matchedNames,
+        since: new Date().toISOString(),
+        foundVia: { name, mac, host: (bleDevice as BLEDevice).host },
+      });
+      void setupDevice(bleDevice).catch((error) =>
+        logError(`[${context}] Failed to set up ${bed} after it appeared:`, error?.message || error)
+      );
+
+      if (attached.size === missingDevices) stop();
+    },
+    nameMapper
+  );
+};
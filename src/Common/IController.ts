@@ -11,4 +11,8 @@ export interface IController<TCommand> extends IDeviceCache {
   writeCommand: (command: TCommand, count?: number, waitTime?: number) => Promise<void>;
   writeCommands: (commands: TCommand[], count?: number, waitTime?: number) => Promise<void>;
   cancelCommands: () => Promise<void>;
+  /** Stop commands: sent ahead of queued commands, which are dropped. Falls back to `writeCommand` when absent. */
+  writeStopCommand?: (command: TCommand) => Promise<void>;
+  /** Calls `handler` after every command that reached the bed, until the returned function is called. */
+  onWrite?: (handler: () => void) => () => void;
 }
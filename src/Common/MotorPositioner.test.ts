@@ -0,0 +1,119 @@
+import { MotorPositioner } from './MotorPositioner';
+
+jest.useFakeTimers();
+
+const advance = async (ms: number) => {
+  jest.advanceTimersByTime(ms);
+  // Let the burst loop pick up resolved bursts.
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe(MotorPositioner.name, () => {
+  const drive = jest.fn();
+  const stop = jest.fn();
+  let subject: MotorPositioner;
+
+  beforeEach(() => {
+    jest.clearAllTimers();
+    drive.mockReset().mockImplementation(() => new Promise<void>((resolve) => setTimeout(resolve, 5_000)));
+    stop.mockReset().mockResolvedValue(undefined);
+    subject = new MotorPositioner(
+      { name: 'MotorBack', drive, stop },
+      { tolerance: 10, stallTimeoutMs: 3_000, maxRunTimeMs: 60_000 }
+    );
+  });
+
+  it("doesn't move without position feedback", async () => {
+    expect(await subject.moveTo(400)).toBe('unknown');
+    expect(drive).not.toHaveBeenCalled();
+  });
+
+  it("doesn't move when already within tolerance", async () => {
+    subject.setPosition(395);
+    expect(await subject.moveTo(400)).toBe('reached');
+    expect(drive).not.toHaveBeenCalled();
+  });
+
+  it('drives towards the target and stops once it is reached', async () => {
+    subject.setPosition(100);
+    const result = subject.moveTo(400);
+    expect(drive).toHaveBeenCalledWith('up');
+
+    subject.setPosition(250);
+    subject.setPosition(395);
+    expect(await result).toBe('reached');
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the target is overshot', async () => {
+    subject.setPosition(600);
+    const result = subject.moveTo(200);
+    expect(drive).toHaveBeenCalledWith('down');
+
+    subject.setPosition(150);
+    expect(await result).toBe('reached');
+  });
+
+  it('keeps driving bursts until the target is reached', async () => {
+    subject.setPosition(0);
+    const result = subject.moveTo(800);
+    for (let position = 100; position <= 400; position += 100) {
+      subject.setPosition(position);
+      await advance(2_000);
+    }
+    expect(drive.mock.calls.length).toBeGreaterThan(1);
+    subject.setPosition(800);
+    expect(await result).toBe('reached');
+  });
+
+  it('stops when the feedback stalls', async () => {
+    subject.setPosition(100);
+    const result = subject.moveTo(400);
+    subject.setPosition(150);
+    await advance(3_000);
+    expect(await result).toBe('stalled');
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the maximum run time', async () => {
+    subject.setPosition(0);
+    const result = subject.moveTo(800);
+    for (let elapsed = 0; elapsed < 60_000; elapsed += 1_000) {
+      subject.setPosition(elapsed / 1_000);
+      await advance(1_000);
+    }
+    expect(await result).toBe('timeout');
+  });
+
+  it('cancels a move when stopped', async () => {
+    subject.setPosition(100);
+    const result = subject.moveTo(400);
+    await subject.stop();
+    expect(await result).toBe('canceled');
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops the motor when stopped while not moving to a position', async () => {
+    await subject.stop();
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when driving fails', async () => {
+    drive.mockRejectedValue(new Error('write failed'));
+    subject.setPosition(100);
+    expect(await subject.moveTo(400)).toBe('failed');
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('still settles the move when stopping fails', async () => {
+    drive.mockRejectedValue(new Error('write failed'));
+    stop.mockRejectedValue(new Error('disconnected'));
+    subject.setPosition(100);
+    expect(await subject.moveTo(400)).toBe('failed');
+
+    const result = subject.moveTo(800);
+    subject.setPosition(800);
+    expect(await result).toBe('reached');
+    expect(stop).toHaveBeenCalledTimes(2);
+  });
+});
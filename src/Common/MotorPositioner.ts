@@ -0,0 +1,130 @@
+import { Deferred } from '@utils/deferred';
+import { logWarn } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+
+export type MoveResult = 'reached' | 'stalled' | 'timeout' | 'canceled' | 'failed' | 'unknown';
+type Direction = 'up' | 'down';
+
+interface Motor {
+  name: string;
+  /** Run the motor in one direction for one burst; resolves when the burst ends or is canceled. */
+  drive: (direction: Direction) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+interface Options {
+  /** Raw position units; stop once the feedback is this close to the target. */
+  tolerance: number;
+  /** Stop when the feedback has not changed for this long while moving. */
+  stallTimeoutMs?: number;
+  /** Stop after this long, whatever the feedback says. */
+  maxRunTimeMs?: number;
+}
+
+interface Motion {
+  target: number;
+  direction: Direction;
+  done: Deferred<MoveResult>;
+  stallTimer?: NodeJS.Timeout;
+  runTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Closed-loop positioning for one motor, driven by the position the bed reports for it.
+ *
+ * Why:
+ * - Beds that report where each motor is (Linak notifications, Sleeptracker status) can hit a target position
+ *   exactly instead of estimating it.
+ *
+ * How:
+ * - `moveTo` keeps running bursts towards the target and stops once the feedback is within `tolerance`
+ *   (or has passed the target).
+ * - Safety: it also stops when the feedback stops changing (end stop, obstruction, lost notifications)
+ *   and after `maxRunTimeMs`, whatever the feedback says.
+ */
+export class MotorPositioner {
+  private position?: number;
+  private motion?: Motion;
+
+  constructor(private motor: Motor, private options: Options) {}
+
+  get currentPosition() {
+    return this.position;
+  }
+
+  setPosition(position: number) {
+    const changed = position !== this.position;
+    this.position = position;
+    const { motion } = this;
+    if (!motion) return;
+
+    const { target, direction } = motion;
+    const { tolerance } = this.options;
+    if (direction === 'up' ? position >= target - tolerance : position <= target + tolerance) {
+      void this.finish(motion, 'reached');
+    } else if (changed) {
+      this.armStallTimer(motion);
+    }
+  }
+
+  async moveTo(target: number): Promise<MoveResult> {
+    if (this.motion) await this.finish(this.motion, 'canceled');
+    if (this.position === undefined) {
+      logWarn(`[Motor] No position feedback yet for ${this.motor.name}, can't move to a position`);
+      return 'unknown';
+    }
+    if (Math.abs(target - this.position) <= this.options.tolerance) return 'reached';
+
+    const motion: Motion = {
+      target,
+      direction: target > this.position ? 'up' : 'down',
+      done: new Deferred<MoveResult>(),
+    };
+    this.motion = motion;
+    this.armStallTimer(motion);
+    motion.runTimer = setTimeout(() => void this.finish(motion, 'timeout'), this.options.maxRunTimeMs ?? seconds(60));
+    void this.drive(motion);
+    return await motion.done;
+  }
+
+  /** Cancel the current move, or just stop the motor when it isn't moving to a position. */
+  async stop() {
+    if (this.motion) await this.finish(this.motion, 'canceled');
+    else await this.motor.stop();
+  }
+
+  private drive = async (motion: Motion) => {
+    try {
+      // Each drive call is one burst; keep going until the motion is finished.
+      while (this.motion === motion) await this.motor.drive(motion.direction);
+    } catch {
+      await this.finish(motion, 'failed');
+    }
+  };
+
+  private armStallTimer(motion: Motion) {
+    clearTimeout(motion.stallTimer);
+    motion.stallTimer = setTimeout(
+      () => void this.finish(motion, 'stalled'),
+      this.options.stallTimeoutMs ?? seconds(3)
+    );
+  }
+
+  private async finish(motion: Motion, result: MoveResult) {
+    if (this.motion !== motion) return;
+    this.motion = undefined;
+    clearTimeout(motion.stallTimer);
+    clearTimeout(motion.runTimer);
+    if (result === 'stalled' || result === 'timeout') {
+      logWarn(`[Motor] Stopping ${this.motor.name}: ${result} before reaching position ${motion.target}`);
+    }
+    try {
+      await this.motor.stop();
+    } catch (error: any) {
+      // Usually the same dead link that ended the move; finish() runs detached, so it must not reject.
+      logWarn(`[Motor] Failed to stop ${this.motor.name}:`, error?.message || error);
+    } finally {
+      motion.done.resolve(result);
+    }
+  }
+}
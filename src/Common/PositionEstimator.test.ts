@@ -0,0 +1,69 @@
+import { PositionEstimator } from './PositionEstimator';
+
+describe(PositionEstimator.name, () => {
+  it('starts at the flat position', () => {
+    const subject = new PositionEstimator(20_000);
+    expect(subject.getPosition()).toBe(0);
+    expect(subject.isMoving).toBe(false);
+  });
+
+  it('tracks run time in both directions', () => {
+    const subject = new PositionEstimator(20_000);
+    subject.start('up', 0);
+    expect(subject.getPosition(5_000)).toBe(25);
+    subject.stop(10_000);
+    expect(subject.getPosition(60_000)).toBe(50);
+
+    subject.start('down', 60_000);
+    subject.stop(62_000);
+    expect(subject.getPosition()).toBe(40);
+  });
+
+  it('clamps at the end stops', () => {
+    const subject = new PositionEstimator(20_000);
+    subject.start('up', 0);
+    expect(subject.getPosition(30_000)).toBe(100);
+    subject.stop(30_000);
+    subject.start('down', 30_000);
+    expect(subject.getPosition(90_000)).toBe(0);
+  });
+
+  it('computes the travel time to a target', () => {
+    const subject = new PositionEstimator(20_000);
+    subject.reset(50);
+    expect(subject.travelTimeTo(40)).toBe(2_000);
+    expect(subject.travelTimeTo(100)).toBe(10_000);
+    expect(subject.travelTimeTo(150)).toBe(10_000);
+  });
+
+  it('resets to a known position and stops tracking', () => {
+    const subject = new PositionEstimator(20_000);
+    subject.start('up', 0);
+    subject.reset();
+    expect(subject.isMoving).toBe(false);
+    expect(subject.getPosition()).toBe(0);
+  });
+
+  it('loses the position when invalidated', () => {
+    const subject = new PositionEstimator(20_000);
+    subject.reset(50);
+    subject.invalidate();
+    expect(subject.getPosition()).toBeUndefined();
+    expect(subject.travelTimeTo(30)).toBe(20_000);
+  });
+
+  it('finds an unknown position again at an end stop', () => {
+    const subject = new PositionEstimator(20_000);
+    subject.invalidate();
+    subject.start('down', 0);
+    expect(subject.getPosition(19_000)).toBeUndefined();
+    expect(subject.getPosition(20_000)).toBe(0);
+    subject.stop(22_000);
+    expect(subject.getPosition()).toBe(0);
+
+    subject.invalidate();
+    subject.start('up', 0);
+    subject.stop(5_000);
+    expect(subject.getPosition()).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+export type MotorDirection = 'up' | 'down';
+
+const clamp = (position: number) => Math.min(100, Math.max(0, position));
+
+/**
+ * Estimates a motor's position (0-100) from how long it has been running.
+ *
+ * Why:
+ * - Most beds give no position feedback, so their motors could only be exposed as open/close/stop covers.
+ *
+ * How:
+ * - With the motor's full-travel time (flat to fully raised) configured, elapsed run time maps linearly to a
+ *   position. Running into an end stop clamps the estimate, and a flat preset resets it to 0.
+ * - Other presets move the motor somewhere the estimate can't follow: the position becomes unknown until a run
+ *   long enough to reach an end stop from anywhere pins it down again.
+ */
+export class PositionEstimator {
+  private position?: number = 0;
+  private movement?: { direction: MotorDirection; startedAt: number };
+
+  constructor(readonly travelTimeMs: number) {}
+
+  get isMoving() {
+    return !!this.movement;
+  }
+
+  /** The estimated position, `undefined` while it is unknown. */
+  getPosition(now = Date.now()) {
+    if (!this.movement) return this.position;
+    const { direction, startedAt } = this.movement;
+    const travelled = ((now - startedAt) / this.travelTimeMs) * 100;
+    if (this.position === undefined) {
+      if (travelled < 100) return undefined;
+      return direction === 'up' ? 100 : 0;
+    }
+    return clamp(this.position + (direction === 'up' ? travelled : -travelled));
+  }
+
+  /** Time the motor needs to run from the current estimate to `target` (a full run while the position is unknown). */
+  travelTimeTo(target: number) {
+    const position = this.getPosition();
+    if (position === undefined) return this.travelTimeMs;
+    return (Math.abs(clamp(target) - position) / 100) * this.travelTimeMs;
+  }
+
+  start(direction: MotorDirection, now = Date.now()) {
+    this.position = this.getPosition(now);
+    this.movement = { direction, startedAt: now };
+  }
+
+  stop(now = Date.now()) {
+    this.position = this.getPosition(now);
+    this.movement = undefined;
+  }
+
+  reset(position = 0) {
+    this.position = clamp(position);
+    this.movement = undefined;
+  }
+
+  invalidate() {
+    this.position = undefined;
+    this.movement = undefined;
+  }
+}
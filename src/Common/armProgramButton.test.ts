@@ -0,0 +1,96 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { seconds } from '@utils/seconds';
+import { testDevice } from '@utils/testHelpers';
+import { mock } from 'jest-mock-extended';
+import { IDeviceCache } from './IController';
+import { armProgramButton, setProgramArming } from './armProgramButton';
+
+jest.mock('@utils/logger');
+
+const mqtt = mock<IMQTTConnection>();
+const confirmationTopic = 'device_topic/save_confirmation/state';
+
+describe(armProgramButton.name, () => {
+  let controller: IDeviceCache;
+  const program = jest.fn();
+  const confirmation = () => (controller.cache as any).saveConfirmation.sensor.getState();
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = { cache: {}, deviceData: testDevice };
+    setProgramArming(10);
+  });
+
+  afterAll(() => setProgramArming(0));
+
+  it('runs the command on the second press', async () => {
+    const press = armProgramButton(mqtt, controller, 'ProgramMemory1', program);
+
+    await press();
+    expect(program).not.toBeCalled();
+    expect(confirmation()).toBe('Press again to save: Program: Memory 1');
+
+    await press();
+    expect(program).toBeCalledTimes(1);
+    expect(confirmation()).toBe('Idle');
+    jest.advanceTimersByTime(1000);
+    expect(mqtt.publish).toBeCalledWith(confirmationTopic, 'Idle');
+  });
+
+  it('disarms after the arming time', async () => {
+    const press = armProgramButton(mqtt, controller, 'ProgramMemory1', program);
+
+    await press();
+    jest.advanceTimersByTime(seconds(10));
+    expect(confirmation()).toBe('Idle');
+
+    await press();
+    expect(program).not.toBeCalled();
+  });
+
+  it('moves the arming to another program button', async () => {
+    const pressMemory1 = armProgramButton(mqtt, controller, 'ProgramMemory1', program);
+    const pressMemory2 = armProgramButton(mqtt, controller, 'ProgramMemory2', program);
+
+    await pressMemory1();
+    await pressMemory2();
+    await pressMemory1();
+    expect(program).not.toBeCalled();
+    expect(confirmation()).toBe('Press again to save: Program: Memory 1');
+  });
+
+  it('tells the sides of a bed apart', async () => {
+    const pressLeft = armProgramButton(mqtt, controller, 'ProgramZeroG', program, 'Left');
+    const pressRight = armProgramButton(mqtt, controller, 'ProgramZeroG', program, 'Right');
+
+    await pressLeft();
+    expect(confirmation()).toBe('Press again to save: Program: Zero G: Left');
+    await pressRight();
+    expect(program).not.toBeCalled();
+    expect(confirmation()).toBe('Press again to save: Program: Zero G: Right');
+  });
+
+  it('shows the confirmation on a diagnostic sensor', async () => {
+    await armProgramButton(mqtt, controller, 'ProgramMemory1', program)();
+    jest.advanceTimersByTime(1000);
+
+    expect(mqtt.publish).toBeCalledWith(
+      'homeassistant/device/device_topic/config',
+      expect.objectContaining({
+        components: expect.objectContaining({
+          save_confirmation: expect.objectContaining({ entity_category: 'diagnostic' }),
+        }),
+      })
+    );
+  });
+
+  it('leaves other buttons and disabled arming alone', () => {
+    expect(armProgramButton(mqtt, controller, 'PresetMemory1', program)).toBe(program);
+
+    setProgramArming(0);
+    expect(armProgramButton(mqtt, controller, 'ProgramMemory1', program)).toBe(program);
+    expect(controller.cache).toEqual({});
+  });
+});
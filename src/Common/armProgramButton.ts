@@ -0,0 +1,72 @@
+import { Sensor } from '@ha/Sensor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { StringsKey, getString } from '@utils/getString';
+import { logInfo } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+import { IDeviceCache } from './IController';
+import { buildEntityConfig } from './buildEntityConfig';
+
+interface Cache {
+  saveConfirmation?: {
+    sensor: Sensor<string>;
+    armed?: { button: object; timeout: NodeJS.Timeout };
+  };
+}
+
+let armingMs = 0;
+
+/** Set the `programArmingSeconds` option; 0 sends program commands on the first press. */
+export const setProgramArming = (armingSeconds: number) => {
+  armingMs = seconds(armingSeconds);
+};
+
+/**
+ * Wrap the press handler of a button that stores a position (`Program*`) in a two-step press.
+ *
+ * Why:
+ * - Program buttons overwrite a stored position on a single press, and are easy to hit by mistake from
+ *   dashboards or voice assistants.
+ *
+ * How:
+ * - With `programArmingSeconds` set, the first press only arms the button and shows "Press again to save" on the
+ *   bed's `Save Confirmation` sensor. A second press of the same button within that time runs the command.
+ * - Pressing another program button arms that one instead. Routines and the JSON command topic run the command
+ *   directly.
+ * - `sideName` tells the buttons of the two sides of a bed apart (Sleeptracker), which share one sensor.
+ */
+export const armProgramButton = (
+  mqtt: IMQTTConnection,
+  { cache, deviceData }: IDeviceCache,
+  name: StringsKey,
+  onPress: () => Promise<void>,
+  sideName?: string
+) => {
+  if (!armingMs || !name.startsWith('Program')) return onPress;
+
+  const button = {};
+  const label = sideName ? `${getString(name)}: ${sideName}` : getString(name);
+  const confirmation = ((cache as Cache).saveConfirmation ??= {
+    sensor: new Sensor<string>(
+      mqtt,
+      deviceData,
+      buildEntityConfig('SaveConfirmation', { category: 'diagnostic', icon: 'mdi:content-save-alert' })
+    ).setState(getString('Idle')),
+  });
+  const disarm = () => {
+    clearTimeout(confirmation.armed?.timeout);
+    confirmation.armed = undefined;
+    confirmation.sensor.setState(getString('Idle'));
+  };
+
+  return async () => {
+    if (confirmation.armed?.button === button) {
+      disarm();
+      return await onPress();
+    }
+
+    clearTimeout(confirmation.armed?.timeout);
+    confirmation.armed = { button, timeout: setTimeout(disarm, armingMs) };
+    confirmation.sensor.setState(`${getString('PressAgainToSave')}: ${label}`);
+    logInfo(`[Program] '${label}' armed on ${deviceData.device.name}, press again to save`);
+  };
+};
@@ -0,0 +1,18 @@
+import { IDeviceData } from '@ha/IDeviceData';
+import { getType } from '@utils/options';
+import { buildMQTTDeviceData } from './buildMQTTDeviceData';
+
+/**
+ * The "SmartbedMQTT" device in Home Assistant that add-on level entities (ops buttons, process and
+ * discovery diagnostics) are attached to.
+ */
+export const buildAddonDeviceData = (type: string = getType()): IDeviceData =>
+  buildMQTTDeviceData(
+    {
+      friendlyName: 'SmartbedMQTT',
+      name: `addon:${type}`,
+      address: 'smartbedmqtt',
+      ids: ['smartbedmqtt', `smartbedmqtt:${type}`],
+    },
+    'SmartbedMQTT'
+  );
@@ -3,18 +3,22 @@ import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { StringsKey, getString } from '@utils/getString';
 import { logError, logInfo } from '@utils/logger';
 import { IController } from './IController';
+import { armProgramButton } from './armProgramButton';
 import { buildEntityConfig } from './buildEntityConfig';
+import { applyPresetToMotorPositions } from './buildMotorCover';
+import { registerCommand } from './commandRegistry';
 
 export const buildCommandButton = <TCommand>(
   context: string,
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand }: IController<TCommand>,
+  controller: IController<TCommand>,
   name: StringsKey,
   command: TCommand,
   category?: string,
   writeOptions?: { count?: number; waitTime?: number },
   configOverrides?: { description?: string; tag?: string; icon?: string; category?: string }
 ) => {
+  const { cache, deviceData, writeCommand } = controller;
   if (cache[name]) return;
 
   const entityConfig = buildEntityConfig(
@@ -24,12 +28,23 @@ export const buildCommandButton = <TCommand>(
       : { ...(configOverrides || {}) }
   );
 
-  cache[name] = new Button(mqtt, deviceData, entityConfig, async () => {
-    try {
-      await writeCommand(command, writeOptions?.count, writeOptions?.waitTime);
-      logInfo(`[${context}] Successfully executed command '${getString(name)}' on device ${deviceData.device.name}`);
-    } catch (e) {
-      logError(`[${context}] Failed to write '${getString(name)}' on device ${deviceData.device.name}`, e);
-    }
-  }).setOnline();
+  const sendCommand = async () => {
+    await writeCommand(command, writeOptions?.count, writeOptions?.waitTime);
+    applyPresetToMotorPositions(controller, name);
+  };
+  registerCommand(controller, name, sendCommand);
+
+  cache[name] = new Button(
+    mqtt,
+    deviceData,
+    entityConfig,
+    armProgramButton(mqtt, controller, name, async () => {
+      try {
+        await sendCommand();
+        logInfo(`[${context}] Successfully executed command '${getString(name)}' on device ${deviceData.device.name}`);
+      } catch (e) {
+        logError(`[${context}] Failed to write '${getString(name)}' on device ${deviceData.device.name}`, e);
+      }
+    })
+  ).setOnline();
 };
@@ -3,24 +3,39 @@ import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { StringsKey, getString } from '@utils/getString';
 import { logError, logInfo } from '@utils/logger';
 import { IController } from './IController';
+import { armProgramButton } from './armProgramButton';
 import { buildEntityConfig } from './buildEntityConfig';
+import { applyPresetToMotorPositions } from './buildMotorCover';
+import { registerCommand } from './commandRegistry';
 
 export const buildCommandsButton = <TCommand>(
   context: string,
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommands }: IController<TCommand>,
+  controller: IController<TCommand>,
   name: StringsKey,
   commands: TCommand[],
   category?: string
 ) => {
+  const { cache, deviceData, writeCommands } = controller;
   if (cache[name]) return;
 
-  cache[name] = new Button(mqtt, deviceData, buildEntityConfig(name, category), async () => {
-    try {
-      await writeCommands(commands);
-      logInfo(`[${context}] Successfully executed command '${getString(name)}' on device ${deviceData.device.name}`);
-    } catch (e) {
-      logError(`[${context}] Failed to write '${getString(name)}' on device ${deviceData.device.name}`, e);
-    }
-  }).setOnline();
+  const sendCommands = async () => {
+    await writeCommands(commands);
+    applyPresetToMotorPositions(controller, name);
+  };
+  registerCommand(controller, name, sendCommands);
+
+  cache[name] = new Button(
+    mqtt,
+    deviceData,
+    buildEntityConfig(name, category),
+    armProgramButton(mqtt, controller, name, async () => {
+      try {
+        await sendCommands();
+        logInfo(`[${context}] Successfully executed command '${getString(name)}' on device ${deviceData.device.name}`);
+      } catch (e) {
+        logError(`[${context}] Failed to write '${getString(name)}' on device ${deviceData.device.name}`, e);
+      }
+    })
+  ).setOnline();
 };
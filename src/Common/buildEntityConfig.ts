@@ -1,13 +1,16 @@
-import { StringsKey, getString } from '@utils/getString';
+import { StringsKey, getEnglishString, getString } from '@utils/getString';
 
 export const buildEntityConfig = (
   key: StringsKey,
   additionalConfig?: string | { category?: string; icon?: string; description?: string; tag?: string }
 ) => {
   if (typeof additionalConfig === 'string') additionalConfig = { category: additionalConfig };
+  const description = additionalConfig?.description;
   return {
-    description: (additionalConfig as any)?.description ?? getString(key),
-    tag: (additionalConfig as any)?.tag,
     ...(additionalConfig || {}),
+    description: description ?? getString(key),
+    // Tags follow the English name, so the `language` option renames entities instead of replacing them.
+    tag: additionalConfig?.tag ?? (description === undefined ? getEnglishString(key) : undefined),
+    stringsKey: key,
   };
 };
@@ -0,0 +1,86 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { mocked, testDevice } from '@utils/testHelpers';
+import { mock } from 'jest-mock-extended';
+import { applyPresetToMotorPositions, buildMotorCover } from './buildMotorCover';
+
+jest.mock('@ha/base/deviceDiscovery');
+
+const mqtt = mock<IMQTTConnection>();
+let handlers: Record<string, (message: string) => void> = {};
+const setPosition = (position: number) =>
+  Object.entries(handlers).find(([topic]) => topic.endsWith('/set_position'))![1](position.toString());
+const published = (suffix: string) =>
+  mocked(mqtt.publish)
+    .mock.calls.filter(([topic]) => topic.endsWith(suffix))
+    .map(([, message]) => message);
+
+const advance = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+    jest.advanceTimersByTime(100);
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+  }
+};
+
+const coverCommand = jest.fn<Promise<void>, [string]>(() => new Promise((resolve) => setTimeout(resolve, 1_000)));
+
+describe(buildMotorCover.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handlers = {};
+    mocked(mqtt.on).mockImplementation((topic, handler) => {
+      handlers[topic] = handler;
+      return mqtt;
+    });
+  });
+
+  it('starts timing once the first command reached the bed', async () => {
+    let onWritten: (() => void) | undefined;
+    const onWrite = (handler: () => void) => {
+      onWritten = handler;
+      return () => (onWritten = undefined);
+    };
+    buildMotorCover(mqtt, { cache: {}, deviceData: testDevice, onWrite }, 'MotorHead', coverCommand, { head: 20_000 });
+
+    setPosition(50);
+    await advance(12_000);
+    expect(coverCommand).not.toHaveBeenCalledWith('STOP');
+    expect(published('/position').pop()).toBe('0');
+
+    onWritten!();
+    await advance(10_500);
+    expect(coverCommand).toHaveBeenLastCalledWith('STOP');
+    expect(published('/position').pop()).toBe('50');
+    expect(onWritten).toBeUndefined();
+  });
+
+  it('marks the position unknown after a non-flat preset and re-homes before the next move', async () => {
+    const controller = { cache: {}, deviceData: testDevice };
+    buildMotorCover(mqtt, controller, 'MotorHead', coverCommand, { head: 20_000 });
+
+    applyPresetToMotorPositions(controller, 'PresetZeroG');
+    await advance(300);
+    expect(published('/state').pop()).toBe('None');
+    expect(published('/position').pop()).toBe('None');
+
+    setPosition(50);
+    await advance(40_000);
+    const directions = coverCommand.mock.calls.map(([command]) => command).filter((command) => command !== 'STOP');
+    expect(directions[0]).toBe('CLOSE');
+    expect(directions[directions.length - 1]).toBe('OPEN');
+    expect(published('/position').pop()).toBe('50');
+    expect(published('/state').pop()).toBe('open');
+  });
+
+  it('resets the position on a flat preset', async () => {
+    const controller = { cache: {}, deviceData: testDevice };
+    buildMotorCover(mqtt, controller, 'MotorHead', coverCommand, { head: 20_000 });
+    applyPresetToMotorPositions(controller, 'PresetZeroG');
+
+    applyPresetToMotorPositions(controller, 'PresetFlat');
+    await advance(500);
+    expect(published('/position').pop()).toBe('0');
+    expect(published('/state').pop()).toBe('closed');
+  });
+});
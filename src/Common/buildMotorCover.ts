@@ -0,0 +1,161 @@
+import { Cover } from '@ha/Cover';
+import { EstimatedCover } from '@ha/EstimatedCover';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { StringsKey } from '@utils/getString';
+import { logError } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+import { IController, IDeviceCache } from './IController';
+import { PositionEstimator } from './PositionEstimator';
+import { buildEntityConfig } from './buildEntityConfig';
+import { registerMotor } from './commandRegistry';
+
+type CoverCommand = (command: string) => Promise<void>;
+
+interface MotorPosition {
+  reset: (position: number) => void;
+  invalidate: () => void;
+}
+
+interface Cache {
+  motorPositions?: Dictionary<MotorPosition>;
+}
+
+// Moving to a fully raised/flat target keeps running a bit longer, into the end stop, so the estimate re-syncs.
+const END_STOP_MARGIN = 0.1;
+const MIN_MOVE_MS = 300;
+
+const FLAT_PRESETS: StringsKey[] = ['PresetFlat', 'PresetFlatBed', 'PresetAllFlat'];
+
+/**
+ * Update the estimated motor positions on the device after the preset `name` was sent.
+ *
+ * A flat preset is the zero reference for every estimated motor position; any other preset (ZeroG, TV, memory, ...)
+ * moves the motors to positions the estimates can't know, so they become unknown. Other commands are ignored.
+ */
+export const applyPresetToMotorPositions = ({ cache }: IDeviceCache, name: StringsKey) => {
+  if (!name.startsWith('Preset')) return;
+  const { motorPositions = {} } = cache as Cache;
+  for (const motorPosition of Object.values(motorPositions)) {
+    if (FLAT_PRESETS.includes(name)) motorPosition.reset(0);
+    else motorPosition.invalidate();
+  }
+};
+
+/**
+ * Build the cover entity for one motor.
+ *
+ * Without a travel time for the motor (`motorTravelTimes`, keyed by the motor name without its `Motor` prefix,
+ * e.g. `head`) this is the brand's plain open/close/stop cover.
+ *
+ * With one, it becomes a cover with an estimated position backed by a PositionEstimator: `set_position` runs the
+ * brand's `coverCommand` bursts in the required direction for the estimated time, then stops. Timing starts once
+ * the first command reached the bed (`onWrite`), so connect latency doesn't count as travel. From an unknown
+ * position the motor first runs into the flat end stop.
+ */
+export const buildMotorCover = (
+  mqtt: IMQTTConnection,
+  { cache, deviceData, onWrite }: IDeviceCache & Pick<IController<unknown>, 'onWrite'>,
+  name: StringsKey,
+  coverCommand: CoverCommand,
+  motorTravelTimes: Dictionary<number> = {},
+  additionalConfig?: { icon?: string; category?: string }
+) => {
+  const entityConfig = buildEntityConfig(name, additionalConfig);
+  const motor = name.replace(/^Motor/, '').toLowerCase();
+  registerMotor({ cache, deviceData }, motor, coverCommand);
+  const travelTimeMs = motorTravelTimes[motor];
+  if (!travelTimeMs) return new Cover(mqtt, deviceData, entityConfig, coverCommand).setOnline();
+
+  const estimator = new PositionEstimator(travelTimeMs);
+  let motion: { stopTimer?: NodeJS.Timeout; publishTimer: NodeJS.Timeout } | undefined;
+  let requests = 0;
+
+  const publish = () => {
+    const position = estimator.getPosition();
+    if (position === undefined) cover.setPositionUnknown();
+    else cover.setPosition(Math.round(position));
+  };
+  const endMotion = () => {
+    if (!motion) return false;
+    clearTimeout(motion.stopTimer);
+    clearInterval(motion.publishTimer);
+    motion = undefined;
+    estimator.stop();
+    publish();
+    return true;
+  };
+  const stop = async () => {
+    endMotion();
+    await coverCommand('STOP');
+  };
+
+  const run = async (target: number) => {
+    const position = estimator.getPosition();
+    const direction = position === undefined ? (target >= 100 ? 'up' : 'down') : target > position ? 'up' : 'down';
+    let runTime = estimator.travelTimeTo(target);
+    if (target <= 0 || target >= 100) runTime += travelTimeMs * END_STOP_MARGIN;
+    if (runTime < MIN_MOVE_MS) {
+      publish();
+      return;
+    }
+
+    const current: NonNullable<typeof motion> = (motion = { publishTimer: setInterval(publish, seconds(1)) });
+    const begin = () => {
+      if (motion !== current || current.stopTimer) return;
+      estimator.start(direction);
+      current.stopTimer = setTimeout(() => void stop().catch(logCoverError), runTime);
+    };
+    const stopWatchingWrites = onWrite?.(begin);
+    if (!stopWatchingWrites) begin();
+    try {
+      // Each cover command is one burst (a few seconds): repeat it until the stop timer ends the motion.
+      while (motion === current) await coverCommand(direction === 'up' ? 'OPEN' : 'CLOSE');
+    } catch (error) {
+      if (motion === current) endMotion();
+      throw error;
+    } finally {
+      stopWatchingWrites?.();
+    }
+  };
+
+  const moveTo = async (target: number) => {
+    if (isNaN(target)) return;
+    const request = ++requests;
+    if (motion) await stop();
+
+    if (estimator.getPosition() === undefined && target > 0 && target < 100) {
+      // Nothing to measure the move from: run into the flat end stop first, unless that got stopped or superseded.
+      await run(0);
+      if (request !== requests || estimator.getPosition() === undefined) return;
+    }
+    await run(target);
+  };
+
+  const logCoverError = (error: any) =>
+    logError(`[Cover] Failed to move '${name}' on device ${deviceData.device.name}`, error);
+
+  const cover = new EstimatedCover(
+    mqtt,
+    deviceData,
+    entityConfig,
+    (position) => void moveTo(position).catch(logCoverError),
+    { onStop: () => void stop().catch(logCoverError) }
+  );
+  cover.setPosition(0);
+
+  const motorPositions = ((cache as Cache).motorPositions ??= {});
+  motorPositions[name] = {
+    reset: (position) => {
+      endMotion();
+      estimator.reset(position);
+      publish();
+    },
+    invalidate: () => {
+      endMotion();
+      estimator.invalidate();
+      publish();
+    },
+  };
+  return cover;
+};
@@ -4,23 +4,32 @@ import { StringsKey, getString } from '@utils/getString';
 import { logError } from '@utils/logger';
 import { buildEntityConfig } from './buildEntityConfig';
 import { IController } from './IController';
+import { applyPresetToMotorPositions } from './buildMotorCover';
+import { registerCommand } from './commandRegistry';
 
 export const buildRepeatingCommandSwitch = <TCommand>(
   context: string,
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<TCommand>,
+  controller: IController<TCommand>,
   name: StringsKey,
   command: TCommand,
   category?: string,
   count?: number,
   waitTime?: number
 ) => {
+  const { cache, deviceData, writeCommand, cancelCommands } = controller;
   if (cache[name]) return;
 
+  const sendCommand = async () => {
+    await writeCommand(command, count, waitTime);
+    applyPresetToMotorPositions(controller, name);
+  };
+  registerCommand(controller, name, sendCommand);
+
   const entity = (cache[name] = new Switch(mqtt, deviceData, buildEntityConfig(name, category), async (state) => {
     if (!state) return cancelCommands();
     try {
-      await writeCommand(command, count, waitTime);
+      await sendCommand();
       entity.setState(false);
     } catch (e) {
       logError(`[${context}] Failed to write '${getString(name)}'`, e);
@@ -0,0 +1,36 @@
+import { Dictionary } from '@utils/Dictionary';
+import { StringsKey } from '@utils/getString';
+import { IDeviceCache } from './IController';
+
+/** Send one command through the device's controller; rejects when the write fails. */
+export type RegisteredCommand = () => Promise<void>;
+/** A motor's cover command: `OPEN`, `CLOSE` or `STOP`. */
+export type MotorCommand = (command: string) => Promise<void>;
+
+interface Cache {
+  commands?: Dictionary<RegisteredCommand>;
+  motors?: Dictionary<MotorCommand>;
+}
+
+/**
+ * Commands built by the shared entity builders, by `StringsKey` name (e.g. `PresetZeroG`), so features that are
+ * not entities (routines, the JSON command topic) can send them the same way the buttons do.
+ */
+export const registerCommand = ({ cache }: IDeviceCache, name: StringsKey, command: RegisteredCommand) => {
+  ((cache as Cache).commands ??= {})[name] = command;
+};
+
+export const getRegisteredCommands = ({ cache }: IDeviceCache): Dictionary<RegisteredCommand> =>
+  (cache as Cache).commands ?? {};
+
+/** Case-insensitive lookup, so config and JSON can write `presetflat` or `PresetFlat`. */
+export const findRegisteredCommand = (device: IDeviceCache, name: string) =>
+  Object.entries(getRegisteredCommands(device)).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+
+/** Motor cover commands by lower case motor name (e.g. `head`); returns the command for inline use. */
+export const registerMotor = ({ cache }: IDeviceCache, motor: string, coverCommand: MotorCommand) => {
+  ((cache as Cache).motors ??= {})[motor.toLowerCase()] = coverCommand;
+  return coverCommand;
+};
+
+export const getRegisteredMotors = ({ cache }: IDeviceCache): Dictionary<MotorCommand> => (cache as Cache).motors ?? {};
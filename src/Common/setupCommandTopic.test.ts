@@ -0,0 +1,104 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { mocked, testDevice } from '@utils/testHelpers';
+import { mock } from 'jest-mock-extended';
+import { IController } from './IController';
+import { registerCommand, registerMotor } from './commandRegistry';
+import { setupCommandTopic } from './setupCommandTopic';
+
+jest.mock('@utils/logger');
+
+const mqtt = mock<IMQTTConnection>();
+let onCommand: (message: string) => Promise<void>;
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe(setupCommandTopic.name, () => {
+  let controller: IController<number>;
+  const presetZeroG = jest.fn();
+  const headMotor = jest.fn();
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.clearAllTimers();
+    mocked(mqtt.on).mockImplementation((topic, handler) => {
+      if (topic === 'device_topic/command') onCommand = handler;
+    });
+    controller = {
+      cache: {},
+      deviceData: testDevice,
+      writeCommand: jest.fn(),
+      writeCommands: jest.fn(),
+      cancelCommands: jest.fn(),
+    };
+    presetZeroG.mockResolvedValue(undefined);
+    headMotor.mockImplementation(async (command: string) => {
+      if (command !== 'STOP') await new Promise<void>((resolve) => setTimeout(resolve, 1_000));
+    });
+    registerCommand(controller, 'PresetZeroG', presetZeroG);
+    registerMotor(controller, 'head', headMotor);
+    setupCommandTopic(mqtt, controller);
+  });
+
+  it('subscribes to the device command topic once', () => {
+    setupCommandTopic(mqtt, controller);
+    expect(mqtt.subscribe).toHaveBeenCalledTimes(1);
+    expect(mqtt.subscribe).toHaveBeenCalledWith('device_topic/command');
+  });
+
+  it('runs registered actions', async () => {
+    await onCommand('{"action":"presetzerog","id":7}');
+    expect(presetZeroG).toHaveBeenCalled();
+    expect(mqtt.publish).toHaveBeenCalledWith('device_topic/command/result', {
+      id: 7,
+      status: 'ok',
+      request: { action: 'presetzerog', id: 7 },
+    });
+  });
+
+  it('publishes write errors', async () => {
+    presetZeroG.mockRejectedValue(new Error('write failed'));
+    await onCommand('{"action":"PresetZeroG"}');
+    expect(mqtt.publish).toHaveBeenCalledWith(
+      'device_topic/command/result',
+      expect.objectContaining({ status: 'error', error: 'write failed' })
+    );
+  });
+
+  it.each([
+    ['not json', 'Unexpected token'],
+    ['{"action":"PresetTV"}', "Unknown action 'PresetTV' (available: PresetZeroG)"],
+    ['{"motor":"feet","direction":"up"}', "Unknown motor 'feet' (available: head)"],
+    ['{"motor":"head","direction":"sideways"}', "Invalid direction 'sideways'"],
+    ['{}', 'Expected one of action, motor or stop'],
+  ])('rejects %s', async (message, error) => {
+    await onCommand(message);
+    expect(mqtt.publish).toHaveBeenCalledWith(
+      'device_topic/command/result',
+      expect.objectContaining({ status: 'error', error: expect.stringContaining(error) })
+    );
+  });
+
+  it('runs a motor for the requested duration, then stops it', async () => {
+    const result = onCommand('{"motor":"head","direction":"up","durationMs":3000}');
+    for (let i = 0; i < 4; i++) {
+      jest.advanceTimersByTime(1_000);
+      await flush();
+    }
+    await result;
+    expect(headMotor.mock.calls.filter(([command]) => command === 'OPEN').length).toBeGreaterThanOrEqual(3);
+    expect(headMotor).toHaveBeenCalledWith('STOP');
+    expect(mqtt.publish).toHaveBeenCalledWith('device_topic/command/result', expect.objectContaining({ status: 'ok' }));
+  });
+
+  it('stops a running motor and cancels queued commands', async () => {
+    void onCommand('{"motor":"head","direction":"down","durationMs":30000}');
+    await flush();
+    await onCommand('{"stop":true}');
+    expect(headMotor).toHaveBeenCalledWith('CLOSE');
+    expect(headMotor).toHaveBeenCalledWith('STOP');
+    expect(controller.cancelCommands).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { logError, logInfo } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+import { IController } from './IController';
+import { MotorCommand, findRegisteredCommand, getRegisteredCommands, getRegisteredMotors } from './commandRegistry';
+
+type CommandRequest = {
+  /** Echoed in the result, to match results to requests. */
+  id?: string | number;
+  action?: string;
+  motor?: string;
+  direction?: 'up' | 'down';
+  durationMs?: number;
+  stop?: boolean;
+};
+
+interface Cache {
+  commandTopic?: string;
+}
+
+const MAX_MOTOR_RUN_MS = seconds(60);
+
+/**
+ * `<deviceTopic>/command`: one JSON topic per bed for clients that don't use the HA entities (Node-RED, scripts).
+ *
+ * Accepted messages:
+ * - `{"action":"PresetZeroG"}`: any command registered by the shared builders, by `StringsKey` name.
+ * - `{"motor":"head","direction":"up","durationMs":3000}`: run a motor; without `durationMs`, for one burst.
+ * - `{"stop":true}`: end a motor run and cancel queued commands.
+ *
+ * Every message gets a result on `<deviceTopic>/command/result`: `{"status":"ok"}` or `{"status":"error","error":…}`,
+ * with the request's `id` when it has one. Write failures (e.g. from `BLEController.writeCommands`) end up there.
+ */
+export const setupCommandTopic = (mqtt: IMQTTConnection, controller: IController<any>) => {
+  const { cache, deviceData, cancelCommands } = controller;
+  if ((cache as Cache).commandTopic) return;
+  const topic = ((cache as Cache).commandTopic = `${deviceData.deviceTopic}/command`);
+  const resultTopic = `${topic}/result`;
+  const bedName = deviceData.device.name;
+
+  let motorRun: { coverCommand: MotorCommand; stopped: boolean } | undefined;
+  const stopMotorRun = async () => {
+    const current = motorRun;
+    if (!current) return;
+    motorRun = undefined;
+    current.stopped = true;
+    await current.coverCommand('STOP');
+  };
+
+  const runMotor = async ({ motor = '', direction, durationMs }: CommandRequest) => {
+    const motors = getRegisteredMotors(controller);
+    const coverCommand = motors[motor.toLowerCase()];
+    if (!coverCommand) throw new Error(`Unknown motor '${motor}' (available: ${Object.keys(motors).join(', ')})`);
+    if (direction !== 'up' && direction !== 'down') throw new Error(`Invalid direction '${direction}', use up or down`);
+    const command = direction === 'up' ? 'OPEN' : 'CLOSE';
+    if (durationMs === undefined) return await coverCommand(command);
+    if (!(durationMs > 0)) throw new Error(`Invalid durationMs '${durationMs}'`);
+
+    await stopMotorRun();
+    const current = (motorRun = { coverCommand, stopped: false });
+    const timer = setTimeout(() => void stopMotorRun().catch(logError), Math.min(durationMs, MAX_MOTOR_RUN_MS));
+    try {
+      // Each cover command is one burst: repeat it until the duration is up.
+      while (!current.stopped) await coverCommand(command);
+    } finally {
+      clearTimeout(timer);
+      if (motorRun === current) motorRun = undefined;
+    }
+  };
+
+  const handle = async (request: CommandRequest) => {
+    if (request.stop) {
+      await stopMotorRun();
+      return await cancelCommands();
+    }
+    if (request.motor) return await runMotor(request);
+    if (request.action) {
+      const command = findRegisteredCommand(controller, request.action);
+      if (!command) {
+        const available = Object.keys(getRegisteredCommands(controller)).join(', ');
+        throw new Error(`Unknown action '${request.action}' (available: ${available})`);
+      }
+      return await command();
+    }
+    throw new Error('Expected one of action, motor or stop');
+  };
+
+  mqtt.subscribe(topic);
+  mqtt.on(topic, async (message) => {
+    let request: CommandRequest = {};
+    try {
+      request = JSON.parse(message);
+      if (!request || typeof request !== 'object') throw new Error('Expected a JSON object');
+      await handle(request);
+      logInfo(`[Command] Executed ${message} on device ${bedName}`);
+      mqtt.publish(resultTopic, { id: request.id, status: 'ok', request });
+    } catch (error: any) {
+      logError(`[Command] Failed to execute ${message} on device ${bedName}`, error);
+      mqtt.publish(resultTopic, { id: request?.id, status: 'error', error: error?.message || String(error), request });
+    }
+  });
+};
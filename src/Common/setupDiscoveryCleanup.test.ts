@@ -0,0 +1,50 @@
+import { getDeviceManifests } from '@ha/base/discoveryManifest';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { minutes } from '@utils/minutes';
+import { mocked } from '@utils/testHelpers';
+import { mock } from 'jest-mock-extended';
+import { scheduleStaleDeviceCleanup } from './setupDiscoveryCleanup';
+
+jest.mock('fs', () => ({
+  readFileSync: jest.fn(() =>
+    JSON.stringify({
+      mqtt_host: 'localhost',
+      mqtt_port: '1883',
+      mqtt_user: '',
+      mqtt_password: '',
+      keesonDevices: [{ name: 'aabbccddeeff', friendlyName: 'Bedroom' }],
+      sleeptrackerCredentials: [{ email: 'user@example.com', password: 'secret' }],
+    })
+  ),
+  writeFileSync: jest.fn(),
+}));
+jest.mock('@utils/logger');
+jest.mock('@ha/base/discoveryManifest');
+
+const manifest = (name: string, deviceTopic: string) => ({
+  [deviceTopic]: { topic: `homeassistant/device/${deviceTopic.replace('/', '_')}/config`, name, components: {} },
+});
+
+describe(scheduleStaleDeviceCleanup.name, () => {
+  const mqtt = mock<IMQTTConnection>();
+
+  beforeAll(() => jest.useFakeTimers());
+
+  it('removes only the devices removed from the config', () => {
+    mocked(getDeviceManifests).mockReturnValue({
+      ...manifest('Bedroom', 'keeson/aabbccddeeff'),
+      ...manifest('Guest Room', 'keeson/112233445566'),
+      ...manifest('Office', 'linak/665544332211'),
+      ...manifest('Tempur Bed', 'sleeptracker/1234'),
+      ...manifest('SmartbedMQTT', 'smartbedmqtt/smartbedmqtt'),
+    });
+
+    scheduleStaleDeviceCleanup(mqtt);
+    jest.advanceTimersByTime(minutes(5));
+
+    expect(mqtt.publish.mock.calls.map(([topic]) => topic)).toEqual([
+      'homeassistant/device/keeson_112233445566/config',
+      'homeassistant/device/linak_665544332211/config',
+    ]);
+  });
+});
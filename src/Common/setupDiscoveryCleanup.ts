@@ -0,0 +1,39 @@
+import { Button } from '@ha/Button';
+import { purgeStaleDevices, purgeStaleDiscovery } from '@ha/base/deviceDiscovery';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { logInfo } from '@utils/logger';
+import { minutes } from '@utils/minutes';
+import { isConfiguredDevice } from '@utils/options';
+import { IDeviceCache } from './IController';
+
+interface Cache {
+  purgeButton?: Button;
+}
+
+// Long enough for the startup scan and the first setup attempts of every bed.
+const STALE_DEVICE_DELAY_MS = minutes(5);
+
+/** A `Purge device` diagnostic button that removes the device's entities this version no longer builds. */
+export const setupPurgeDeviceButton = (mqtt: IMQTTConnection, { cache, deviceData }: IDeviceCache) => {
+  if ((cache as Cache).purgeButton) return;
+  (cache as Cache).purgeButton = new Button(
+    mqtt,
+    deviceData,
+    { description: 'Purge device', category: 'diagnostic', icon: 'mdi:broom' },
+    async () => {
+      const removed = purgeStaleDiscovery(mqtt, deviceData);
+      logInfo(`[HA] Purged ${deviceData.device.name}: ${removed.length ? removed.join(', ') : 'nothing stale'}`);
+    }
+  );
+};
+
+/**
+ * Remove devices that earlier runs discovered and that were removed from the config (their brand, or the bed from
+ * its brand's device list), once startup had time to set up every bed. Configured beds that didn't show up
+ * (powered off, out of range) keep their device.
+ */
+export const scheduleStaleDeviceCleanup = (mqtt: IMQTTConnection) =>
+  setTimeout(() => {
+    // Device topics start with the brand (see buildMQTTDeviceData).
+    purgeStaleDevices(mqtt, ({ name }, deviceTopic) => isConfiguredDevice(deviceTopic.split('/')[0], name));
+  }, STALE_DEVICE_DELAY_MS);
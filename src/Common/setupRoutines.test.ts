@@ -0,0 +1,91 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { mocked, testDevice } from '@utils/testHelpers';
+import { mock } from 'jest-mock-extended';
+import { IController } from './IController';
+import { registerCommand } from './commandRegistry';
+import { RoutineOptions, setupRoutines } from './setupRoutines';
+
+jest.mock('@utils/logger');
+
+const mqtt = mock<IMQTTConnection>();
+let handlers: Record<string, (message: string) => Promise<void>> = {};
+const send = (topic: string, message: string) => handlers[`device_topic/${topic}/command`](message);
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe(setupRoutines.name, () => {
+  let controller: IController<number>;
+  const presetFlat = jest.fn();
+  const massageStep = jest.fn();
+  const isRunning = () => (controller.cache as any).routines['Wind down'].running.getState();
+
+  const buildSubject = (routine: Partial<RoutineOptions> = {}) =>
+    setupRoutines(mqtt, controller, [{ name: 'Wind down', device: 'test name', steps: [], ...routine }]);
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.clearAllTimers();
+    handlers = {};
+    mocked(mqtt.on).mockImplementation((topic, handler) => (handlers[topic] = handler));
+    controller = {
+      cache: {},
+      deviceData: testDevice,
+      writeCommand: jest.fn(),
+      writeCommands: jest.fn(),
+      cancelCommands: jest.fn(),
+    };
+    presetFlat.mockResolvedValue(undefined);
+    massageStep.mockResolvedValue(undefined);
+    registerCommand(controller, 'PresetFlat', presetFlat);
+    registerCommand(controller, 'MassageStep', massageStep);
+  });
+
+  it('only sets up routines for this device', () => {
+    buildSubject({ device: 'Other bed', steps: ['PresetFlat'] });
+    expect(handlers['device_topic/routine_wind_down/command']).toBeUndefined();
+  });
+
+  it('skips routines referencing unknown commands', () => {
+    buildSubject({ steps: ['PresetFlat', 'PresetZeroG'] });
+    expect(handlers['device_topic/routine_wind_down/command']).toBeUndefined();
+  });
+
+  it('runs the steps in order, with repeats and waits', async () => {
+    buildSubject({ steps: ['MassageStep x2', 'wait 20m', 'presetflat'] });
+    await send('routine_wind_down', 'PRESS');
+    await flush();
+    expect(massageStep).toHaveBeenCalledTimes(2);
+    expect(presetFlat).not.toHaveBeenCalled();
+    expect(isRunning()).toBe(true);
+
+    jest.advanceTimersByTime(20 * 60_000);
+    await flush();
+    expect(presetFlat).toHaveBeenCalledTimes(1);
+    expect(isRunning()).toBe(false);
+  });
+
+  it('cancels a running routine from its switch', async () => {
+    buildSubject({ steps: ['MassageStep', 'wait 20m', 'PresetFlat'] });
+    await send('routine_wind_down', 'PRESS');
+    await flush();
+    await send('routine_wind_down_running', 'OFF');
+    await flush();
+    expect(controller.cancelCommands).toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20 * 60_000);
+    await flush();
+    expect(presetFlat).not.toHaveBeenCalled();
+    expect(isRunning()).toBe(false);
+  });
+
+  it('stops when a step fails', async () => {
+    massageStep.mockRejectedValue(new Error('write failed'));
+    buildSubject({ steps: ['MassageStep', 'PresetFlat'] });
+    await send('routine_wind_down', 'PRESS');
+    await flush();
+    expect(presetFlat).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { Button } from '@ha/Button';
+import { Switch } from '@ha/Switch';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Deferred } from '@utils/deferred';
+import { Dictionary } from '@utils/Dictionary';
+import { getString } from '@utils/getString';
+import { logError, logInfo, logWarn } from '@utils/logger';
+import { RoutineStep, parseRoutineSteps } from '@utils/parseRoutineSteps';
+import { IController } from './IController';
+import { findRegisteredCommand, getRegisteredCommands } from './commandRegistry';
+
+export interface RoutineOptions {
+  name: string;
+  /** Bed the routine runs on: its `friendlyName` or `name`. */
+  device: string;
+  steps: string[];
+}
+
+interface Cache {
+  routines?: Dictionary<{ button: Button; running: Switch }>;
+}
+
+const matchesDevice = ({ deviceData: { device } }: IController<any>, name: string) =>
+  [device.name, device.mdl].some((value) => value?.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Routines: multi-step sequences of the device's own commands (`routines` option), published as a button each,
+ * with a switch that shows the routine is running and cancels it when turned off.
+ *
+ * Why:
+ * - Sequences like "massage on, wait 20 min, go flat, lights off" otherwise need an HA script per bed, using
+ *   entity ids that change when entities are renamed.
+ *
+ * How:
+ * - Steps name the commands registered by the shared builders (`StringsKey` names, e.g. `PresetZeroG`), so
+ *   they go through the controller's write queue exactly like a button press.
+ * - Cancelling stops between steps, ends a running wait and cancels the queued writes (`cancelCommands`).
+ */
+export const setupRoutines = (mqtt: IMQTTConnection, controller: IController<any>, routines: RoutineOptions[]) => {
+  const { cache, deviceData, cancelCommands } = controller;
+  const routinesCache = ((cache as Cache).routines ??= {});
+  const bedName = deviceData.device.name;
+
+  for (const routine of routines) {
+    if (!matchesDevice(controller, routine.device) || routinesCache[routine.name]) continue;
+
+    const steps = parseRoutineSteps(routine.name, routine.steps);
+    if (!steps) continue;
+    const findCommand = (name: string) => findRegisteredCommand(controller, name);
+    const unknown = steps.filter((step) => 'command' in step && !findCommand(step.command));
+    if (unknown.length) {
+      logWarn(
+        `[Routines] Skipping routine '${routine.name}' on ${bedName}, unknown commands:`,
+        unknown.map((step) => 'command' in step && step.command).join(', '),
+        `(available: ${Object.keys(getRegisteredCommands(controller)).join(', ')})`
+      );
+      continue;
+    }
+
+    let run: { canceled: boolean; waiting?: Deferred<void> } | undefined;
+    const runSteps = async (current: NonNullable<typeof run>, steps: RoutineStep[]) => {
+      for (const step of steps) {
+        if ('waitMs' in step) {
+          const waiting = (current.waiting = new Deferred<void>());
+          const timeout = setTimeout(() => waiting.resolve(), step.waitMs);
+          await waiting;
+          clearTimeout(timeout);
+          current.waiting = undefined;
+        } else {
+          const command = findCommand(step.command)!;
+          for (let i = 0; i < step.count && !current.canceled; i++) await command();
+        }
+        if (current.canceled) return;
+      }
+    };
+
+    const start = async () => {
+      if (run) return logInfo(`[Routines] Routine '${routine.name}' is already running on ${bedName}`);
+      const current = (run = { canceled: false });
+      running.setState(true);
+      logInfo(`[Routines] Starting routine '${routine.name}' on ${bedName}`);
+      try {
+        await runSteps(current, steps);
+        logInfo(`[Routines] Routine '${routine.name}' ${current.canceled ? 'canceled' : 'finished'} on ${bedName}`);
+      } catch (error) {
+        logError(`[Routines] Routine '${routine.name}' failed on ${bedName}`, error);
+      } finally {
+        run = undefined;
+        running.setState(false);
+      }
+    };
+
+    const cancel = async () => {
+      if (!run) return;
+      run.canceled = true;
+      run.waiting?.resolve();
+      await cancelCommands();
+    };
+
+    const button = new Button(
+      mqtt,
+      deviceData,
+      { description: `${getString('Routine')}: ${routine.name}`, tag: `routine ${routine.name}` },
+      async () => void start()
+    ).setOnline();
+    const running = new Switch(
+      mqtt,
+      deviceData,
+      {
+        description: `${getString('RoutineRunning')}: ${routine.name}`,
+        tag: `routine ${routine.name} running`,
+        icon: 'mdi:playlist-play',
+      },
+      async (state) => {
+        if (state) {
+          void start();
+          return true;
+        }
+        await cancel();
+        return false;
+      }
+    ).setOnline();
+    running.setState(false);
+    routinesCache[routine.name] = { button, running };
+  }
+};
@@ -0,0 +1,103 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { mocked, testDevice } from '@utils/testHelpers';
+import { writeFileSync } from 'fs';
+import { mock } from 'jest-mock-extended';
+import { PresetMotor, parseVirtualPresetNames, setupVirtualPresets } from './setupVirtualPresets';
+
+jest.mock('fs', () => ({
+  readFileSync: jest.fn(() => {
+    throw new Error('ENOENT');
+  }),
+  writeFileSync: jest.fn(),
+}));
+
+const mqtt = mock<IMQTTConnection>();
+let handlers: Record<string, (message: string) => Promise<void>> = {};
+const commandTopics = () => Object.keys(handlers).filter((topic) => topic.endsWith('/command'));
+const press = (topic: string) => handlers[`device_topic/${topic}/command`]('PRESS');
+
+const buildMotor = (currentPosition?: number) => ({ currentPosition, moveTo: jest.fn() } as PresetMotor);
+
+describe(setupVirtualPresets.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handlers = {};
+    mocked(mqtt.on).mockImplementation((topic, handler) => (handlers[topic] = handler));
+  });
+
+  it('parses preset names', () => {
+    expect(parseVirtualPresetNames(' Reading, TV,,Reading ')).toEqual(['Reading', 'TV']);
+    expect(parseVirtualPresetNames(undefined)).toEqual([]);
+  });
+
+  it('creates a go to and a save button per preset', () => {
+    setupVirtualPresets(
+      mqtt,
+      { cache: {}, deviceData: testDevice },
+      { key: 'bed1', names: 'Reading, TV', motors: { head: buildMotor(1) } }
+    );
+    expect(commandTopics()).toEqual([
+      'device_topic/virtual_preset_reading/command',
+      'device_topic/virtual_preset_reading_save/command',
+      'device_topic/virtual_preset_tv/command',
+      'device_topic/virtual_preset_tv_save/command',
+    ]);
+  });
+
+  it('only creates the buttons once per device', () => {
+    const cache = {};
+    const options = { key: 'bed2', names: 'Reading', motors: { head: buildMotor(1) } };
+    setupVirtualPresets(mqtt, { cache, deviceData: testDevice }, options);
+    handlers = {};
+    setupVirtualPresets(mqtt, { cache, deviceData: testDevice }, options);
+    expect(commandTopics()).toEqual([]);
+  });
+
+  it('saves the current positions and drives the motors back to them', async () => {
+    const head = buildMotor(300);
+    const feet = buildMotor(120);
+    const legs = buildMotor();
+    setupVirtualPresets(
+      mqtt,
+      { cache: {}, deviceData: testDevice },
+      { key: 'bed3', names: 'Reading', motors: { head, feet, legs } }
+    );
+
+    await press('virtual_preset_reading_save');
+    expect(writeFileSync).toHaveBeenCalledWith(
+      '/data/smartbedmqtt-virtual-presets.json',
+      expect.stringContaining('"bed3"'),
+      'utf8'
+    );
+
+    await press('virtual_preset_reading');
+    expect(head.moveTo).toHaveBeenCalledWith(300);
+    expect(feet.moveTo).toHaveBeenCalledWith(120);
+    expect(legs.moveTo).not.toHaveBeenCalled();
+  });
+
+  it("doesn't move motors for a preset that was never saved", async () => {
+    const head = buildMotor(300);
+    setupVirtualPresets(mqtt, { cache: {}, deviceData: testDevice }, { key: 'bed4', names: 'TV', motors: { head } });
+    await press('virtual_preset_tv');
+    expect(head.moveTo).not.toHaveBeenCalled();
+  });
+
+  it('refreshes positions before saving', async () => {
+    const head = { currentPosition: undefined as number | undefined, moveTo: jest.fn() };
+    const refresh = jest.fn(async () => {
+      head.currentPosition = 42;
+    });
+    setupVirtualPresets(
+      mqtt,
+      { cache: {}, deviceData: testDevice },
+      { key: 'bed5', names: 'TV', motors: { head }, refresh, sideName: 'Left' }
+    );
+    await press('virtual_preset_tv_save_left');
+    await press('virtual_preset_tv_left');
+    expect(refresh).toHaveBeenCalledTimes(2);
+    expect(head.moveTo).toHaveBeenCalledWith(42);
+  });
+});
@@ -0,0 +1,140 @@
+import { Button } from '@ha/Button';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { getString } from '@utils/getString';
+import { logDebug, logInfo, logWarn } from '@utils/logger';
+import { readFileSync, writeFileSync } from 'fs';
+import { IDeviceCache } from './IController';
+
+const VIRTUAL_PRESETS_PATH = '/data/smartbedmqtt-virtual-presets.json';
+
+/** Device key -> preset name -> motor -> position, in the brand's own position units. */
+type VirtualPresetsFile = Dictionary<Dictionary<Dictionary<number>>>;
+let virtualPresetsLoaded = false;
+let virtualPresets: VirtualPresetsFile = {};
+
+const ensureVirtualPresetsLoaded = () => {
+  if (virtualPresetsLoaded) return;
+  virtualPresetsLoaded = true;
+  try {
+    const json = JSON.parse(readFileSync(VIRTUAL_PRESETS_PATH, 'utf8'));
+    if (json && typeof json === 'object') virtualPresets = json;
+    logDebug(`[VirtualPresets] Loaded virtual presets from ${VIRTUAL_PRESETS_PATH}`);
+  } catch {
+    // ok
+  }
+};
+
+const persistVirtualPresets = () => {
+  try {
+    writeFileSync(VIRTUAL_PRESETS_PATH, JSON.stringify(virtualPresets, null, 2), 'utf8');
+  } catch {
+    // ok
+  }
+};
+
+/** A motor whose position the bed reports, e.g. a MotorPositioner. */
+export interface PresetMotor {
+  readonly currentPosition?: number;
+  moveTo: (position: number) => Promise<unknown>;
+}
+
+interface Cache {
+  virtualPresets?: Dictionary<Button[]>;
+}
+
+interface VirtualPresetOptions {
+  /** Stable key for the stored positions (one bed, or one side of a bed). */
+  key: string;
+  /** Comma separated preset names, from the device options. */
+  names?: string;
+  motors: Dictionary<PresetMotor>;
+  /** Fetch fresh positions before saving or recalling, for beds whose positions are polled. */
+  refresh?: () => Promise<void>;
+  sideName?: string;
+}
+
+export const parseVirtualPresetNames = (names?: string) => [
+  ...new Set(
+    (names ?? '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length)
+  ),
+];
+
+/**
+ * "Save" and "go to" buttons for user-named presets, stored in `/data` instead of the controller.
+ *
+ * Why:
+ * - Many controllers have one or two memory slots (or none), while beds that report motor positions can return
+ *   to any stored position.
+ *
+ * How:
+ * - Save stores the current position of every motor, keyed by `key` and preset name.
+ * - Go to drives the motors to the stored positions one after another, so only one motor runs at a time.
+ */
+export const setupVirtualPresets = (
+  mqtt: IMQTTConnection,
+  { cache, deviceData }: IDeviceCache,
+  { key, names, motors, refresh, sideName }: VirtualPresetOptions
+) => {
+  const presetNames = parseVirtualPresetNames(names);
+  if (!presetNames.length || !Object.keys(motors).length) return;
+
+  ensureVirtualPresetsLoaded();
+  const virtualPresetsCache = ((cache as Cache).virtualPresets ??= {});
+  const bedName = deviceData.device.name;
+  const withSide = (text: string) => (sideName ? `${text}: ${sideName}` : text);
+
+  const save = async (name: string) => {
+    if (refresh) await refresh();
+    const positions: Dictionary<number> = {};
+    for (const [motor, { currentPosition }] of Object.entries(motors)) {
+      if (currentPosition !== undefined) positions[motor] = currentPosition;
+    }
+    if (!Object.keys(positions).length) {
+      return logWarn(`[VirtualPresets] No motor positions reported yet for ${bedName}, can't save '${name}'`);
+    }
+    (virtualPresets[key] ??= {})[name] = positions;
+    persistVirtualPresets();
+    logInfo(`[VirtualPresets] Saved '${name}' for ${bedName}:`, JSON.stringify(positions));
+  };
+
+  const goTo = async (name: string) => {
+    const positions = virtualPresets[key]?.[name];
+    if (!positions) return logWarn(`[VirtualPresets] '${name}' has not been saved yet for ${bedName}`);
+    if (refresh) await refresh();
+    for (const [motor, position] of Object.entries(positions)) {
+      const presetMotor = motors[motor];
+      if (!presetMotor) continue;
+      const result = await presetMotor.moveTo(position);
+      logDebug(`[VirtualPresets] '${name}' moved ${motor} on ${bedName}:`, result);
+    }
+  };
+
+  for (const name of presetNames) {
+    if (virtualPresetsCache[name]) continue;
+    virtualPresetsCache[name] = [
+      new Button(
+        mqtt,
+        deviceData,
+        {
+          description: withSide(`${getString('VirtualPreset')}: ${name}`),
+          tag: withSide(`virtual preset ${name}`),
+        },
+        () => goTo(name)
+      ).setOnline(),
+      new Button(
+        mqtt,
+        deviceData,
+        {
+          description: withSide(`${getString('VirtualPresetSave')}: ${name}`),
+          tag: withSide(`virtual preset ${name} save`),
+          category: 'config',
+        },
+        () => save(name)
+      ).setOnline(),
+    ];
+  }
+};
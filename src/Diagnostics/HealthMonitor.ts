@@ -11,6 +11,16 @@ type RestartReason =
   | { kind: 'maintenance'; reason: string }
   | { kind: 'ble'; reason: string; deviceName?: string; error?: string };
 
+type DeviceRecoveryHandler = (error: any) => void;
+
+type DeviceHealth = {
+  consecutiveFailures: number;
+  lastSuccessAt?: number;
+  lastError?: BleErrorSnapshot;
+  degraded: boolean;
+  state?: string;
+};
+
 type BleErrorSnapshot = {
   at: number;
   deviceName?: string;
@@ -42,6 +52,11 @@ class HealthMonitor {
   private consecutiveBleFailures = 0;
   private lastBleError?: BleErrorSnapshot;
 
+  // Per-device view (project memory):
+  // Failures are counted per bed so one flaky bed doesn't trip escalation for every other bed.
+  private devices = new Map<string, DeviceHealth>();
+  private deviceRecoveryHandlers = new Map<string, DeviceRecoveryHandler>();
+
   private lastCommandAt?: number;
   private lastCommandDeviceName?: string;
   private lastCommandName?: string;
@@ -72,6 +87,7 @@ class HealthMonitor {
     this.lastBleSuccessAt = undefined;
     this.consecutiveBleFailures = 0;
     this.lastBleError = undefined;
+    this.devices.clear();
     this.lastCommandAt = undefined;
     this.lastCommandDeviceName = undefined;
     this.lastCommandName = undefined;
@@ -89,7 +105,7 @@ class HealthMonitor {
     this.maintenanceTimer = setInterval(() => this.maybeRequestMaintenanceRestart(), this.maintenanceCheckIntervalMs);
     
     const { bleProxies } = getRootOptions();
-    if (bleProxies) {
+    if (Array.isArray(bleProxies)) {
       for (const proxy of bleProxies) {
         const topic = `smartbed-mqtt/proxy/${proxy.host}/status`;
         mqtt.subscribe(topic);
@@ -140,11 +156,46 @@ class HealthMonitor {
     this.restartSignal.resolve(reason);
   }
 
+  /**
+   * Let a per-device supervisor handle repeated failures for `deviceName` (reconnecting just that bed)
+   * instead of escalating to a full ESPHome reconnect.
+   */
+  registerDeviceRecovery(deviceName: string, handler: DeviceRecoveryHandler) {
+    this.deviceRecoveryHandlers.set(deviceName, handler);
+  }
+
+  /**
+   * Supervisor-reported lifecycle state for a device (e.g. `connecting`, `ready`, `recovering`).
+   * Only the named device is marked degraded; other beds keep reporting healthy.
+   */
+  setDeviceState(deviceName: string, state: string, degraded: boolean, error?: any) {
+    const device = this.getDevice(deviceName);
+    device.state = state;
+    device.degraded = degraded;
+    if (error) {
+      device.lastError = {
+        at: Date.now(),
+        deviceName,
+        message: error?.message || String(error),
+        retryable: isSocketOrBLETimeoutError(error),
+      };
+    }
+    this.publishDeviceHealth(deviceName);
+    this.publishDegradedState();
+  }
+
   recordBleSuccess(deviceName: string) {
     this.lastBleSuccessAt = Date.now();
     this.consecutiveBleFailures = 0;
     this.lastBleError = undefined;
 
+    const device = this.getDevice(deviceName);
+    device.lastSuccessAt = this.lastBleSuccessAt;
+    device.consecutiveFailures = 0;
+    device.lastError = undefined;
+    device.state = 'ready';
+    device.degraded = false;
+
     this.publishDeviceHealth(deviceName);
     this.publishDegradedState();
   }
@@ -155,7 +206,8 @@ class HealthMonitor {
     const lower = String(message).toLowerCase();
     const isApiNotReady = lower.includes('esphome api not ready');
 
-    const prevError = this.lastBleError;
+    const device = this.getDevice(deviceName);
+    const prevError = device.lastError;
 
     this.lastBleError = {
       at: Date.now(),
@@ -163,6 +215,7 @@ class HealthMonitor {
       message,
       retryable,
     };
+    device.lastError = this.lastBleError;
 
     if (retryable) {
       // Deduplicate bursts: a single user action can trigger multiple concurrent writes,
@@ -171,8 +224,18 @@ class HealthMonitor {
       const prevAt = prevError?.at ?? 0;
       const prevMsg = String(prevError?.message ?? '');
       const isBurstDup = prevMsg === message && Date.now() - prevAt < 1500;
-      if (!isBurstDup) this.consecutiveBleFailures += 1;
-      if (this.consecutiveBleFailures >= this.bleFailureTripCount) {
+      if (!isBurstDup) {
+        this.consecutiveBleFailures += 1;
+        device.consecutiveFailures += 1;
+      }
+      const recover = this.deviceRecoveryHandlers.get(deviceName);
+      if (device.consecutiveFailures >= this.bleFailureTripCount && recover && !isApiNotReady) {
+        // The proxy API is up, so this is a problem with this bed's link only: reconnect just this device.
+        logWarn(`[Health] Repeated BLE failures for ${deviceName}; handing over to its supervisor.`);
+        device.consecutiveFailures = 0;
+        device.degraded = true;
+        recover(error);
+      } else if (device.consecutiveFailures >= this.bleFailureTripCount) {
         if (proxyHost) {
           if (!isApiNotReady) {
             logWarn(`[Health] Requesting reboot of proxy ${proxyHost} due to repeated BLE failures.`);
@@ -192,6 +255,7 @@ class HealthMonitor {
             error: message,
           });
           this.consecutiveBleFailures = 0; // Reset after escalating
+          device.consecutiveFailures = 0;
         } else {
           this.requestRestart({
             kind: 'ble',
@@ -204,6 +268,7 @@ class HealthMonitor {
     } else {
       // Non-retryable errors should not necessarily trigger restart logic
       this.consecutiveBleFailures = 0;
+      device.consecutiveFailures = 0;
     }
 
     this.publishDeviceHealth(deviceName);
@@ -257,8 +322,21 @@ class HealthMonitor {
     this.publishHeartbeat();
   }
 
+  private getDevice(deviceName: string): DeviceHealth {
+    let device = this.devices.get(deviceName);
+    if (!device) {
+      device = { consecutiveFailures: 0, degraded: false };
+      this.devices.set(deviceName, device);
+    }
+    return device;
+  }
+
   private isDegraded(): boolean {
-    return this.consecutiveBleFailures > 0 || this.restartRequested;
+    return (
+      this.consecutiveBleFailures > 0 ||
+      this.restartRequested ||
+      [...this.devices.values()].some((device) => device.degraded)
+    );
   }
 
   private publishDegradedState() {
@@ -295,6 +373,7 @@ class HealthMonitor {
         lastCommandName: this.lastCommandName ?? null,
       },
       proxyStatus,
+      degradedDevices: [...this.devices.entries()].filter(([, device]) => device.degraded).map(([name]) => name),
       degraded: this.isDegraded(),
       restart: this.restartReason ? this.restartReason : null,
     };
@@ -305,18 +384,21 @@ class HealthMonitor {
   private publishDeviceHealth(deviceName: string) {
     if (!this.mqtt) return;
     const topic = `smartbedmqtt/health/${safeId(deviceName)}`;
+    const device = this.getDevice(deviceName);
     const payload = {
       type: this.type,
       ts: getUnixEpoch(),
       deviceName,
+      state: device.state ?? null,
+      degraded: device.degraded,
       ble: {
-        lastSuccessAt: this.lastBleSuccessAt ? Math.floor(this.lastBleSuccessAt / 1000) : null,
-        consecutiveFailures: this.consecutiveBleFailures,
-        lastError: this.lastBleError
+        lastSuccessAt: device.lastSuccessAt ? Math.floor(device.lastSuccessAt / 1000) : null,
+        consecutiveFailures: device.consecutiveFailures,
+        lastError: device.lastError
           ? {
-              at: Math.floor(this.lastBleError.at / 1000),
-              message: this.lastBleError.message,
-              retryable: this.lastBleError.retryable,
+              at: Math.floor(device.lastError.at / 1000),
+              message: device.lastError.message,
+              retryable: device.lastError.retryable,
             }
           : null,
       },
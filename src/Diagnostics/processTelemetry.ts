@@ -1,6 +1,6 @@
 import { JsonSensor } from '@ha/JsonSensor';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { buildAddonDeviceData } from 'Common/buildAddonDeviceData';
 import { logDebug } from '@utils/logger';
 import { BLEDevice } from 'ESPHome/types/BLEDevice';
 import { performance } from 'perf_hooks';
@@ -15,15 +15,7 @@ type StopFn = () => void;
  * - Keeps key signals visible in HA without digging logs.
  */
 export function startProcessTelemetry(mqtt: IMQTTConnection, type: string): StopFn {
-  const deviceData = buildMQTTDeviceData(
-    {
-      friendlyName: 'SmartbedMQTT',
-      name: `addon:${type}`,
-      address: 'smartbedmqtt',
-      ids: ['smartbedmqtt', `smartbedmqtt:${type}`],
-    },
-    'SmartbedMQTT'
-  );
+  const deviceData = buildAddonDeviceData(type);
 
   const sensor = new JsonSensor<any>(mqtt, deviceData, {
     description: 'Process Diagnostics',
@@ -0,0 +1,38 @@
+import { JsonSensor } from '@ha/JsonSensor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { buildAddonDeviceData } from 'Common/buildAddonDeviceData';
+import { ProxySlots, onProxySlotsChange } from 'ESPHome/proxySlots';
+
+type SlotsState = ProxySlots & { status: string };
+
+/**
+ * BLE connection slot usage per proxy, as HA diagnostic JsonSensors on the SmartbedMQTT device
+ * (status `used/limit`, attributes list the MACs holding a slot and the connects waiting for one).
+ */
+export const startProxySlotSensors = (mqtt: IMQTTConnection, type: string) => {
+  const deviceData = buildAddonDeviceData(type);
+  const sensors = new Map<string, JsonSensor<SlotsState>>();
+  const published = new Map<string, string>();
+
+  onProxySlotsChange((slots) => {
+    const { host, free, limit } = slots;
+    const status = limit === undefined || free === undefined ? 'unknown' : `${limit - free}/${limit}`;
+    const state = { status, ...slots };
+    const json = JSON.stringify(state);
+    if (published.get(host) === json) return;
+    published.set(host, json);
+
+    let sensor = sensors.get(host);
+    if (!sensor) {
+      sensor = new JsonSensor<SlotsState>(mqtt, deviceData, {
+        tag: `proxy ${host} slots`,
+        description: `Proxy ${host} BLE Slots`,
+        category: 'diagnostic',
+        icon: 'mdi:bluetooth-connect',
+        valueField: 'status',
+      });
+      sensors.set(host, sensor);
+    }
+    sensor.setState(state);
+  });
+};
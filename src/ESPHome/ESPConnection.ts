@@ -3,7 +3,10 @@ import { Deferred } from '@utils/deferred';
 import { logInfo, logInfoDedup, logWarnDedup } from '@utils/logger';
 import { wait } from '@utils/wait';
 import { DiscoveredBLEAdvertisement, IESPConnection } from './IESPConnection';
+import { addAdvertisementConsumer, getAdvertisementCount, releaseAdvertisementStream } from './advertisementStream';
 import { connect } from './connect';
+import { matchesDeviceName } from './matchesDeviceName';
+import { rankProxies } from './proxyPreferences';
 import { BLEAdvertisement } from './types/BLEAdvertisement';
 import { BLEDevice } from './types/BLEDevice';
 import { IBLEDevice } from './types/IBLEDevice';
@@ -17,13 +20,46 @@ interface BLEProxy {
   expectedServerName: string | undefined;
 }
 
+// Advertisements from ESPHome always come with the proxy connection that heard them.
+type ProxyAdvertisement = DiscoveredBLEAdvertisement & { connection: Connection };
+
+// With several proxies, keep listening briefly after a scan so the others can report the bed too.
+const PROXY_SETTLE_MS = 3_000;
+
+type AdvertisementFilter = (address: number, readName: () => string) => boolean;
+
+const toMac = (address: number) => address.toString(16).padStart(12, '0');
+
+// Same naming as listenForAdvertisements: unnamed devices go by their MAC.
+const matchesAnyDevice = (
+  deviceNames: string[],
+  address: number,
+  advertisedName: string,
+  nameMapper?: (name: string) => string
+) => {
+  if (!deviceNames.length) return false;
+  const mac = toMac(address);
+  let name = advertisedName;
+  if (name && nameMapper) name = nameMapper(name);
+  if (!name) name = mac;
+  return deviceNames.some((deviceName) => matchesDeviceName(deviceName, { name, mac }));
+};
+
 export class ESPConnection implements IESPConnection {
-  // Ensure we only subscribe to BLE advertisements once per API connection.
-  // Re-subscribing triggers ESPHome bluetooth_proxy errors:
-  // "Only one API subscription is allowed at a time".
-  private bleAdvertisementSubscribed = new WeakSet<Connection>();
+  // Background watches (see watchForBLEDevices); they are bound to the current connections.
+  private watchers = new Set<Deferred<void>>();
+  // Per-bed sighting trackers on every proxy (proxy selection and failover), see buildBLEDevice.
+  private sightingTrackers = new Map<number, Array<() => void>>();
 
-  constructor(private connections: Connection[], private proxies: BLEProxy[]) {}
+  /**
+   * @param findLeasedDevices finds beds the scan missed behind proxies other instances hold the lease on
+   *   (see LeaseDevice).
+   */
+  constructor(
+    private connections: Connection[],
+    private proxies: BLEProxy[],
+    private findLeasedDevices?: (deviceNames: string[]) => Promise<IBLEDevice[]>
+  ) {}
 
   async reconnect(): Promise<void> {
     this.disconnect();
@@ -36,7 +72,13 @@ export class ESPConnection implements IESPConnection {
   disconnect(): void {
     logInfo('[ESPHome] Disconnecting...');
 
+    for (const watcher of this.watchers) watcher.resolve();
+    this.watchers.clear();
+    for (const stops of this.sightingTrackers.values()) stops.forEach((stop) => stop());
+    this.sightingTrackers.clear();
+
     for (const connection of this.connections) {
+      releaseAdvertisementStream(connection);
       // Best-effort: tell proxy we're dropping the BLE advertisement subscription.
       // Helps avoid "Only one API subscription is allowed at a time" during fast reconnect loops.
       try {
@@ -82,51 +124,16 @@ export class ESPConnection implements IESPConnection {
 
     // Diagnostics: track whether the proxy delivered *any* advertisements during the scan window.
     // This helps distinguish "bed not advertising" from "proxy/socket is dead".
-    let advertisementsSeen = 0;
-    const advertisementsSeenByHost: Record<string, number> = {};
+    const countsBefore = this.connections.map(getAdvertisementCount);
+    const matched: ProxyAdvertisement[] = [];
+    // Matched beds stay accepted, so the other proxies' sightings of them are still recorded.
+    const matchedAddresses = new Set<number>();
 
-    await this.discoverBLEDevices(
+    await this.listenForAdvertisements(
       (device) => {
-        const { name, mac, advertisement, connection } = device;
-        advertisementsSeen += 1;
-        const host = connection.host || 'unknown';
-        advertisementsSeenByHost[host] = (advertisementsSeenByHost[host] || 0) + 1;
-        const lowerName = name.toLowerCase();
-        /**
-         * Matching strategy (battle-tested for BLE proxy + consumer devices):
-         * - Some devices advertise as "KSBT<mac>" (Keeson/Purple), while we often want to configure just "<mac>".
-         * - Names can have null padding and/or suffixes; nameMapper can normalize, but we still need tolerant matching.
-         * - We prefer exact matches, but allow safe derived matches (prefix/suffix vs mac) to avoid "can't find device"
-         *   despite the proxy seeing it.
-         */
-        const matches = (deviceName: string) => {
-          const dn = deviceName.toLowerCase().trim();
-          if (!dn) return false;
-
-          // Exact identifiers
-          if (dn === mac) return true;
-          if (dn === lowerName) return true;
-
-          // Normalize MAC-like tokens (e.g. "d2:a3:..." or "d2a33c...")
-          const dnMac = dn.replace(/[^a-f0-9]/g, '');
-          if (dnMac.length === 12 && dnMac === mac) return true;
-
-          // Prefix/suffix tolerance (e.g. "ksbt<...>" vs "<...>")
-          if (lowerName.startsWith(dn)) return true;
-          if (lowerName.endsWith(dn)) return true;
-          if (dn.endsWith(mac)) return true;
-
-          /**
-           * Project memory:
-           * Users often configure partial identifiers (aliases) like `b04c06002764`
-           * that are substrings of the advertised name `KSBT04C060027642`.
-           * Allow safe substring matching for reasonably-long tokens.
-           */
-          if (dn.length >= 6 && lowerName.includes(dn)) return true;
-          if (dn.length >= 7 && dn.startsWith('b') && lowerName.includes(dn.slice(1))) return true;
-
-          return false;
-        };
+        const { name, mac, address } = device;
+        if (matchedAddresses.has(address)) return;
+        const matches = (deviceName: string) => matchesDeviceName(deviceName, { name, mac });
 
         /**
          * Project memory:
@@ -146,16 +153,31 @@ export class ESPConnection implements IESPConnection {
         if (remaining.length === before) return;
 
         logInfo(`[ESPHome] Found device: ${name} (${mac})`);
-        // IMPORTANT: only create BLEDevice instances for matched devices to avoid accumulating
-        // EventEmitter listeners for every advertisement seen during scanning.
-        bleDevices.push(new BLEDevice(name, advertisement, connection));
+        matched.push(device);
+        matchedAddresses.add(address);
         if (remaining.length) return;
         complete.resolve();
       },
-      stop.then(() => undefined),
-      nameMapper
+      // Settle inside the listen window, so the other proxies' advertisements are still received.
+      stop.then(async (reason) => {
+        if (reason === 'complete' && this.connections.length > 1) await wait(PROXY_SETTLE_MS);
+      }),
+      nameMapper,
+      (address, readName) =>
+        matchedAddresses.has(address) || matchesAnyDevice(remaining, address, readName(), nameMapper)
     );
     const stopReason = await stop;
+    const advertisementsSeenByHost: Record<string, number> = {};
+    let advertisementsSeen = 0;
+    this.connections.forEach((connection, index) => {
+      const count = getAdvertisementCount(connection) - (countsBefore[index] ?? 0);
+      const host = connection.host || 'unknown';
+      advertisementsSeenByHost[host] = (advertisementsSeenByHost[host] || 0) + count;
+      advertisementsSeen += count;
+    });
+    // IMPORTANT: only create BLEDevice instances for matched devices to avoid accumulating
+    // EventEmitter listeners for every advertisement seen during scanning.
+    for (const device of matched) bleDevices.push(this.buildBLEDevice(device));
 
     // If the scan timed out AND we saw zero advertisements from all proxies, the most likely
     // cause is an ESPHome API subscription/socket issue. Reconnect once and retry.
@@ -207,6 +229,13 @@ export class ESPConnection implements IESPConnection {
       } catch {}
     }
 
+    if (remaining.length && this.findLeasedDevices) {
+      for (const bleDevice of await this.findLeasedDevices(remaining)) {
+        bleDevices.push(bleDevice);
+        remaining = remaining.filter((deviceName) => !matchesDeviceName(deviceName, bleDevice));
+      }
+    }
+
     if (remaining.length) {
       const suffix = stopReason === 'timeout' ? ` (timed out after ${timeoutMs / 1000}s)` : '';
       const missKey = `esphome:miss:${remaining.sort().join(',')}`;
@@ -223,48 +252,127 @@ export class ESPConnection implements IESPConnection {
     return bleDevices;
   }
 
+  /**
+   * Keep listening for configured devices that were not found by `getBLEDevices`.
+   *
+   * Why:
+   * - A bed that is powered off or out of range at startup would otherwise only be attached after an add-on restart.
+   *
+   * How:
+   * - Listen to the advertisement stream in the background; every time one of `deviceNames` shows up, hand a
+   *   BLEDevice to `onDeviceFound` together with all identifiers it satisfied (aliases of the same bed).
+   * - Stops once every name was found, when the returned function is called, or on `disconnect()`
+   *   (the brands start a new watch after a reconnect).
+   */
+  watchForBLEDevices(
+    deviceNames: string[],
+    onDeviceFound: (bleDevice: IBLEDevice, matchedNames: string[]) => void,
+    nameMapper?: (name: string) => string
+  ): () => void {
+    let remaining = deviceNames.map((name) => name.toLowerCase());
+    const complete = new Deferred<void>();
+    const stop = () => {
+      this.watchers.delete(complete);
+      complete.resolve();
+    };
+    this.watchers.add(complete);
+    logInfo(`[ESPHome] Watching in the background for device(s): ${remaining.join(', ')}`);
+
+    void this.listenForAdvertisements(
+      ({ name, mac, address, advertisement, connection }) => {
+        const matchedNames = remaining.filter((deviceName) => matchesDeviceName(deviceName, { name, mac }));
+        if (!matchedNames.length) return;
+
+        remaining = remaining.filter((deviceName) => !matchedNames.includes(deviceName));
+        logInfo(`[ESPHome] Found device in the background: ${name} (${mac})`);
+        onDeviceFound(this.buildBLEDevice({ name, mac, address, advertisement, connection }), matchedNames);
+        if (!remaining.length) stop();
+      },
+      complete,
+      nameMapper,
+      (address, readName) => matchesAnyDevice(remaining, address, readName(), nameMapper)
+    );
+    return stop;
+  }
+
+  /**
+   * Bind the bed to the best proxy that has heard it (connect history first, RSSI second), not just the
+   * first one whose advertisement arrived.
+   */
+  private buildBLEDevice({ name, mac, address, advertisement, connection }: ProxyAdvertisement) {
+    this.trackSightings(address);
+    const [best] = rankProxies(mac);
+    if (best && best.connection !== connection) {
+      logInfo(`[ESPHome] Using proxy ${best.host} for ${name} (${mac}), rssi=${best.rssi}`);
+      return new BLEDevice(name, best.advertisement, best.connection);
+    }
+    return new BLEDevice(name, advertisement, connection);
+  }
+
+  /** Keep recording which proxies hear a bed we built a device for, so it can fail over later. */
+  private trackSightings(address: number) {
+    if (this.sightingTrackers.has(address)) return;
+    const stops = this.connections.map((connection) =>
+      addAdvertisementConsumer(connection, {
+        accepts: (advertised) => advertised === address,
+        onAdvertisement: () => {},
+      })
+    );
+    this.sightingTrackers.set(address, stops);
+  }
+
   async discoverBLEDevices(
-    onNewDeviceFound: (device: DiscoveredBLEAdvertisement) => void,
+    onNewDeviceFound: (device: ProxyAdvertisement) => void,
     complete: Promise<void>,
     nameMapper?: (name: string) => string
   ) {
     const seenAddresses: number[] = [];
-    const listenerBuilder = (connection: Connection) => ({
-      connection,
-      listener: (advertisement: BLEAdvertisement) => {
-        /**
-         * Project memory:
-         * Many BLE devices (including some bed controllers) advertise without a local name.
-         * If we drop unnamed advertisements, discovery-by-MAC can never work and the add-on
-         * will loop forever saying "device not discovered" even though the proxy sees it.
-         *
-         * Strategy:
-         * - Always accept advertisements (named or unnamed).
-         * - Use the 12-hex derived address as a stable fallback name when advertisement.name is empty.
-         */
-        let name = advertisement.name ?? '';
-        const { address } = advertisement;
+    await this.listenForAdvertisements(
+      (device) => {
+        if (seenAddresses.includes(device.address)) return;
+        seenAddresses.push(device.address);
+        onNewDeviceFound(device);
+      },
+      complete,
+      nameMapper
+    );
+  }
 
-        if (seenAddresses.includes(address)) return;
-        seenAddresses.push(address);
+  /**
+   * Feed every advertisement `accepts` lets through (default: all) from every proxy to `onAdvertisement` until
+   * `complete` resolves. Unlike `discoverBLEDevices` nothing is de-duplicated, so a device whose name only arrives in
+   * a later advertisement (scan response) is still seen by long-running watchers.
+   */
+  private async listenForAdvertisements(
+    onAdvertisement: (device: ProxyAdvertisement) => void,
+    complete: Promise<void>,
+    nameMapper?: (name: string) => string,
+    accepts: AdvertisementFilter = () => true
+  ) {
+    const stops = this.connections.map((connection) =>
+      addAdvertisementConsumer(connection, {
+        accepts,
+        onAdvertisement: (advertisement: BLEAdvertisement) => {
+          /**
+           * Project memory:
+           * Many BLE devices (including some bed controllers) advertise without a local name.
+           * If we drop unnamed advertisements, discovery-by-MAC can never work and the add-on
+           * will loop forever saying "device not discovered" even though the proxy sees it.
+           *
+           * Strategy:
+           * - Always accept advertisements (named or unnamed).
+           * - Use the 12-hex derived address as a stable fallback name when advertisement.name is empty.
+           */
+          let name = advertisement.name ?? '';
+          const { address } = advertisement;
 
-        if (name && nameMapper) name = nameMapper(name);
-        if (!name) name = address.toString(16).padStart(12, '0');
-        const mac = address.toString(16).padStart(12, '0');
-        onNewDeviceFound({ name, mac, address, advertisement, connection });
-      },
-    });
-    const listeners = this.connections.map(listenerBuilder);
-    for (const { connection, listener } of listeners) {
-      connection.on('message.BluetoothLEAdvertisementResponse', listener);
-      if (!this.bleAdvertisementSubscribed.has(connection)) {
-        connection.subscribeBluetoothAdvertisementService();
-        this.bleAdvertisementSubscribed.add(connection);
-      }
-    }
+          if (name && nameMapper) name = nameMapper(name);
+          if (!name) name = toMac(address);
+          onAdvertisement({ name, mac: toMac(address), address, advertisement, connection });
+        },
+      })
+    );
     await complete;
-    for (const { connection, listener } of listeners) {
-      connection.off('message.BluetoothLEAdvertisementResponse', listener);
-    }
+    for (const stop of stops) stop();
   }
 }
@@ -7,13 +7,19 @@ export type DiscoveredBLEAdvertisement = {
   mac: string;
   address: number;
   advertisement: BLEAdvertisement;
-  connection: Connection;
+  /** The ESPHome proxy that heard the device; not set for other transports (MQTT gateways). */
+  connection?: Connection;
 };
 
 export interface IESPConnection {
   disconnect(): void;
   reconnect(): Promise<void>;
   getBLEDevices(deviceNames: string[], nameMapper?: (name: string) => string): Promise<IBLEDevice[]>;
+  watchForBLEDevices(
+    deviceNames: string[],
+    onDeviceFound: (bleDevice: IBLEDevice, matchedNames: string[]) => void,
+    nameMapper?: (name: string) => string
+  ): () => void;
   discoverBLEDevices(
     onNewDeviceFound: (device: DiscoveredBLEAdvertisement) => void,
     complete: Promise<void>,
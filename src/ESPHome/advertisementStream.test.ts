@@ -0,0 +1,123 @@
+import { Connection } from '@2colors/esphome-native-api';
+import EventEmitter from 'events';
+import { addAdvertisementConsumer, getAdvertisementCount } from './advertisementStream';
+import { parseRawAdvertisement } from './parseRawAdvertisement';
+import { recordProxySighting } from './proxyPreferences';
+
+jest.mock('@utils/logger');
+jest.mock('./proxyPreferences');
+jest.mock('./parseRawAdvertisement', () => {
+  const actual = jest.requireActual('./parseRawAdvertisement');
+  return { ...actual, parseRawAdvertisement: jest.fn(actual.parseRawAdvertisement) };
+});
+
+const named = (name: string) => new Uint8Array([name.length + 1, 0x09, ...Buffer.from(name)]);
+
+// Shaped like the library's protobuf classes, which the transport emits before the connection maps them.
+class BluetoothLERawAdvertisementsResponse {
+  static type = 'BluetoothLERawAdvertisementsResponse';
+  constructor(private advertisements: Array<{ address: number; data: Uint8Array }>) {}
+  getAdvertisementsList = () =>
+    this.advertisements.map(({ address, data }) => ({
+      getAddress: () => address,
+      getRssi: () => -70,
+      getAddressType: () => 0,
+      getData_asU8: () => data,
+    }));
+}
+
+const buildConnection = () => {
+  const frameHelper = new EventEmitter();
+  const emitter = Object.assign(new EventEmitter(), {
+    host: 'proxy',
+    frameHelper,
+    supportsRawBLEAdvertisements: true,
+    subscribeBluetoothAdvertisementService: jest.fn(),
+    unsubscribeBluetoothAdvertisementService: jest.fn(),
+  });
+  // Stands in for the library's listener that maps every message and re-emits it on the connection.
+  const mapAndEmit = jest.fn();
+  frameHelper.on('message', mapAndEmit);
+  const sendRaw = (...advertisements: Array<{ address: number; data: Uint8Array }>) =>
+    frameHelper.emit('message', new BluetoothLERawAdvertisementsResponse(advertisements));
+  return { emitter, connection: emitter as unknown as Connection, mapAndEmit, sendRaw };
+};
+
+describe(addAdvertisementConsumer.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+  beforeEach(() => jest.clearAllMocks());
+
+  it('only parses and delivers raw advertisements a consumer accepts', () => {
+    const { connection, sendRaw } = buildConnection();
+    const onAdvertisement = jest.fn();
+    addAdvertisementConsumer(connection, {
+      accepts: (address, readName) => address === 2 || readName() === 'Bed',
+      onAdvertisement,
+    });
+
+    sendRaw(
+      { address: 1, data: named('Phone') },
+      { address: 2, data: new Uint8Array() },
+      { address: 3, data: named('Bed') }
+    );
+
+    expect(onAdvertisement.mock.calls.map(([{ address, name }]) => ({ address, name }))).toEqual([
+      { address: 2, name: '' },
+      { address: 3, name: 'Bed' },
+    ]);
+    expect(recordProxySighting).toHaveBeenCalledTimes(2);
+    expect(getAdvertisementCount(connection)).toBe(3);
+  });
+
+  it("builds nothing for raw advertisements nobody accepts, and doesn't hand them to the library", () => {
+    const { connection, mapAndEmit, sendRaw } = buildConnection();
+    const readNames = jest.fn();
+    addAdvertisementConsumer(connection, {
+      accepts: (address) => {
+        readNames();
+        return address === 0xaabbccddeeff;
+      },
+      onAdvertisement: jest.fn(),
+    });
+
+    sendRaw({ address: 1, data: named('Phone') }, { address: 2, data: named('Watch') });
+
+    expect(readNames).toHaveBeenCalledTimes(2);
+    expect(parseRawAdvertisement).not.toHaveBeenCalled();
+    expect(recordProxySighting).not.toHaveBeenCalled();
+    expect(mapAndEmit).not.toHaveBeenCalled();
+  });
+
+  it('leaves other messages and parsed advertisements to the library', () => {
+    const { emitter, connection, mapAndEmit } = buildConnection();
+    const onAdvertisement = jest.fn();
+    addAdvertisementConsumer(connection, { accepts: (_, readName) => readName() === 'Bed', onAdvertisement });
+
+    const ping = { constructor: { type: 'PingRequest' } };
+    emitter.frameHelper.emit('message', ping);
+    emitter.emit('message.BluetoothLEAdvertisementResponse', { address: 1, name: 'Bed' });
+
+    expect(mapAndEmit).toHaveBeenCalledWith(ping);
+    expect(onAdvertisement).toHaveBeenCalledWith({ address: 1, name: 'Bed' });
+  });
+
+  it('pauses the subscription while nobody listens', () => {
+    const { emitter, connection } = buildConnection();
+    const consumer = { accepts: () => true, onAdvertisement: jest.fn() };
+
+    const stop = addAdvertisementConsumer(connection, consumer);
+    const stopSecond = addAdvertisementConsumer(connection, { ...consumer });
+    expect(emitter.subscribeBluetoothAdvertisementService).toHaveBeenCalledTimes(1);
+
+    stop();
+    jest.advanceTimersByTime(30_000);
+    expect(emitter.unsubscribeBluetoothAdvertisementService).not.toHaveBeenCalled();
+
+    stopSecond();
+    jest.advanceTimersByTime(30_000);
+    expect(emitter.unsubscribeBluetoothAdvertisementService).toHaveBeenCalledTimes(1);
+
+    addAdvertisementConsumer(connection, consumer);
+    expect(emitter.subscribeBluetoothAdvertisementService).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,176 @@
+import { Connection } from '@2colors/esphome-native-api';
+import { logDebug, logInfo, logWarn } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+import { parseRawAdvertisement, readAdvertisedName } from './parseRawAdvertisement';
+import { recordProxySighting } from './proxyPreferences';
+import { BLEAdvertisement } from './types/BLEAdvertisement';
+
+export interface AdvertisementConsumer {
+  /** Cheap pre-filter, called for every advertisement; the name is only decoded when `readName` is called. */
+  accepts(address: number, readName: () => string): boolean;
+  onAdvertisement(advertisement: BLEAdvertisement): void;
+}
+
+type StreamState = {
+  consumers: Set<AdvertisementConsumer>;
+  listening: boolean;
+  subscribed: boolean;
+  /** Advertisements received, accepted or not (scan silence detection). */
+  seen: number;
+  pauseTimer?: NodeJS.Timeout;
+};
+
+// An entry of a raw batch as the library's protobuf classes decode it.
+type RawAdvertisementMessage = {
+  getAddress(): number;
+  getRssi(): number;
+  getAddressType(): number;
+  getData_asU8(): Uint8Array;
+};
+
+// Discovery hands over to the background watch right after a scan; don't drop the subscription in between.
+const PAUSE_AFTER_MS = seconds(30);
+
+const streams = new WeakMap<Connection, StreamState>();
+
+// The advertisement being dispatched: its name is decoded at most once, and only if a consumer asks for it.
+let currentData: Uint8Array = new Uint8Array();
+let currentName: string | undefined;
+const readCurrentName = () => (currentName ??= readAdvertisedName(currentData));
+
+const toMac = (address: number) => address.toString(16).padStart(12, '0');
+
+const getState = (connection: Connection) => {
+  let state = streams.get(connection);
+  if (!state) {
+    state = { consumers: new Set(), listening: false, subscribed: false, seen: 0 };
+    streams.set(connection, state);
+  }
+  return state;
+};
+
+const dispatch = (connection: Connection, state: StreamState, address: number, build: () => BLEAdvertisement) => {
+  state.seen += 1;
+  let advertisement: BLEAdvertisement | undefined;
+  for (const consumer of state.consumers) {
+    if (!consumer.accepts(address, readCurrentName)) continue;
+    advertisement ??= build();
+    consumer.onAdvertisement(advertisement);
+  }
+  // Per-proxy sightings (proxy selection and failover) are only kept for devices someone is interested in.
+  if (advertisement) recordProxySighting(toMac(address), advertisement, connection);
+};
+
+const dispatchRawBatch = (connection: Connection, state: StreamState, items: RawAdvertisementMessage[]) => {
+  for (const item of items) {
+    currentData = item.getData_asU8();
+    currentName = undefined;
+    dispatch(connection, state, item.getAddress(), () =>
+      parseRawAdvertisement({
+        address: item.getAddress(),
+        rssi: item.getRssi(),
+        addressType: item.getAddressType(),
+        data: currentData,
+      })
+    );
+  }
+};
+
+/**
+ * Take raw batches from the transport before the library maps them: it converts every entry (base64 data, parsed
+ * fields) and re-emits each as a `BluetoothLEAdvertisementResponse`, for advertisements nobody here wants.
+ * Other messages still go through the library. Returns false when the library's listener isn't there.
+ */
+const interceptRawBatches = (connection: Connection, onBatch: (items: RawAdvertisementMessage[]) => void) => {
+  const { frameHelper } = connection;
+  const [mapAndEmit] = frameHelper?.listeners('message') ?? [];
+  if (!mapAndEmit) return false;
+  frameHelper.removeListener('message', mapAndEmit as (...args: any[]) => void);
+  frameHelper.on('message', (message: any) => {
+    if (message?.constructor?.type === 'BluetoothLERawAdvertisementsResponse') {
+      return onBatch(message.getAdvertisementsList());
+    }
+    mapAndEmit.call(frameHelper, message);
+  });
+  return true;
+};
+
+const listen = (connection: Connection, state: StreamState) => {
+  if (state.listening) return;
+  state.listening = true;
+  if (!interceptRawBatches(connection, (items) => dispatchRawBatch(connection, state, items))) {
+    logWarn(`[ESPHome] Can't filter raw advertisements of ${connection.host} before the library maps them`);
+  }
+  // Proxies before API 1.9 send parsed advertisements (and without the interception, the library's re-emits).
+  connection.on('message.BluetoothLEAdvertisementResponse', (advertisement: BLEAdvertisement) => {
+    currentName = advertisement.name ?? '';
+    dispatch(connection, state, advertisement.address, () => advertisement);
+  });
+};
+
+const subscribe = (connection: Connection, state: StreamState) => {
+  clearTimeout(state.pauseTimer);
+  state.pauseTimer = undefined;
+  if (state.subscribed) return;
+  listen(connection, state);
+  // The library asks for raw (batched) advertisements when the proxy's API version supports them.
+  const raw = connection.supportsRawBLEAdvertisements === true;
+  try {
+    connection.subscribeBluetoothAdvertisementService();
+    state.subscribed = true;
+    logInfo(`[ESPHome] Subscribed to ${raw ? 'raw' : 'parsed'} BLE advertisements on ${connection.host}`);
+  } catch (error: any) {
+    logWarn(`[ESPHome] Failed to subscribe to BLE advertisements on ${connection.host}:`, error?.message || error);
+  }
+};
+
+const schedulePause = (connection: Connection, state: StreamState) => {
+  clearTimeout(state.pauseTimer);
+  state.pauseTimer = setTimeout(() => {
+    state.pauseTimer = undefined;
+    if (state.consumers.size || !state.subscribed) return;
+    state.subscribed = false;
+    try {
+      connection.unsubscribeBluetoothAdvertisementService();
+      logDebug(`[ESPHome] Paused BLE advertisements on ${connection.host} (no consumers)`);
+    } catch {
+      // ok: the API connection is gone, and the subscription with it
+    }
+  }, PAUSE_AFTER_MS);
+};
+
+/**
+ * Receive the advertisements `consumer` accepts from one proxy. Returns the function to stop.
+ *
+ * Why:
+ * - Discovery used to parse and fan out every advertisement from every proxy for the whole session, also after
+ *   all beds were found. In busy RF environments that shows up as CPU and event-loop lag.
+ *
+ * How:
+ * - One advertisement subscription per proxy, shared by all consumers (discovery, background watches,
+ *   per-bed advertisement and RSSI tracking); raw (batched) mode when the proxy supports it.
+ * - Raw advertisements are taken from the transport and filtered on address (and the name, decoded only when a
+ *   consumer asks for it) before anything is parsed or allocated for them.
+ * - The subscription is paused once no consumer is left, and resumed by the next one.
+ */
+export const addAdvertisementConsumer = (connection: Connection, consumer: AdvertisementConsumer) => {
+  const state = getState(connection);
+  state.consumers.add(consumer);
+  subscribe(connection, state);
+  return () => {
+    if (!state.consumers.delete(consumer) || state.consumers.size) return;
+    schedulePause(connection, state);
+  };
+};
+
+/** Number of advertisements received from a proxy so far, including the ones no consumer wanted. */
+export const getAdvertisementCount = (connection: Connection) => streams.get(connection)?.seen ?? 0;
+
+/** Stop the pause timer of a proxy connection that is being torn down. */
+export const releaseAdvertisementStream = (connection: Connection) => {
+  const state = streams.get(connection);
+  if (!state) return;
+  clearTimeout(state.pauseTimer);
+  state.consumers.clear();
+  state.subscribed = false;
+};
@@ -0,0 +1,61 @@
+import { mock } from 'jest-mock-extended';
+import {
+  clearDeviceCache,
+  getBondState,
+  onBondStateChange,
+  pairDevice,
+  restorePairing,
+  unpairDevice,
+} from './bondState';
+import { IBLEDevice } from './types/IBLEDevice';
+
+jest.mock('@utils/logger');
+
+const buildDevice = (mac: string) => mock<IBLEDevice>({ name: 'bed', mac });
+
+describe('bondState', () => {
+  it('records a successful pairing', async () => {
+    const bleDevice = buildDevice('000000000001');
+    const listener = jest.fn();
+    onBondStateChange(listener);
+
+    await pairDevice(bleDevice);
+
+    expect(getBondState('000000000001')).toEqual(expect.objectContaining({ status: 'paired' }));
+    expect(listener).toHaveBeenCalledWith('000000000001', expect.objectContaining({ status: 'paired' }));
+  });
+
+  it('turns a refused pairing into a pairing error and a failed bond state', async () => {
+    const bleDevice = buildDevice('000000000002');
+    bleDevice.pair.mockRejectedValue(new Error('proxy reported pairing error 5'));
+
+    await expect(pairDevice(bleDevice)).rejects.toThrow(
+      'Pairing with bed (000000000002) failed: proxy reported pairing error 5'
+    );
+    expect(getBondState('000000000002')).toEqual(
+      expect.objectContaining({ status: 'failed', error: 'proxy reported pairing error 5' })
+    );
+  });
+
+  it('only records a refused re-pairing after a reconnect', async () => {
+    const bleDevice = buildDevice('000000000005');
+    bleDevice.pair.mockRejectedValue(new Error('proxy reported pairing error 5'));
+
+    await restorePairing(bleDevice);
+
+    expect(getBondState('000000000005')).toEqual(
+      expect.objectContaining({ status: 'failed', error: 'proxy reported pairing error 5' })
+    );
+  });
+
+  it('records an unpair and rejects transports without unpair or cache clearing', async () => {
+    const bleDevice = buildDevice('000000000003');
+
+    await unpairDevice(bleDevice);
+    expect(getBondState('000000000003').status).toBe('unpaired');
+
+    const basic = { name: 'bed', mac: '000000000004' } as IBLEDevice;
+    await expect(unpairDevice(basic)).rejects.toThrow('Unpairing is not supported');
+    await expect(clearDeviceCache(basic)).rejects.toThrow('Clearing the BLE cache is not supported');
+  });
+});
@@ -0,0 +1,76 @@
+import { logInfo, logWarn } from '@utils/logger';
+import { IBLEDevice } from './types/IBLEDevice';
+
+export type BondStatus = 'unknown' | 'paired' | 'unpaired' | 'failed';
+
+export type BondState = {
+  status: BondStatus;
+  /** Why the last pair/unpair attempt failed. */
+  error?: string;
+  updatedAt?: number;
+};
+
+// Per bed (by MAC), like the GATT cache: a bond lives in the bed and the proxy, not in one BLEDevice instance.
+const states = new Map<string, BondState>();
+const listeners: Array<(mac: string, state: BondState) => void> = [];
+
+const setBondState = (mac: string, status: BondStatus, error?: string) => {
+  const state: BondState = { status, error, updatedAt: Date.now() };
+  states.set(mac, state);
+  for (const listener of listeners) listener(mac, state);
+};
+
+export const getBondState = (mac: string): BondState => states.get(mac) ?? { status: 'unknown' };
+
+/** Called for every bed; a controller can be rebound to another MAC (Keeson linked controllers). */
+export const onBondStateChange = (listener: (mac: string, state: BondState) => void) => {
+  listeners.push(listener);
+};
+
+/**
+ * Pair with a connected bed and record the outcome.
+ * Throws a pairing error when the proxy refuses, so setup fails here instead of on the first GATT write.
+ */
+export const pairDevice = async (bleDevice: IBLEDevice) => {
+  const { name, mac } = bleDevice;
+  try {
+    await bleDevice.pair();
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    setBondState(mac, 'failed', message);
+    logWarn(`[BLE] Pairing with ${name} (${mac}) failed: ${message}`);
+    throw new Error(`Pairing with ${name} (${mac}) failed: ${message}`);
+  }
+  setBondState(mac, 'paired');
+  logInfo(`[BLE] Paired with ${name} (${mac})`);
+};
+
+/**
+ * Re-pair after a reconnect of a bed that was paired before.
+ * A refusal is recorded in the bond state (and logged) but doesn't fail the reconnect.
+ */
+export const restorePairing = async (bleDevice: IBLEDevice) => {
+  await pairDevice(bleDevice).catch(() => undefined);
+};
+
+export const unpairDevice = async (bleDevice: IBLEDevice) => {
+  const { name, mac } = bleDevice;
+  if (!bleDevice.unpair) throw new Error(`Unpairing is not supported for ${name} (${mac})`);
+  try {
+    await bleDevice.unpair();
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    setBondState(mac, 'failed', message);
+    throw new Error(`Unpairing ${name} (${mac}) failed: ${message}`);
+  }
+  setBondState(mac, 'unpaired');
+  logInfo(`[BLE] Unpaired ${name} (${mac})`);
+};
+
+/** Drop the proxy's (and our own) cached GATT table for a bed; the next connect rediscovers it. */
+export const clearDeviceCache = async (bleDevice: IBLEDevice) => {
+  const { name, mac } = bleDevice;
+  if (!bleDevice.clearCache) throw new Error(`Clearing the BLE cache is not supported for ${name} (${mac})`);
+  await bleDevice.clearCache();
+  logInfo(`[BLE] Cleared the BLE cache for ${name} (${mac})`);
+};
@@ -1,6 +1,7 @@
 import { Connection } from '@2colors/esphome-native-api';
 import { healthMonitor } from 'Diagnostics/HealthMonitor';
 import { logDebug, logDebugDedup, logError, logInfo, logWarn, logWarnDedup } from '@utils/logger';
+import { trackProxySlots } from './proxySlots';
 
 /**
  * Establish an ESPHome native API connection robustly.
@@ -118,6 +119,7 @@ export const connect = (connection: Connection) => {
         if (!bluetoothProxyFeatureFlags) {
           throw new Error(`No Bluetooth proxy features detected for ${connection.host}`);
         }
+        logDebug(`[ESPHome] Bluetooth proxy feature flags for ${connection.host}: 0x${Number(bluetoothProxyFeatureFlags).toString(16)}`);
 
         settled = true;
         cleanup();
@@ -152,18 +154,12 @@ export const connect = (connection: Connection) => {
           );
         });
 
-        // Verbose probes (only when LOG_LEVEL is debug/trace): subscribe to proxy logs + connection slot telemetry
+        // Connection slot telemetry: drives per-proxy connect scheduling (see proxySlots).
+        trackProxySlots(connection);
+
+        // Verbose probes (only when LOG_LEVEL is debug/trace): subscribe to proxy logs
         const logLevel = String(process.env.LOG_LEVEL || '').toLowerCase();
         if (logLevel === 'debug' || logLevel === 'trace') {
-          try {
-            (connection as any).subscribeBluetoothConnectionsFreeService?.();
-            connection.on('message.BluetoothConnectionsFreeResponse', (msg: any) => {
-              logDebug(
-                `[ESPHome] BLE connections free on ${connection.host}: free=${msg?.free} limit=${msg?.limit}`
-              );
-            });
-          } catch {}
-
           try {
             (connection as any).subscribeLogsService?.();
             connection.on('message.SubscribeLogsResponse', (msg: any) => {
@@ -1,12 +1,18 @@
 import { Connection } from '@2colors/esphome-native-api';
-import { logInfo, logWarnDedup } from '@utils/logger';
+import { logInfo, logWarn, logWarnDedup } from '@utils/logger';
 import { retryWithBackoff, isSocketOrBLETimeoutError } from '@utils/retryWithBackoff';
 import { ESPConnection } from './ESPConnection';
 import { IESPConnection } from './IESPConnection';
 import { connect } from './connect';
-import { getProxies } from './options';
+import { BLEProxy, getDiscoveredProxyCredentials, getProxies, isProxyDiscoveryEnabled } from './options';
+import { browseProxies, buildDiscoveredProxies, watchProxies } from './discoverProxies';
 import EventEmitter from 'events';
 import { healthMonitor } from 'Diagnostics/HealthMonitor';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { acquireProxyLease, releaseProxyLease } from './proxyLease';
+import { LeaseRequest, runLeaseOperation, serveLeaseRequests } from './leaseRequests';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
+import { findLeasedDevices } from './types/LeaseDevice';
 
 const isServerNameMismatch = (error: any) => {
   const msg = error?.message || String(error);
@@ -21,11 +27,24 @@ const extractServerNameMismatch = (error: any): { expected?: string; got?: strin
   return { expected: m[1]?.trim(), got: m[2]?.trim() };
 };
 
-export const connectToESPHome = async (): Promise<IESPConnection> => {
+// Proxies skipped at startup whose lease is being waited for in the background (one wait per host).
+const waitingForLease = new Set<string>();
+
+const waitForLeaseRelease = (mqtt: IMQTTConnection, host: string) => {
+  if (waitingForLease.has(host)) return;
+  waitingForLease.add(host);
+  void acquireProxyLease(mqtt, host).then(() => {
+    waitingForLease.delete(host);
+    healthMonitor.requestRestart({ kind: 'ble', reason: `Lease on proxy ${host} acquired` });
+  });
+};
+
+export const connectToESPHome = async (mqtt: IMQTTConnection): Promise<IESPConnection> => {
   logInfo('[ESPHome] Connecting...');
 
   const proxies = getProxies();
-  if (proxies.length === 0) {
+  const discoveryEnabled = isProxyDiscoveryEnabled();
+  if (proxies.length === 0 && !discoveryEnabled) {
     logInfo('[ESPHome] No BLE proxies configured in options.json');
     return new ESPConnection([], []);
   }
@@ -39,7 +58,7 @@ export const connectToESPHome = async (): Promise<IESPConnection> => {
   // Use retryWithBackoff for each proxy connection
   const connections: Connection[] = [];
   
-  for (const config of proxies) {
+  const connectToProxy = async (config: BLEProxy, maxRetries?: number) => {
     let failedConnection: Connection | null = null;
     // Mutable expectedServerName allows us to correct a common misconfig safely.
     // If the proxy presents a different server name than expected, we can pin to the presented name.
@@ -115,7 +134,7 @@ export const connectToESPHome = async (): Promise<IESPConnection> => {
         }
       },
       {
-        maxRetries: undefined, // Infinite retries
+        maxRetries, // undefined = infinite retries (configured proxies)
         initialDelayMs: 5000, // 5 seconds initial delay
         maxDelayMs: 30000, // Max 30 seconds between retries
         backoffMultiplier: 1.5, // Gradual backoff
@@ -157,8 +176,68 @@ export const connectToESPHome = async (): Promise<IESPConnection> => {
       }
     );
     
-    connections.push(connection);
+    return connection;
+  };
+
+  // Another SmartbedMQTT instance using the proxy would knock our subscription off (and we theirs): skip proxies
+  // leased by another instance (see proxyLease) rather than holding up startup, and reconnect once they're free.
+  const leased: BLEProxy[] = [];
+  for (const config of proxies) {
+    if (!(await acquireProxyLease(mqtt, config.host, false))) {
+      leased.push(config);
+      logInfo(`[ESPHome] Skipping proxy ${config.host} for now: leased by another instance`);
+      continue;
+    }
+    connections.push(await connectToProxy(config));
   }
-  
-  return new ESPConnection(connections, proxies);
+  for (const { host } of leased) waitForLeaseRelease(mqtt, host);
+  const connected = proxies.filter((config) => !leased.includes(config));
+
+  // mDNS discovery (`host: auto` entries in bleProxies): connect to every ESPHome node that turns out to be
+  // a Bluetooth proxy (connect() checks the feature flags). Few retries: a node that isn't a proxy, or doesn't
+  // accept our key, shouldn't hold up startup; watchProxies picks up changes later.
+  const discovered: BLEProxy[] = [];
+  if (discoveryEnabled) {
+    const found = await browseProxies();
+    const candidates = buildDiscoveredProxies(found, getDiscoveredProxyCredentials(), proxies);
+    logInfo(`[ESPHome] Discovered ${found.length} ESPHome node(s) over mDNS, ${candidates.length} not configured by host`);
+    const ignored: string[] = [];
+    for (const config of candidates) {
+      const nodeName = config.expectedServerName as string;
+      if (!(await acquireProxyLease(mqtt, config.host, false))) {
+        ignored.push(nodeName);
+        leased.push(config);
+        logInfo(`[ESPHome] Skipping discovered proxy ${nodeName} (${config.host}): leased by another instance`);
+        continue;
+      }
+      try {
+        connections.push(await connectToProxy(config, 2));
+        discovered.push(config);
+        logInfo(`[ESPHome] Connected to discovered proxy ${nodeName} (${config.host})`);
+      } catch (error: any) {
+        releaseProxyLease(config.host);
+        ignored.push(nodeName);
+        logWarn(`[ESPHome] Skipping discovered node ${nodeName} (${config.host}):`, error?.message || error);
+      }
+    }
+    watchProxies(proxies, discovered.map(({ expectedServerName }) => expectedServerName as string), ignored);
+  }
+
+  // Beds behind proxies other instances hold can still be reached through their lease holder.
+  const leasedHosts = leased.map(({ host }) => host);
+  const esphome = new ESPConnection(
+    connections,
+    [...connected, ...discovered],
+    leasedHosts.length ? (deviceNames) => findLeasedDevices(mqtt, leasedHosts, deviceNames) : undefined
+  );
+  // Other instances can still reach the beds we supervise behind our proxies, through the bed's command queue.
+  const runLeaseRequest = async (request: LeaseRequest) => {
+    const controller = deviceSupervisor.getController(request.mac);
+    if (!controller) throw new Error(`Device ${request.mac} is not supervised by this instance`);
+    return await controller.runDeviceOperation((bleDevice) => runLeaseOperation(bleDevice, request));
+  };
+  for (const { host } of [...connected, ...discovered]) {
+    serveLeaseRequests(mqtt, host, runLeaseRequest);
+  }
+  return esphome;
 };
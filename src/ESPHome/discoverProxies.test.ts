@@ -0,0 +1,55 @@
+import { Discovery } from '@2colors/esphome-native-api';
+import { mocked } from '@utils/testHelpers';
+import EventEmitter from 'events';
+import { browseProxies, buildDiscoveredProxies } from './discoverProxies';
+import { BLEProxy } from './options';
+
+jest.mock('@utils/logger');
+jest.mock('Diagnostics/HealthMonitor', () => ({ healthMonitor: { requestRestart: jest.fn() } }));
+jest.mock('@2colors/esphome-native-api', () => ({ Discovery: jest.fn() }));
+
+const credential = (expectedServerName?: string, encryptionKey?: string) =>
+  ({ host: 'auto', encryptionKey, expectedServerName } as BLEProxy);
+
+describe(browseProxies.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+
+  it('collects the ESPHome nodes that answered', async () => {
+    const discovery = Object.assign(new EventEmitter(), { run: jest.fn(), destroy: jest.fn() });
+    mocked(Discovery).mockImplementation(() => discovery);
+
+    const browsing = browseProxies(1000);
+    discovery.emit('info', { host: 'bedroom-proxy.local', address: '10.0.0.20', port: 6053 });
+    discovery.emit('info', { host: 'bedroom-proxy.local', address: '10.0.0.20', port: 6053 });
+    discovery.emit('info', { host: 'kitchen-proxy', address: '10.0.0.21' });
+    discovery.emit('info', { host: 'no-address.local' });
+    jest.advanceTimersByTime(1000);
+
+    expect(await browsing).toEqual([
+      { nodeName: 'bedroom-proxy', address: '10.0.0.20', port: 6053 },
+      { nodeName: 'kitchen-proxy', address: '10.0.0.21', port: 6053 },
+    ]);
+    expect(discovery.destroy).toHaveBeenCalled();
+  });
+});
+
+describe(buildDiscoveredProxies.name, () => {
+  const bedroom = { nodeName: 'bedroom-proxy', address: '10.0.0.20', port: 6053 };
+  const kitchen = { nodeName: 'kitchen-proxy', address: '10.0.0.21', port: 6053 };
+
+  it('matches credentials by node name and falls back to the unnamed entry', () => {
+    const credentials = [credential(undefined, 'default-key'), credential('Bedroom-Proxy', 'bedroom-key')];
+    expect(buildDiscoveredProxies([bedroom, kitchen], credentials, [])).toEqual([
+      expect.objectContaining({ host: '10.0.0.20', expectedServerName: 'bedroom-proxy', encryptionKey: 'bedroom-key' }),
+      expect.objectContaining({ host: '10.0.0.21', expectedServerName: 'kitchen-proxy', encryptionKey: 'default-key' }),
+    ]);
+  });
+
+  it('skips nodes that are configured by host or name', () => {
+    const configured = [
+      { host: '10.0.0.20' } as BLEProxy,
+      { host: 'other.lan', expectedServerName: 'kitchen-proxy' } as BLEProxy,
+    ];
+    expect(buildDiscoveredProxies([bedroom, kitchen], [credential()], configured)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { Discovery, DiscoveryInfo } from '@2colors/esphome-native-api';
+import { logInfo, logWarn } from '@utils/logger';
+import { minutes } from '@utils/minutes';
+import { seconds } from '@utils/seconds';
+import { healthMonitor } from 'Diagnostics/HealthMonitor';
+import { BLEProxy } from './options';
+
+export type DiscoveredProxy = {
+  /** ESPHome node name: what the proxy presents as its server name. */
+  nodeName: string;
+  address: string;
+  port: number;
+};
+
+const BROWSE_TIMEOUT_MS = seconds(5);
+const WATCH_INTERVAL_MS = minutes(5);
+// mDNS answers get lost; only treat a proxy as gone after it missed this many browses in a row.
+const MISSED_BROWSES_BEFORE_GONE = 3;
+
+let watchTimer: NodeJS.Timeout | undefined;
+
+const toDiscoveredProxy = ({ host, address, port }: DiscoveryInfo): DiscoveredProxy | undefined => {
+  const nodeName = String(host ?? '').replace(/\.local\.?$/i, '');
+  if (!nodeName || !address) return;
+  return { nodeName, address, port: port || 6053 };
+};
+
+/**
+ * Browse `_esphomelib._tcp` for ESPHome nodes. Whether a node is a Bluetooth proxy is only known after connecting
+ * (its device info feature flags, checked by `connect`).
+ */
+export const browseProxies = (timeoutMs = BROWSE_TIMEOUT_MS) =>
+  new Promise<DiscoveredProxy[]>((resolve) => {
+    const found = new Map<string, DiscoveredProxy>();
+    const discovery = new Discovery({});
+    discovery.on('info', (info) => {
+      const proxy = toDiscoveredProxy(info);
+      if (proxy) found.set(proxy.nodeName, proxy);
+    });
+    try {
+      discovery.run();
+    } catch (error: any) {
+      logWarn('[ESPHome] mDNS discovery failed:', error?.message || error);
+    }
+    setTimeout(() => {
+      discovery.destroy();
+      resolve([...found.values()]);
+    }, timeoutMs);
+  });
+
+const isConfigured = (configured: BLEProxy[], { nodeName, address }: DiscoveredProxy) =>
+  configured.some(
+    ({ host, expectedServerName }) =>
+      host === address || [host, expectedServerName].some((name) => name?.toLowerCase() === nodeName.toLowerCase())
+  );
+
+/**
+ * Connection settings for discovered nodes: connect by address, verify the node name, and use the credentials of
+ * the `host: auto` entry for that node name (or the one without a name).
+ * Nodes that are also configured by host are left to that entry.
+ */
+export const buildDiscoveredProxies = (
+  discovered: DiscoveredProxy[],
+  credentials: BLEProxy[],
+  configured: BLEProxy[]
+): BLEProxy[] => {
+  return discovered
+    .filter((proxy) => !isConfigured(configured, proxy))
+    .map(({ nodeName, address, port }) => {
+      const credential =
+        credentials.find(({ expectedServerName }) => expectedServerName?.toLowerCase() === nodeName.toLowerCase()) ??
+        credentials.find(({ expectedServerName }) => !expectedServerName);
+      return {
+        host: address,
+        port: credential?.port ?? port,
+        password: credential?.password,
+        encryptionKey: credential?.encryptionKey,
+        expectedServerName: nodeName,
+      };
+    });
+};
+
+/**
+ * Re-browse periodically and request an ESPHome reconnect when proxies appear or disappear, so the next
+ * `connectToESPHome` picks up the new list. Replaces the previous watch. Proxies configured by host are left alone.
+ *
+ * `ignored` nodes (not proxies, or failed to connect) only count as new again after they dropped off mDNS once,
+ * so a node with e.g. a wrong key doesn't cause a reconnect every interval.
+ */
+export const watchProxies = (configured: BLEProxy[], connectedNodeNames: string[], ignoredNodeNames: string[]) => {
+  if (watchTimer) clearInterval(watchTimer);
+  const connected = connectedNodeNames.map((name) => name.toLowerCase());
+  const ignored = new Set(ignoredNodeNames.map((name) => name.toLowerCase()));
+  const missed = new Map<string, number>();
+
+  watchTimer = setInterval(async () => {
+    const found = (await browseProxies()).filter((proxy) => !isConfigured(configured, proxy));
+    const seen = new Set(found.map(({ nodeName }) => nodeName.toLowerCase()));
+    for (const name of ignored) if (!seen.has(name)) ignored.delete(name);
+    const appeared = [...seen].filter((name) => !connected.includes(name) && !ignored.has(name));
+    for (const name of connected) missed.set(name, seen.has(name) ? 0 : (missed.get(name) ?? 0) + 1);
+    const gone = connected.filter((name) => (missed.get(name) ?? 0) >= MISSED_BROWSES_BEFORE_GONE);
+    if (!appeared.length && !gone.length) return;
+
+    logInfo(
+      `[ESPHome] BLE proxies changed (new: ${appeared.join(', ') || 'none'}, gone: ${gone.join(', ') || 'none'})`
+    );
+    clearInterval(watchTimer);
+    watchTimer = undefined;
+    healthMonitor.requestRestart({ kind: 'ble', reason: 'BLE proxies changed (mDNS discovery)' });
+  }, WATCH_INTERVAL_MS);
+};
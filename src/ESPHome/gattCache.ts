@@ -0,0 +1,60 @@
+import { BluetoothGATTService } from '@2colors/esphome-native-api';
+import { Dictionary } from '@utils/Dictionary';
+import { logDebug, logInfo } from '@utils/logger';
+import { readFileSync, writeFileSync } from 'fs';
+
+// Persist GATT service tables per bed. Handles belong to the bed's firmware, not the proxy, so they are keyed by MAC.
+const GATT_CACHE_PATH = '/data/smartbedmqtt-gatt-cache.json';
+
+type GattCacheEntry = {
+  services: BluetoothGATTService[];
+  savedAt: number;
+};
+
+let cacheLoaded = false;
+let cache: Dictionary<GattCacheEntry> = {};
+
+const ensureCacheLoaded = () => {
+  if (cacheLoaded) return;
+  cacheLoaded = true;
+  try {
+    const json = JSON.parse(readFileSync(GATT_CACHE_PATH, 'utf8'));
+    if (json && typeof json === 'object') cache = json;
+    logDebug(`[BLE] Loaded GATT cache from ${GATT_CACHE_PATH} (count=${Object.keys(cache).length})`);
+  } catch {
+    // ok
+  }
+};
+
+const persistCacheNow = () => {
+  try {
+    writeFileSync(GATT_CACHE_PATH, JSON.stringify(cache), 'utf8');
+  } catch {
+    // ok
+  }
+};
+
+export const getCachedServices = (mac: string): BluetoothGATTService[] | undefined => {
+  ensureCacheLoaded();
+  const services = cache[mac]?.services;
+  return Array.isArray(services) && services.length > 0 ? services : undefined;
+};
+
+/** Store a discovered service table. Empty tables are never cached (they are a proxy-side failure). */
+export const saveServices = (mac: string, services: BluetoothGATTService[]) => {
+  if (!services.length) return;
+  ensureCacheLoaded();
+  const json = JSON.stringify(services);
+  if (JSON.stringify(cache[mac]?.services) === json) return;
+  cache[mac] = { services: JSON.parse(json), savedAt: Date.now() };
+  persistCacheNow();
+};
+
+/** Drop a bed's cached table so the next lookup runs service discovery again. */
+export const invalidateServices = (mac: string, reason: string) => {
+  ensureCacheLoaded();
+  if (!cache[mac]) return;
+  delete cache[mac];
+  persistCacheNow();
+  logInfo(`[BLE] Dropped cached GATT services for ${mac}: ${reason}`);
+};
@@ -0,0 +1,152 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import EventEmitter from 'events';
+import { mock } from 'jest-mock-extended';
+import { requestFromLeaseHolder, runLeaseOperation, serveLeaseRequests } from './leaseRequests';
+import { IBLEDevice } from './types/IBLEDevice';
+
+jest.mock('@utils/logger');
+jest.mock('Diagnostics/HealthMonitor', () => ({ healthMonitor: { requestRestart: jest.fn() } }));
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+const buildMQTT = () => {
+  const emitter = new EventEmitter();
+  const retained = new Map<string, string>();
+  return {
+    publish: jest.fn((topic: string, message: any, options?: { retain?: boolean }) => {
+      const payload = typeof message === 'string' ? message : JSON.stringify(message);
+      if (options?.retain) retained.set(topic, payload);
+      setTimeout(() => emitter.emit(topic, payload, topic));
+    }),
+    subscribe: (topic: string) => {
+      const message = retained.get(topic);
+      if (message !== undefined) setTimeout(() => emitter.emit(topic, message, topic));
+    },
+    on: (topic: string, listener: (message: string) => void) => emitter.on(topic, listener),
+  } as unknown as IMQTTConnection;
+};
+
+describe(runLeaseOperation.name, () => {
+  const bleDevice = mock<IBLEDevice>();
+  const request = { requestId: '1', from: 'dev', mac: 'aabbccddeeff' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    bleDevice.getCharacteristic.mockResolvedValue({ handle: 42 } as any);
+  });
+
+  it('writes hex values to the characteristic', async () => {
+    await runLeaseOperation(bleDevice, { ...request, op: 'write', service: 's', characteristic: 'c', value: '0a0b' });
+
+    expect(bleDevice.getCharacteristic).toHaveBeenCalledWith('s', 'c', false);
+    expect(bleDevice.writeCharacteristic).toHaveBeenCalledWith(42, new Uint8Array([10, 11]), true);
+  });
+
+  it('returns read values as hex', async () => {
+    bleDevice.readCharacteristic.mockResolvedValue(new Uint8Array([1, 255]));
+
+    const result = await runLeaseOperation(bleDevice, { ...request, op: 'read', service: 's', characteristic: 'c' });
+
+    expect(result).toEqual({ value: '01ff' });
+  });
+});
+
+describe(serveLeaseRequests.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+
+  const request = (mqtt: IMQTTConnection, host: string, op: string) => {
+    const responses: any[] = [];
+    mqtt.on(`smartbedmqtt/proxy/${host}/lease/response/dev`, (message: string) => responses.push(JSON.parse(message)));
+    mqtt.publish(`smartbedmqtt/proxy/${host}/lease/request`, { requestId: '1', from: 'dev', mac: 'aabbccddeeff', op });
+    return responses;
+  };
+
+  const run = async () => {
+    for (let i = 0; i < 5; i++) {
+      jest.advanceTimersByTime(10);
+      await flush();
+    }
+  };
+
+  it('answers requests with the result of the handler', async () => {
+    const mqtt = buildMQTT();
+    const handler = jest.fn().mockResolvedValue({ value: '01' });
+    serveLeaseRequests(mqtt, 'proxy-a', handler);
+
+    const responses = request(mqtt, 'proxy-a', 'read');
+    await run();
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ mac: 'aabbccddeeff', op: 'read' }));
+    expect(responses).toEqual([{ requestId: '1', success: true, value: '01' }]);
+  });
+
+  it('answers with the handler error', async () => {
+    const mqtt = buildMQTT();
+    serveLeaseRequests(
+      mqtt,
+      'proxy-b',
+      jest.fn().mockRejectedValue(new Error('Device aabbccddeeff is not supervised by this instance'))
+    );
+
+    const responses = request(mqtt, 'proxy-b', 'write');
+    await run();
+
+    expect(responses).toEqual([
+      { requestId: '1', success: false, error: 'Device aabbccddeeff is not supervised by this instance' },
+    ]);
+  });
+});
+
+describe(requestFromLeaseHolder.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+
+  const run = async <T>(promise: Promise<T>) => {
+    for (let i = 0; i < 10; i++) {
+      jest.advanceTimersByTime(500);
+      await flush();
+    }
+    return await promise;
+  };
+
+  it('runs the request on the lease holder', async () => {
+    const mqtt = buildMQTT();
+    mqtt.publish('smartbedmqtt/proxy/proxy-c/lease', { owner: 'prod', heartbeatAt: Date.now() }, { retain: true });
+    const handler = jest.fn().mockResolvedValue({ value: '01' });
+    serveLeaseRequests(mqtt, 'proxy-c', handler);
+
+    const response = await run(requestFromLeaseHolder(mqtt, 'proxy-c', { mac: 'aabbccddeeff', op: 'read' }));
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ mac: 'aabbccddeeff', op: 'read' }));
+    expect(response).toMatchObject({ success: true, value: '01' });
+  });
+
+  it('rejects with the holder error', async () => {
+    const mqtt = buildMQTT();
+    mqtt.publish('smartbedmqtt/proxy/proxy-d/lease', { owner: 'prod', heartbeatAt: Date.now() }, { retain: true });
+    serveLeaseRequests(mqtt, 'proxy-d', jest.fn().mockRejectedValue(new Error('Device aabbccddeeff not supervised')));
+
+    const response = run(requestFromLeaseHolder(mqtt, 'proxy-d', { mac: 'aabbccddeeff', op: 'pair' }));
+
+    await expect(response).rejects.toThrow('Device aabbccddeeff not supervised');
+  });
+
+  it('rejects when the holder does not answer', async () => {
+    const mqtt = buildMQTT();
+    mqtt.publish('smartbedmqtt/proxy/proxy-e/lease', { owner: 'prod', heartbeatAt: Date.now() }, { retain: true });
+
+    const response = requestFromLeaseHolder(mqtt, 'proxy-e', { mac: 'aabbccddeeff', op: 'pair' });
+    const rejected = expect(response).rejects.toThrow('Lease holder prod of proxy-e did not answer pair');
+    await run(Promise.resolve());
+    jest.advanceTimersByTime(45_000);
+
+    await rejected;
+  });
+
+  it('rejects when nobody holds the lease', async () => {
+    const response = run(requestFromLeaseHolder(buildMQTT(), 'proxy-f', { mac: 'aabbccddeeff', op: 'pair' }));
+
+    await expect(response).rejects.toThrow('Proxy proxy-f has no lease holder');
+  });
+});
@@ -0,0 +1,168 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { arrayToHexString } from '@utils/arrayToHexString';
+import { logDebug, logWarn } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+import { getInstanceId, getLeaseOwner, getLeaseTopic, watchProxyLease } from './proxyLease';
+import { IBLEDevice } from './types/IBLEDevice';
+
+// The bed's controller owns the link: it connects for these and disconnects when idle, as for its own commands.
+export type LeaseOperation = 'pair' | 'unpair' | 'services' | 'write' | 'read';
+
+/** A BLE operation one instance asks the holder of a proxy's lease to run for it. */
+export type LeaseRequest = {
+  requestId: string;
+  /** Instance id of the requester; the response goes to its response topic. */
+  from: string;
+  mac: string;
+  op: LeaseOperation;
+  service?: string;
+  characteristic?: string;
+  /** Bytes to write, hex. */
+  value?: string;
+  response?: boolean;
+};
+
+export type LeaseResponse = {
+  requestId: string;
+  success: boolean;
+  error?: string;
+  /** Bytes read, hex. */
+  value?: string;
+  services?: Array<{ uuid: string; characteristics: Array<{ uuid: string; properties: number }> }>;
+};
+
+export type LeaseRequestHandler = (request: LeaseRequest) => Promise<Omit<LeaseResponse, 'requestId' | 'success'>>;
+
+type PendingRequest = {
+  resolve: (response: LeaseResponse) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+};
+
+// Covers a connect on the holder's side, including its own retries.
+const REQUEST_TIMEOUT_MS = seconds(45);
+
+const requestTopic = (host: string) => `${getLeaseTopic(host)}/request`;
+const responseTopic = (host: string, instance: string) => `${getLeaseTopic(host)}/response/${instance}`;
+
+const handlers = new Map<string, LeaseRequestHandler>();
+const pending = new Map<string, PendingRequest>();
+const listening = new Set<string>();
+let nextRequestId = 1;
+
+/**
+ * Run a lease request against the holder's BLEDevice for the bed; called inside the bed's command queue.
+ */
+export const runLeaseOperation = async (
+  bleDevice: IBLEDevice,
+  { op, service = '', characteristic = '', value = '', response = true }: LeaseRequest
+): Promise<Omit<LeaseResponse, 'requestId' | 'success'>> => {
+  const getHandle = async () => {
+    const found = await bleDevice.getCharacteristic(service, characteristic, false);
+    if (!found) throw new Error(`Characteristic ${characteristic} not found in service ${service}`);
+    return found.handle;
+  };
+
+  switch (op) {
+    case 'pair':
+      await bleDevice.pair();
+      return {};
+    case 'unpair':
+      if (!bleDevice.unpair) throw new Error('Unpairing is not supported by this transport');
+      await bleDevice.unpair();
+      return {};
+    case 'services': {
+      const services = await bleDevice.getServices();
+      return {
+        services: services.map(({ uuid, characteristicsList }) => ({
+          uuid,
+          characteristics: characteristicsList.map(({ uuid, properties }) => ({ uuid, properties })),
+        })),
+      };
+    }
+    case 'write':
+      await bleDevice.writeCharacteristic(await getHandle(), new Uint8Array(Buffer.from(value, 'hex')), response);
+      return {};
+    case 'read':
+      return { value: arrayToHexString(await bleDevice.readCharacteristic(await getHandle())) };
+    default:
+      throw new Error(`Unknown lease operation ${op}`);
+  }
+};
+
+/**
+ * Answer lease requests for a proxy this instance holds the lease on. Replaces the previous handler
+ * (the ESPHome connection is rebuilt on every reconnect).
+ */
+export const serveLeaseRequests = (mqtt: IMQTTConnection, host: string, handler: LeaseRequestHandler) => {
+  const registered = handlers.has(host);
+  handlers.set(host, handler);
+  if (registered) return;
+
+  const topic = requestTopic(host);
+  mqtt.subscribe(topic);
+  mqtt.on(topic, async (message) => {
+    let request: LeaseRequest;
+    try {
+      request = JSON.parse(message);
+    } catch {
+      return logDebug(`[ESPHome] Ignoring non-JSON lease request for ${host}`);
+    }
+    if (!request?.requestId || !request.from || !request.mac) return;
+
+    const reply = (response: Omit<LeaseResponse, 'requestId'>) =>
+      mqtt.publish(responseTopic(host, request.from), { requestId: request.requestId, ...response });
+    try {
+      reply({ success: true, ...(await handlers.get(host)!(request)) });
+    } catch (error: any) {
+      logWarn(`[ESPHome] Lease request ${request.op} from ${request.from} for ${request.mac} failed:`, error?.message);
+      reply({ success: false, error: error?.message || String(error) });
+    }
+  });
+};
+
+const listenForResponses = (mqtt: IMQTTConnection, host: string) => {
+  if (listening.has(host)) return;
+  listening.add(host);
+  const topic = responseTopic(host, getInstanceId());
+  mqtt.subscribe(topic);
+  mqtt.on(topic, (message) => {
+    let response: LeaseResponse;
+    try {
+      response = JSON.parse(message);
+    } catch {
+      return;
+    }
+    const request = pending.get(response?.requestId);
+    if (!request) return;
+    pending.delete(response.requestId);
+    clearTimeout(request.timeout);
+    if (response.success) request.resolve(response);
+    else request.reject(new Error(`Lease holder failed: ${response.error || 'unknown error'}`));
+  });
+};
+
+/**
+ * Ask the instance holding a proxy's lease to run a BLE operation for this one, e.g. to write to a bed
+ * from a dev instance while production keeps the proxy (see LeaseDevice).
+ */
+export const requestFromLeaseHolder = async (
+  mqtt: IMQTTConnection,
+  host: string,
+  request: Omit<LeaseRequest, 'requestId' | 'from'>
+) => {
+  await watchProxyLease(mqtt, host);
+  const owner = getLeaseOwner(host);
+  if (!owner) throw new Error(`Proxy ${host} has no lease holder`);
+  listenForResponses(mqtt, host);
+
+  const requestId = `${Date.now().toString(36)}-${nextRequestId++}`;
+  return await new Promise<LeaseResponse>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pending.delete(requestId);
+      reject(new Error(`Lease holder ${owner} of ${host} did not answer ${request.op} for ${request.mac}`));
+    }, REQUEST_TIMEOUT_MS);
+    pending.set(requestId, { resolve, reject, timeout });
+    mqtt.publish(requestTopic(host), { ...request, requestId, from: getInstanceId() });
+  });
+};
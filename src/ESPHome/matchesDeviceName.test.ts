@@ -0,0 +1,26 @@
+import { matchesDeviceName } from './matchesDeviceName';
+
+const device = { name: 'KSBT04C060027642', mac: 'd2a33c0b1e4f' };
+
+describe(matchesDeviceName.name, () => {
+  it('matches the advertised name case-insensitively', () => {
+    expect(matchesDeviceName('ksbt04c060027642', device)).toBe(true);
+  });
+
+  it('matches the mac with or without separators', () => {
+    expect(matchesDeviceName('d2a33c0b1e4f', device)).toBe(true);
+    expect(matchesDeviceName('D2:A3:3C:0B:1E:4F', device)).toBe(true);
+  });
+
+  it('matches name prefixes and aliases contained in the name', () => {
+    expect(matchesDeviceName('KSBT', device)).toBe(true);
+    expect(matchesDeviceName('04c0600276', device)).toBe(true);
+    expect(matchesDeviceName('b04c06002764', device)).toBe(true);
+  });
+
+  it('does not match unrelated or empty identifiers', () => {
+    expect(matchesDeviceName('', device)).toBe(false);
+    expect(matchesDeviceName('RevCB_A1', device)).toBe(false);
+    expect(matchesDeviceName('aabbccddeeff', device)).toBe(false);
+  });
+});
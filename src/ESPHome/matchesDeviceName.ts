@@ -0,0 +1,38 @@
+/**
+ * Does a configured device identifier match an advertised BLE device?
+ *
+ * Matching strategy (battle-tested for BLE proxy + consumer devices):
+ * - Some devices advertise as "KSBT<mac>" (Keeson/Purple), while we often want to configure just "<mac>".
+ * - Names can have null padding and/or suffixes; nameMapper can normalize, but we still need tolerant matching.
+ * - We prefer exact matches, but allow safe derived matches (prefix/suffix vs mac) to avoid "can't find device"
+ *   despite the proxy seeing it.
+ */
+export const matchesDeviceName = (deviceName: string, { name, mac }: { name: string; mac: string }) => {
+  const dn = deviceName.toLowerCase().trim();
+  if (!dn) return false;
+  const lowerName = name.toLowerCase();
+
+  // Exact identifiers
+  if (dn === mac) return true;
+  if (dn === lowerName) return true;
+
+  // Normalize MAC-like tokens (e.g. "d2:a3:..." or "d2a33c...")
+  const dnMac = dn.replace(/[^a-f0-9]/g, '');
+  if (dnMac.length === 12 && dnMac === mac) return true;
+
+  // Prefix/suffix tolerance (e.g. "ksbt<...>" vs "<...>")
+  if (lowerName.startsWith(dn)) return true;
+  if (lowerName.endsWith(dn)) return true;
+  if (dn.endsWith(mac)) return true;
+
+  /**
+   * Project memory:
+   * Users often configure partial identifiers (aliases) like `b04c06002764`
+   * that are substrings of the advertised name `KSBT04C060027642`.
+   * Allow safe substring matching for reasonably-long tokens.
+   */
+  if (dn.length >= 6 && lowerName.includes(dn)) return true;
+  if (dn.length >= 7 && dn.startsWith('b') && lowerName.includes(dn.slice(1))) return true;
+
+  return false;
+};
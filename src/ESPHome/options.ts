@@ -9,15 +9,22 @@ export interface BLEProxy {
 }
 
 interface OptionsJson {
-  bleProxies: BLEProxy[];
+  /** Entries with `host: auto` discover proxies over mDNS (see discoverProxies). */
+  bleProxies?: BLEProxy[];
 }
 
 const options: OptionsJson = getRootOptions();
 
-export const getProxies = () => {
-  const proxies = options.bleProxies;
-  if (Array.isArray(proxies)) {
-    return proxies;
-  }
-  return [];
-};
+const AUTO = 'auto';
+const isAuto = ({ host }: BLEProxy) => host?.trim().toLowerCase() === AUTO;
+
+/** Proxies configured by host. */
+export const getProxies = () => (options.bleProxies ?? []).filter((proxy) => !isAuto(proxy));
+
+export const isProxyDiscoveryEnabled = () => (options.bleProxies ?? []).some(isAuto);
+
+/**
+ * Credentials for discovered proxies: `host: auto` entries, matched by node name (`expectedServerName`).
+ * An entry without `expectedServerName` applies to every discovered proxy without its own entry.
+ */
+export const getDiscoveredProxyCredentials = () => (options.bleProxies ?? []).filter(isAuto);
@@ -0,0 +1,64 @@
+import { parseRawAdvertisement, readAdvertisedName } from './parseRawAdvertisement';
+
+const record = (type: number, ...bytes: number[]) => [bytes.length + 1, type, ...bytes];
+const encode = (...records: number[][]) => new Uint8Array(records.flat());
+const text = (value: string) => [...Buffer.from(value)];
+
+describe(parseRawAdvertisement.name, () => {
+  it('parses names, service UUIDs, service data and manufacturer data', () => {
+    const data = encode(
+      record(0x01, 0x06),
+      record(0x08, ...text('Be')),
+      record(0x09, ...text('Bed 1')),
+      record(0x03, 0xe0, 0xff, 0x0a, 0x18),
+      record(0x16, 0x95, 0xfe, 0x01, 0x02),
+      record(0xff, 0x59, 0x00, 0xa1, 0xb2)
+    );
+
+    const advertisement = parseRawAdvertisement({ address: 0xaabbccddeeff, rssi: -60, addressType: 1, data });
+
+    expect(advertisement).toEqual({
+      name: 'Bed 1',
+      address: 0xaabbccddeeff,
+      rssi: -60,
+      addressType: 1,
+      serviceUuidsList: ['0000ffe0-0000-1000-8000-00805f9b34fb', '0000180a-0000-1000-8000-00805f9b34fb'],
+      serviceDataList: [
+        { uuid: '0000fe95-0000-1000-8000-00805f9b34fb', legacyDataList: new Uint8Array([1, 2]), data: 'AQI=' },
+      ],
+      manufacturerDataList: [{ uuid: '0x0059', legacyDataList: new Uint8Array([0xa1, 0xb2]), data: 'obI=' }],
+    });
+  });
+
+  it('parses 128-bit service UUIDs', () => {
+    const uuid = '62741523-52f9-8864-b1ab-3b3a8d65950b';
+    const bytes = [...Buffer.from(uuid.replace(/-/g, ''), 'hex')].reverse();
+
+    const { serviceUuidsList } = parseRawAdvertisement({
+      address: 1,
+      rssi: 0,
+      addressType: 0,
+      data: encode(record(0x07, ...bytes)),
+    });
+
+    expect(serviceUuidsList).toEqual([uuid]);
+  });
+
+  it('stops at truncated records', () => {
+    const data = new Uint8Array([...record(0x09, ...text('Bed')), 0x05, 0xff, 0x59]);
+
+    const advertisement = parseRawAdvertisement({ address: 1, rssi: 0, addressType: 0, data });
+
+    expect(advertisement.name).toBe('Bed');
+    expect(advertisement.manufacturerDataList).toEqual([]);
+  });
+});
+
+describe(readAdvertisedName.name, () => {
+  it('reads the longest advertised name', () => {
+    expect(readAdvertisedName(encode(record(0x09, ...text('KSBT04C06')), record(0x08, ...text('KSBT'))))).toBe(
+      'KSBT04C06'
+    );
+    expect(readAdvertisedName(encode(record(0x01, 0x06)))).toBe('');
+  });
+});
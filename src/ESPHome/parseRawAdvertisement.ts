@@ -0,0 +1,125 @@
+import { BLEAdvertisement, BLEData } from './types/BLEAdvertisement';
+
+/** One entry of a `BluetoothLERawAdvertisementsResponse` batch: the AD structures as the proxy sent them. */
+export type RawAdvertisement = {
+  address: number;
+  rssi: number;
+  addressType: number;
+  data: Uint8Array;
+};
+
+const AD_UUID16_PARTIAL = 0x02;
+const AD_UUID16_COMPLETE = 0x03;
+const AD_UUID32_PARTIAL = 0x04;
+const AD_UUID32_COMPLETE = 0x05;
+const AD_UUID128_PARTIAL = 0x06;
+const AD_UUID128_COMPLETE = 0x07;
+const AD_NAME_SHORT = 0x08;
+const AD_NAME_COMPLETE = 0x09;
+const AD_SERVICE_DATA16 = 0x16;
+const AD_SERVICE_DATA32 = 0x20;
+const AD_SERVICE_DATA128 = 0x21;
+const AD_MANUFACTURER_DATA = 0xff;
+
+const BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+const readUInt16 = (data: Uint8Array, offset: number) => data[offset] | (data[offset + 1] << 8);
+
+const readUInt32 = (data: Uint8Array, offset: number) =>
+  (readUInt16(data, offset) | (data[offset + 2] << 16)) + data[offset + 3] * 0x1000000;
+
+const readText = (data: Uint8Array, start: number, end: number) =>
+  Buffer.from(data.buffer, data.byteOffset + start, end - start).toString('utf8');
+
+const shortUuid = (data: Uint8Array, offset: number, size: 2 | 4) => {
+  const value = size === 2 ? readUInt16(data, offset) : readUInt32(data, offset);
+  return `${value.toString(16).padStart(8, '0')}${BASE_UUID_SUFFIX}`;
+};
+
+const longUuid = (data: Uint8Array, offset: number) => {
+  const hex = Buffer.from(data.slice(offset, offset + 16).reverse()).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const toBLEData = (uuid: string, data: Uint8Array, start: number, end: number): BLEData => {
+  const bytes = data.slice(start, end);
+  return { uuid, legacyDataList: bytes, data: Buffer.from(bytes).toString('base64') };
+};
+
+/**
+ * The advertised local name (the longer of the short and complete name), without parsing anything else.
+ * Used to filter raw advertisements before building a BLEAdvertisement for them.
+ */
+export const readAdvertisedName = (data: Uint8Array) => {
+  let nameStart = 0;
+  let nameEnd = 0;
+  for (let offset = 0; offset + 1 < data.length; ) {
+    const recordLength = data[offset];
+    if (!recordLength) break;
+    const type = data[offset + 1];
+    const start = offset + 2;
+    offset += recordLength + 1;
+    const end = Math.min(offset, data.length);
+    if ((type === AD_NAME_SHORT || type === AD_NAME_COMPLETE) && end - start > nameEnd - nameStart) {
+      nameStart = start;
+      nameEnd = end;
+    }
+  }
+  return nameEnd > nameStart ? readText(data, nameStart, nameEnd) : '';
+};
+
+/** Parse a raw advertisement into the shape ESPHome's parsed advertisements have. */
+export const parseRawAdvertisement = ({ address, rssi, addressType, data }: RawAdvertisement): BLEAdvertisement => {
+  const advertisement: BLEAdvertisement = {
+    name: readAdvertisedName(data),
+    address,
+    rssi,
+    addressType,
+    manufacturerDataList: [],
+    serviceDataList: [],
+    serviceUuidsList: [],
+  };
+  for (let offset = 0; offset + 1 < data.length; ) {
+    const recordLength = data[offset];
+    if (!recordLength) break;
+    const type = data[offset + 1];
+    const start = offset + 2;
+    const end = Math.min(offset + recordLength + 1, data.length);
+    offset += recordLength + 1;
+
+    switch (type) {
+      case AD_UUID16_PARTIAL:
+      case AD_UUID16_COMPLETE:
+        for (let i = start; i + 2 <= end; i += 2) advertisement.serviceUuidsList.push(shortUuid(data, i, 2));
+        break;
+      case AD_UUID32_PARTIAL:
+      case AD_UUID32_COMPLETE:
+        for (let i = start; i + 4 <= end; i += 4) advertisement.serviceUuidsList.push(shortUuid(data, i, 4));
+        break;
+      case AD_UUID128_PARTIAL:
+      case AD_UUID128_COMPLETE:
+        for (let i = start; i + 16 <= end; i += 16) advertisement.serviceUuidsList.push(longUuid(data, i));
+        break;
+      case AD_SERVICE_DATA16:
+        if (end - start >= 2)
+          advertisement.serviceDataList.push(toBLEData(shortUuid(data, start, 2), data, start + 2, end));
+        break;
+      case AD_SERVICE_DATA32:
+        if (end - start >= 4)
+          advertisement.serviceDataList.push(toBLEData(shortUuid(data, start, 4), data, start + 4, end));
+        break;
+      case AD_SERVICE_DATA128:
+        if (end - start >= 16)
+          advertisement.serviceDataList.push(toBLEData(longUuid(data, start), data, start + 16, end));
+        break;
+      case AD_MANUFACTURER_DATA:
+        if (end - start >= 2) {
+          // Company id, as in ESPHome's parsed advertisements.
+          const companyId = readUInt16(data, start).toString(16).padStart(4, '0');
+          advertisement.manufacturerDataList.push(toBLEData(`0x${companyId}`, data, start + 2, end));
+        }
+        break;
+    }
+  }
+  return advertisement;
+};
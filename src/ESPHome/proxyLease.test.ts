@@ -0,0 +1,118 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { healthMonitor } from 'Diagnostics/HealthMonitor';
+import EventEmitter from 'events';
+import {
+  acquireProxyLease,
+  getInstanceId,
+  getLeaseOwner,
+  LEASE_TTL_MS,
+  releaseProxyLease,
+  releaseProxyLeases,
+} from './proxyLease';
+
+jest.mock('@utils/logger');
+jest.mock('Diagnostics/HealthMonitor', () => ({ healthMonitor: { requestRestart: jest.fn() } }));
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+const advance = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 500) {
+    jest.advanceTimersByTime(500);
+    await flush();
+  }
+};
+
+// A broker with retained messages, delivering synchronously.
+const buildBroker = () => {
+  const emitter = new EventEmitter();
+  const retained = new Map<string, string>();
+  const publish = jest.fn((topic: string, message: any, options?: { retain?: boolean }) => {
+    const payload = typeof message === 'string' ? message : JSON.stringify(message);
+    if (options?.retain) payload ? retained.set(topic, payload) : retained.delete(topic);
+    emitter.emit(topic, payload, topic);
+  });
+  const mqtt = {
+    publish,
+    subscribe: (topic: string) => {
+      const message = retained.get(topic);
+      if (message !== undefined) setTimeout(() => emitter.emit(topic, message, topic));
+    },
+    on: (topic: string, listener: (message: string) => void) => emitter.on(topic, listener),
+  } as unknown as IMQTTConnection;
+  const leaseOf = (host: string) => retained.get(`smartbedmqtt/proxy/${host}/lease`);
+  const claimAs = (host: string, owner: string) =>
+    publish(`smartbedmqtt/proxy/${host}/lease`, { owner, heartbeatAt: Date.now() }, { retain: true });
+  return { mqtt, leaseOf, claimAs };
+};
+
+describe(acquireProxyLease.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+  beforeEach(() => jest.clearAllMocks());
+
+  it('claims a free proxy and keeps the lease alive', async () => {
+    const { mqtt, leaseOf } = buildBroker();
+    let held: boolean | undefined;
+    void acquireProxyLease(mqtt, 'proxy-a').then((result) => (held = result));
+
+    await advance(3_000);
+    expect(held).toBe(true);
+    expect(getLeaseOwner('proxy-a')).toBe(getInstanceId());
+
+    const { heartbeatAt } = JSON.parse(leaseOf('proxy-a')!);
+    await advance(30_000);
+    expect(JSON.parse(leaseOf('proxy-a')!).heartbeatAt).toBeGreaterThan(heartbeatAt);
+  });
+
+  it('waits for a lease held by another instance until it expires', async () => {
+    const { mqtt, claimAs } = buildBroker();
+    claimAs('proxy-b', 'other');
+
+    let skipped: boolean | undefined;
+    void acquireProxyLease(mqtt, 'proxy-b', false).then((result) => (skipped = result));
+    await advance(3_000);
+    expect(skipped).toBe(false);
+
+    let held = false;
+    void acquireProxyLease(mqtt, 'proxy-b').then((result) => (held = result));
+    await advance(LEASE_TTL_MS - 5_000);
+    expect(held).toBe(false);
+
+    await advance(10_000);
+    expect(held).toBe(true);
+  });
+
+  it('requests a reconnect when another instance takes the lease over', async () => {
+    const { mqtt, claimAs } = buildBroker();
+    void acquireProxyLease(mqtt, 'proxy-c');
+    await advance(3_000);
+
+    claimAs('proxy-c', 'other');
+
+    expect(healthMonitor.requestRestart).toHaveBeenCalledWith(expect.objectContaining({ kind: 'ble' }));
+    expect(getLeaseOwner('proxy-c')).toBe('other');
+  });
+
+  it('clears held leases on release', async () => {
+    const { mqtt, leaseOf } = buildBroker();
+    void acquireProxyLease(mqtt, 'proxy-d');
+    await advance(3_000);
+
+    releaseProxyLeases();
+
+    expect(leaseOf('proxy-d')).toBeUndefined();
+  });
+
+  it('clears a single lease without touching the others', async () => {
+    const { mqtt, leaseOf } = buildBroker();
+    void acquireProxyLease(mqtt, 'proxy-e');
+    void acquireProxyLease(mqtt, 'proxy-f');
+    await advance(3_000);
+
+    releaseProxyLease('proxy-e');
+
+    expect(leaseOf('proxy-e')).toBeUndefined();
+    expect(JSON.parse(leaseOf('proxy-f')!).owner).toBe(getInstanceId());
+  });
+});
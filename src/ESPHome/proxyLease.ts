@@ -0,0 +1,158 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { logInfo, logWarn, logWarnDedup } from '@utils/logger';
+import { minutes } from '@utils/minutes';
+import { seconds } from '@utils/seconds';
+import { wait } from '@utils/wait';
+import { healthMonitor } from 'Diagnostics/HealthMonitor';
+import { hostname } from 'os';
+
+/** Retained on `smartbedmqtt/proxy/<host>/lease` by the instance that may use the proxy. */
+export type ProxyLease = { owner: string; heartbeatAt: number };
+
+type LeaseState = {
+  mqtt: IMQTTConnection;
+  current?: ProxyLease;
+  held: boolean;
+  heartbeat?: NodeJS.Timeout;
+  /** Resolves once the retained lease (if any) had the chance to arrive. */
+  ready: Promise<void>;
+  waiters: Array<() => void>;
+};
+
+const HEARTBEAT_MS = seconds(30);
+/** A lease whose holder missed this many heartbeats is free to take over. */
+export const LEASE_TTL_MS = HEARTBEAT_MS * 3;
+// The broker sends the retained lease right after subscribing.
+const RETAINED_WAIT_MS = seconds(2);
+// Two instances claiming at the same time both see whichever claim the broker kept last.
+const CLAIM_SETTLE_MS = seconds(1);
+
+// Stable across restarts, so a restarted instance takes its own lease back right away.
+const instanceId = hostname();
+const leases = new Map<string, LeaseState>();
+
+/** Identifies this add-on instance in leases and lease requests. */
+export const getInstanceId = () => instanceId;
+
+export const getLeaseTopic = (host: string) => `smartbedmqtt/proxy/${host}/lease`;
+
+const isFresh = ({ heartbeatAt }: ProxyLease) => Date.now() - heartbeatAt < LEASE_TTL_MS;
+
+const parseLease = (message: string): ProxyLease | undefined => {
+  try {
+    const lease = JSON.parse(message);
+    if (typeof lease?.owner === 'string' && typeof lease?.heartbeatAt === 'number') return lease;
+  } catch {}
+  return undefined;
+};
+
+const publishLease = (host: string, state: LeaseState) =>
+  state.mqtt.publish(getLeaseTopic(host), { owner: instanceId, heartbeatAt: Date.now() }, { retain: true, qos: 1 });
+
+const stopHeartbeat = (state: LeaseState) => {
+  clearInterval(state.heartbeat);
+  state.heartbeat = undefined;
+  state.held = false;
+};
+
+const handleLease = (host: string, state: LeaseState, message: string) => {
+  state.current = parseLease(message);
+  for (const waiter of state.waiters.splice(0)) waiter();
+  if (!state.held) return;
+  // Cleared by hand while we hold it: put it back.
+  if (!state.current) return publishLease(host, state);
+  if (state.current.owner === instanceId) return;
+
+  // Only happens when our heartbeats stopped reaching the broker for a while: the proxy is someone else's now.
+  stopHeartbeat(state);
+  logWarn(`[ESPHome] Lease on proxy ${host} was taken over by instance ${state.current.owner}`);
+  healthMonitor.requestRestart({ kind: 'ble', reason: `Lease on proxy ${host} lost to ${state.current.owner}` });
+};
+
+const watchLease = (mqtt: IMQTTConnection, host: string) => {
+  let state = leases.get(host);
+  if (state && state.mqtt === mqtt) return state;
+  if (state) stopHeartbeat(state);
+  const watched: LeaseState = { mqtt, held: false, ready: wait(RETAINED_WAIT_MS), waiters: [] };
+  const topic = getLeaseTopic(host);
+  mqtt.subscribe(topic);
+  mqtt.on(topic, (message) => handleLease(host, watched, message));
+  leases.set(host, (state = watched));
+  return state;
+};
+
+const waitForLeaseChange = (state: LeaseState, timeoutMs: number) =>
+  new Promise<void>((resolve) => {
+    const timeout = setTimeout(resolve, timeoutMs);
+    state.waiters.push(() => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+
+/**
+ * Hold the lease on a proxy before connecting to it. Resolves `true` once held; with `waitForRelease: false`,
+ * resolves `false` right away when another instance holds it.
+ *
+ * Why:
+ * - A proxy only takes one API subscription. Two SmartbedMQTT instances (or a dev instance next to production)
+ *   knock each other off, and the cleanup in connectToESPHome can only avoid races within one instance.
+ *
+ * How:
+ * - The holder keeps a retained `{ owner, heartbeatAt }` on `smartbedmqtt/proxy/<host>/lease` and refreshes it
+ *   every 30s; a lease without a heartbeat for 90s is free to take over.
+ * - Competing claims are settled by the broker: the claim it keeps last wins, the other instance keeps waiting.
+ * - An instance that finds its lease taken over requests a reconnect, which skips the proxy until it's free again.
+ */
+export const acquireProxyLease = async (mqtt: IMQTTConnection, host: string, waitForRelease = true) => {
+  const state = watchLease(mqtt, host);
+  await state.ready;
+  while (!state.held) {
+    const { current } = state;
+    if (current && current.owner !== instanceId && isFresh(current)) {
+      if (!waitForRelease) return false;
+      logWarnDedup(
+        `esphome:lease:${host}`,
+        minutes(5),
+        `[ESPHome] Proxy ${host} is in use by SmartbedMQTT instance ${current.owner}, waiting for its lease`
+      );
+      await waitForLeaseChange(state, LEASE_TTL_MS);
+      continue;
+    }
+    publishLease(host, state);
+    await wait(CLAIM_SETTLE_MS);
+    if (state.current?.owner !== instanceId) continue;
+    state.held = true;
+    state.heartbeat = setInterval(() => publishLease(host, state), HEARTBEAT_MS);
+    logInfo(`[ESPHome] Holding the lease on proxy ${host} as instance ${instanceId}`);
+  }
+  return true;
+};
+
+/** Follow a proxy's lease without claiming it (to send lease requests to its holder). */
+export const watchProxyLease = async (mqtt: IMQTTConnection, host: string) => {
+  await watchLease(mqtt, host).ready;
+};
+
+/** The instance currently holding a proxy's lease, as far as this instance has seen. */
+export const getLeaseOwner = (host: string) => {
+  const current = leases.get(host)?.current;
+  return current && isFresh(current) ? current.owner : undefined;
+};
+
+const release = (host: string, state: LeaseState) => {
+  if (!state.held) return;
+  stopHeartbeat(state);
+  state.mqtt.publish(getLeaseTopic(host), '', { retain: true, qos: 1 });
+};
+
+/** Give up the lease on a proxy this instance won't use after all (e.g. it failed to connect). */
+export const releaseProxyLease = (host: string) => {
+  const state = leases.get(host);
+  if (state) release(host, state);
+};
+
+/** Give up every lease this instance holds (on shutdown), so other instances don't wait for them to expire. */
+export const releaseProxyLeases = () => {
+  for (const [host, state] of leases) release(host, state);
+};
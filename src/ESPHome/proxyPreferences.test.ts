@@ -0,0 +1,73 @@
+import { Connection } from '@2colors/esphome-native-api';
+import { writeFileSync } from 'fs';
+import {
+  findFailoverProxy,
+  rankProxies,
+  recordProxyFailure,
+  recordProxySighting,
+  recordProxySuccess,
+} from './proxyPreferences';
+import { BLEAdvertisement } from './types/BLEAdvertisement';
+
+jest.mock('@utils/logger');
+jest.mock('fs', () => ({
+  readFileSync: jest.fn(() => {
+    throw new Error('ENOENT');
+  }),
+  writeFileSync: jest.fn(),
+}));
+
+const buildConnection = (host: string, connected = true) => ({ host, connected } as Connection);
+const see = (mac: string, connection: Connection, rssi: number) =>
+  recordProxySighting(mac, { address: parseInt(mac, 16), rssi } as BLEAdvertisement, connection);
+const hosts = (mac: string) => rankProxies(mac).map(({ host }) => host);
+
+describe('proxyPreferences', () => {
+  const near = buildConnection('proxy-near');
+  const far = buildConnection('proxy-far');
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('ranks proxies by RSSI', () => {
+    see('000000000001', far, -90);
+    see('000000000001', near, -60);
+    expect(hosts('000000000001')).toEqual(['proxy-near', 'proxy-far']);
+  });
+
+  it('prefers a proxy that connected recently over a slightly stronger one', () => {
+    see('000000000002', near, -60);
+    see('000000000002', far, -75);
+    recordProxySuccess('000000000002', 'proxy-far');
+    expect(hosts('000000000002')).toEqual(['proxy-far', 'proxy-near']);
+  });
+
+  it('skips proxies that are disconnected', () => {
+    see('000000000003', buildConnection('proxy-down', false), -50);
+    see('000000000003', far, -90);
+    expect(hosts('000000000003')).toEqual(['proxy-far']);
+  });
+
+  it('fails over to another proxy that heard the bed after repeated failures', () => {
+    see('000000000004', near, -60);
+    see('000000000004', far, -85);
+    recordProxySuccess('000000000004', 'proxy-near');
+
+    recordProxyFailure('000000000004', 'proxy-near', new Error('timeout'));
+    expect(findFailoverProxy('000000000004', 'proxy-near')).toBeUndefined();
+
+    recordProxyFailure('000000000004', 'proxy-near', new Error('timeout'));
+    expect(findFailoverProxy('000000000004', 'proxy-near')?.host).toBe('proxy-far');
+    expect(writeFileSync).toHaveBeenCalledWith(
+      '/data/smartbedmqtt-proxy-preferences.json',
+      expect.stringContaining('"proxy-near"'),
+      'utf8'
+    );
+  });
+
+  it("doesn't fail over when no other proxy heard the bed", () => {
+    see('000000000005', near, -60);
+    recordProxyFailure('000000000005', 'proxy-near');
+    recordProxyFailure('000000000005', 'proxy-near');
+    expect(findFailoverProxy('000000000005', 'proxy-near')).toBeUndefined();
+  });
+});
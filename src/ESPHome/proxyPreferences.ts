@@ -0,0 +1,160 @@
+import { Connection } from '@2colors/esphome-native-api';
+import { Dictionary } from '@utils/Dictionary';
+import { logDebug } from '@utils/logger';
+import { minutes } from '@utils/minutes';
+import { readFileSync, writeFileSync } from 'fs';
+import { BLEAdvertisement } from './types/BLEAdvertisement';
+
+// Persist per-bed proxy history (success/failure based, RSSI alone is too noisy to pick a proxy).
+const PROXY_PREFS_PATH = '/data/smartbedmqtt-proxy-preferences.json';
+
+type ProxyStats = {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Smoothed RSSI of the bed as heard by this proxy. */
+  rssi?: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+};
+type ProxyPrefsFile = Dictionary<Dictionary<ProxyStats>>;
+
+export type ProxySighting = {
+  host: string;
+  rssi: number;
+  at: number;
+  advertisement: BLEAdvertisement;
+  connection: Connection;
+};
+
+/** A bed moves to another proxy after this many failed connects/writes in a row on its current one. */
+export const FAILOVER_AFTER_FAILURES = 2;
+// Only proxies that heard the bed recently are candidates; older sightings are dropped.
+const SIGHTING_MAX_AGE_MS = minutes(10);
+const SIGHTING_SWEEP_INTERVAL_MS = minutes(1);
+
+let prefsLoaded = false;
+let proxyPrefs: ProxyPrefsFile = {};
+// mac -> host -> latest advertisement; connections are per ESPHome session, so this is never persisted.
+const sightings = new Map<string, Map<string, ProxySighting>>();
+let lastSightingSweepAt = 0;
+const sightingListeners: Array<(mac: string, sighting: ProxySighting) => void> = [];
+
+// Devices that walked away (phones, other people's beds) would otherwise stay in `sightings` forever.
+const sweepSightings = (now: number) => {
+  if (now - lastSightingSweepAt < SIGHTING_SWEEP_INTERVAL_MS) return;
+  lastSightingSweepAt = now;
+  for (const [mac, byHost] of sightings) {
+    for (const [host, { at }] of byHost) if (now - at >= SIGHTING_MAX_AGE_MS) byHost.delete(host);
+    if (byHost.size === 0) sightings.delete(mac);
+  }
+};
+
+const ensurePrefsLoaded = () => {
+  if (prefsLoaded) return;
+  prefsLoaded = true;
+  try {
+    const json = JSON.parse(readFileSync(PROXY_PREFS_PATH, 'utf8'));
+    if (json && typeof json === 'object') proxyPrefs = json;
+    logDebug(`[ESPHome] Loaded proxy prefs from ${PROXY_PREFS_PATH}`);
+  } catch {
+    // ok
+  }
+};
+
+const persistPrefsNow = () => {
+  try {
+    writeFileSync(PROXY_PREFS_PATH, JSON.stringify(proxyPrefs, null, 2), 'utf8');
+  } catch {
+    // ok
+  }
+};
+
+export const getProxyStats = (mac: string, host: string): ProxyStats => {
+  ensurePrefsLoaded();
+  const bed = (proxyPrefs[mac] ??= {});
+  return (bed[host] ??= { successes: 0, failures: 0, consecutiveFailures: 0 });
+};
+
+/**
+ * Called for every advertisement from every proxy: keeps the latest one per bed and proxy, to build a
+ * BLEDevice on another proxy later.
+ */
+export const recordProxySighting = (mac: string, advertisement: BLEAdvertisement, connection: Connection) => {
+  const host = connection.host;
+  if (!host) return;
+  ensurePrefsLoaded();
+  const now = Date.now();
+  sweepSightings(now);
+  let byHost = sightings.get(mac);
+  if (!byHost) sightings.set(mac, (byHost = new Map()));
+  const { rssi } = advertisement;
+  const sighting = { host, rssi, at: now, advertisement, connection };
+  byHost.set(host, sighting);
+  for (const listener of sightingListeners) listener(mac, sighting);
+
+  // Only smooth RSSI for beds we have history for, not for every device near the proxy.
+  const stats = proxyPrefs[mac]?.[host];
+  if (stats) stats.rssi = stats.rssi === undefined ? rssi : Math.round(stats.rssi * 0.8 + rssi * 0.2);
+};
+
+/** Every sighting of a tracked bed, from every proxy (per-bed RSSI and last-seen sensors). */
+export const onProxySighting = (listener: (mac: string, sighting: ProxySighting) => void) => {
+  sightingListeners.push(listener);
+};
+
+export const recordProxySuccess = (mac: string, host: string) => {
+  const stats = getProxyStats(mac, host);
+  const wasFailing = stats.consecutiveFailures > 0 || !stats.lastSuccessAt;
+  stats.successes += 1;
+  stats.consecutiveFailures = 0;
+  stats.lastSuccessAt = Date.now();
+  stats.lastError = undefined;
+  stats.rssi ??= sightings.get(mac)?.get(host)?.rssi;
+  // Every write succeeds through here; only persist when the picture changes.
+  if (wasFailing) persistPrefsNow();
+};
+
+export const recordProxyFailure = (mac: string, host: string, error?: any) => {
+  const stats = getProxyStats(mac, host);
+  stats.failures += 1;
+  stats.consecutiveFailures += 1;
+  stats.lastFailureAt = Date.now();
+  if (error) stats.lastError = (error?.message || String(error)).slice(0, 500);
+  persistPrefsNow();
+};
+
+export const scoreProxy = (mac: string, host: string): number => {
+  const stats = getProxyStats(mac, host);
+  const sighting = sightings.get(mac)?.get(host);
+  let score = sighting?.rssi ?? stats.rssi ?? -100;
+  // If it worked recently, prefer it (RSSI is noisy).
+  if (stats.lastSuccessAt && Date.now() - stats.lastSuccessAt < minutes(6 * 60)) score += 30;
+  // Penalize consecutive failures heavily.
+  score -= Math.min(90, stats.consecutiveFailures * 30);
+  // Slight penalty if it's generally failing more than succeeding.
+  if (stats.failures > stats.successes + 2) score -= 15;
+  return score;
+};
+
+/**
+ * Proxies that recently heard the bed and are still connected, best first.
+ */
+export const rankProxies = (mac: string): ProxySighting[] => {
+  const now = Date.now();
+  return [...(sightings.get(mac)?.values() ?? [])]
+    .filter(({ at, connection }) => now - at < SIGHTING_MAX_AGE_MS && connection.connected)
+    .map((sighting) => ({ sighting, score: scoreProxy(mac, sighting.host) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ sighting }) => sighting);
+};
+
+/**
+ * The proxy a bed should move to after its connects/writes keep failing on `currentHost`, if any other proxy
+ * has heard it recently.
+ */
+export const findFailoverProxy = (mac: string, currentHost: string | undefined): ProxySighting | undefined => {
+  if (!currentHost || getProxyStats(mac, currentHost).consecutiveFailures < FAILOVER_AFTER_FAILURES) return;
+  return rankProxies(mac).find(({ host }) => host !== currentHost);
+};
@@ -0,0 +1,86 @@
+import { Connection } from '@2colors/esphome-native-api';
+import EventEmitter from 'events';
+import { registerSlotUser, scheduleConnect, trackProxySlots } from './proxySlots';
+
+jest.mock('@utils/logger');
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+const buildConnection = (host: string) => {
+  const emitter = Object.assign(new EventEmitter(), { host });
+  const connection = emitter as unknown as Connection;
+  trackProxySlots(connection);
+  const reportSlots = (free: number, allocated: number[]) =>
+    emitter.emit('message.BluetoothConnectionsFreeResponse', { free, limit: 3, allocatedList: allocated });
+  return { connection, reportSlots };
+};
+
+describe(scheduleConnect.name, () => {
+  beforeAll(() => jest.useFakeTimers());
+
+  it('runs one connect at a time per proxy', async () => {
+    const { connection } = buildConnection('proxy-a');
+    const order: string[] = [];
+    const connect = (name: string) => async () => {
+      order.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      order.push(`${name} end`);
+    };
+
+    const first = scheduleConnect(connection, 1, connect('first'));
+    const second = scheduleConnect(connection, 2, connect('second'));
+    for (let i = 0; i < 2; i++) {
+      await flush();
+      jest.advanceTimersByTime(100);
+    }
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first start', 'first end', 'second start', 'second end']);
+  });
+
+  it('evicts an idle device when no slot is free', async () => {
+    const { connection, reportSlots } = buildConnection('proxy-b');
+    reportSlots(0, [1, 2, 3]);
+    const busy = { canEvict: () => false, evict: jest.fn() };
+    const idle = {
+      canEvict: () => true,
+      evict: jest.fn(async () => {
+        reportSlots(1, [1, 2]);
+      }),
+    };
+    registerSlotUser('proxy-b', '000000000001', busy);
+    registerSlotUser('proxy-b', '000000000003', idle);
+    const connect = jest.fn();
+
+    await scheduleConnect(connection, 4, connect);
+
+    expect(busy.evict).not.toHaveBeenCalled();
+    expect(idle.evict).toHaveBeenCalled();
+    expect(connect).toHaveBeenCalled();
+  });
+
+  it('waits for a slot to free up before connecting', async () => {
+    const { connection, reportSlots } = buildConnection('proxy-c');
+    reportSlots(0, [1, 2, 3]);
+    const connect = jest.fn();
+
+    const connecting = scheduleConnect(connection, 4, connect);
+    await flush();
+    expect(connect).not.toHaveBeenCalled();
+
+    reportSlots(1, [1, 2]);
+    await connecting;
+    expect(connect).toHaveBeenCalled();
+  });
+
+  it("doesn't wait for a device that already holds a slot", async () => {
+    const { connection, reportSlots } = buildConnection('proxy-d');
+    reportSlots(0, [1, 2, 3]);
+    const connect = jest.fn();
+
+    await scheduleConnect(connection, 2, connect);
+    expect(connect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import { Connection } from '@2colors/esphome-native-api';
+import { Deferred } from '@utils/deferred';
+import { logDebug, logInfo, logWarn } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+
+export type ProxySlots = {
+  host: string;
+  /** From the proxy's BluetoothConnectionsFree messages; undefined until the first one arrives. */
+  free?: number;
+  limit?: number;
+  /** MACs (12 hex) currently holding a slot. */
+  allocated: string[];
+  /** Connects waiting for their turn on this proxy. */
+  queued: number;
+};
+
+/** A device connected through a proxy that can give its slot up when another device needs one. */
+export interface SlotUser {
+  canEvict(): boolean;
+  evict(): Promise<void>;
+}
+
+type SlotState = ProxySlots & {
+  queue: Promise<void>;
+  changed?: Deferred<void>;
+  users: Map<string, SlotUser>;
+};
+
+// How long a connect waits for a free slot before trying anyway (the proxy then rejects it and the caller retries).
+const SLOT_WAIT_MS = seconds(10);
+
+const states = new Map<string, SlotState>();
+const listeners: Array<(slots: ProxySlots) => void> = [];
+
+const toMac = (address: number | string) => Number(address).toString(16).padStart(12, '0');
+
+const getState = (host: string) => {
+  let state = states.get(host);
+  if (!state) {
+    state = { host, allocated: [], queued: 0, queue: Promise.resolve(), users: new Map() };
+    states.set(host, state);
+  }
+  return state;
+};
+
+const notify = (state: SlotState) => {
+  state.changed?.resolve();
+  state.changed = undefined;
+  const { host, free, limit, allocated, queued } = state;
+  for (const listener of listeners) listener({ host, free, limit, allocated, queued });
+};
+
+export const onProxySlotsChange = (listener: (slots: ProxySlots) => void) => {
+  listeners.push(listener);
+};
+
+/**
+ * Subscribe to the proxy's connection slot counts. Call once per API connection.
+ * Needs the patched `subscribeBluetoothConnectionsFreeService` (see patches/); without it scheduling still
+ * serializes connects per proxy, it just can't see the slot counts.
+ */
+export const trackProxySlots = (connection: Connection) => {
+  const host = connection.host;
+  if (!host) return;
+  connection.on('message.BluetoothConnectionsFreeResponse', (message: any) => {
+    const state = getState(host);
+    state.free = message?.free;
+    state.limit = message?.limit;
+    state.allocated = (message?.allocatedList ?? message?.allocated ?? []).filter(Number).map(toMac);
+    logDebug(`[ESPHome] BLE connections free on ${host}: free=${state.free} limit=${state.limit}`);
+    notify(state);
+  });
+  try {
+    connection.subscribeBluetoothConnectionsFreeService?.();
+  } catch (error: any) {
+    logWarn(`[ESPHome] Failed to subscribe to connection slots on ${host}:`, error?.message || error);
+  }
+};
+
+/**
+ * Register a device that holds (or will hold) a slot on `host`, so it can be evicted for another device.
+ * Returns the function to unregister it.
+ */
+export const registerSlotUser = (host: string | undefined, mac: string, user: SlotUser) => {
+  if (!host) return () => {};
+  const { users } = getState(host);
+  users.set(mac, user);
+  return () => {
+    if (users.get(mac) === user) users.delete(mac);
+  };
+};
+
+const waitForChange = (state: SlotState, ms: number) => {
+  const changed = (state.changed ??= new Deferred<void>());
+  let timeout: NodeJS.Timeout | undefined;
+  return Promise.race([changed, new Promise<void>((resolve) => (timeout = setTimeout(resolve, ms)))]).finally(() =>
+    clearTimeout(timeout)
+  );
+};
+
+const waitForSlot = async (state: SlotState, mac: string) => {
+  const hasSlot = () => state.free === undefined || state.free > 0 || state.allocated.includes(mac);
+  if (hasSlot()) return;
+
+  const deadline = Date.now() + SLOT_WAIT_MS;
+  const evictable = [...state.users.entries()].find(
+    ([userMac, user]) => userMac !== mac && state.allocated.includes(userMac) && user.canEvict()
+  );
+  if (evictable) {
+    const [userMac, user] = evictable;
+    logInfo(`[ESPHome] No free connection slot on ${state.host}; disconnecting idle device ${userMac} for ${mac}`);
+    await user.evict();
+  }
+  while (!hasSlot() && Date.now() < deadline) await waitForChange(state, deadline - Date.now());
+  if (!hasSlot()) logWarn(`[ESPHome] Still no free connection slot on ${state.host} for ${mac}; trying anyway`);
+};
+
+/**
+ * Run a BLE connect once the proxy has a free slot for it.
+ *
+ * Why:
+ * - Proxies have a few connection slots. Connecting while they are all taken (several beds, stayConnected beds)
+ *   ends in "Connection request ignored" and GATT_BUSY, which the per-device cooldowns only work around.
+ *
+ * How:
+ * - Connects are queued per proxy, so only one is in flight on a proxy at a time.
+ * - When no slot is free, an idle device that doesn't stay connected is disconnected first; otherwise the connect
+ *   waits for the proxy to report a free slot (bounded by SLOT_WAIT_MS).
+ */
+export const scheduleConnect = async <T>(connection: Connection, address: number, connect: () => Promise<T>) => {
+  const host = connection.host;
+  if (!host) return await connect();
+  const state = getState(host);
+  const mac = toMac(address);
+
+  state.queued += 1;
+  notify(state);
+  const run = async () => {
+    state.queued -= 1;
+    notify(state);
+    await waitForSlot(state, mac);
+    return await connect();
+  };
+  const op = state.queue.then(run);
+  state.queue = op.then(
+    () => undefined,
+    () => undefined
+  );
+  return await op;
+};
@@ -0,0 +1,81 @@
+import { BluetoothGATTService, Connection } from '@2colors/esphome-native-api';
+import { mocked } from '@utils/testHelpers';
+import { getCachedServices, invalidateServices } from '../gattCache';
+import { BLEAdvertisement } from './BLEAdvertisement';
+import { BLEDevice } from './BLEDevice';
+
+jest.mock('@utils/logger');
+jest.mock('fs', () => ({
+  readFileSync: jest.fn(() => {
+    throw new Error('ENOENT');
+  }),
+  writeFileSync: jest.fn(),
+}));
+jest.mock('../gattCache');
+jest.mock('../advertisementStream');
+jest.mock('../proxySlots');
+jest.mock('../bondState');
+
+const serviceUuid = '0000ffe5-0000-1000-8000-00805f9b34fb';
+const writeUuid = '0000ffe9-0000-1000-8000-00805f9b34fb';
+const cachedServices = [
+  { uuid: serviceUuid, handle: 1, characteristicsList: [{ uuid: writeUuid, handle: 2 }] },
+] as unknown as BluetoothGATTService[];
+
+describe(BLEDevice.name, () => {
+  let connection: {
+    host: string;
+    on: jest.Mock;
+    off: jest.Mock;
+    listBluetoothGATTServicesService: jest.Mock;
+    clearBluetoothDeviceCacheService: jest.Mock;
+  };
+  let subject: BLEDevice;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    connection = {
+      host: 'proxy',
+      on: jest.fn(),
+      off: jest.fn(),
+      listBluetoothGATTServicesService: jest.fn(),
+      clearBluetoothDeviceCacheService: jest.fn(),
+    };
+    mocked(getCachedServices).mockReturnValue(cachedServices);
+    subject = new BLEDevice(
+      'bed',
+      { address: 0x112233445566, rssi: -60 } as BLEAdvertisement,
+      connection as unknown as Connection
+    );
+  });
+
+  it('finds characteristics in the cached service table without discovery', async () => {
+    expect(await subject.getCharacteristic(serviceUuid, writeUuid)).toEqual({ uuid: writeUuid, handle: 2 });
+    expect(connection.listBluetoothGATTServicesService).not.toHaveBeenCalled();
+  });
+
+  it('keeps the cached table when an optional characteristic is missing', async () => {
+    expect(await subject.getCharacteristic(serviceUuid, 'missing', false)).toBeUndefined();
+    expect(await subject.getCharacteristic('missing-service', writeUuid, false)).toBeUndefined();
+    expect(invalidateServices).not.toHaveBeenCalled();
+    expect(connection.listBluetoothGATTServicesService).not.toHaveBeenCalled();
+  });
+
+  it('rediscovers when a required service is missing from the cached table', async () => {
+    mocked(invalidateServices).mockImplementation(() => mocked(getCachedServices).mockReturnValue(undefined));
+    connection.listBluetoothGATTServicesService.mockResolvedValue({ address: 0, servicesList: cachedServices });
+    await subject.getCharacteristic('missing-service', writeUuid);
+    expect(invalidateServices).toHaveBeenCalledWith('112233445566', expect.stringContaining('missing-service'));
+    expect(connection.listBluetoothGATTServicesService).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the cached table only when the proxy cleared its cache', async () => {
+    connection.clearBluetoothDeviceCacheService.mockResolvedValueOnce({ address: 0, success: false, error: 133 });
+    await expect(subject.clearCache()).rejects.toThrow('proxy reported cache clearing error 133');
+    expect(invalidateServices).not.toHaveBeenCalled();
+
+    connection.clearBluetoothDeviceCacheService.mockResolvedValueOnce({ address: 0, success: true, error: 0 });
+    await subject.clearCache();
+    expect(invalidateServices).toHaveBeenCalledWith('112233445566', 'BLE cache cleared');
+  });
+});
@@ -1,10 +1,15 @@
-import { BluetoothGATTService, Connection } from '@2colors/esphome-native-api';
+import { BluetoothGATTCharacteristic, BluetoothGATTService, Connection } from '@2colors/esphome-native-api';
 import { Dictionary } from '@utils/Dictionary';
 import { BLEAdvertisement } from './BLEAdvertisement';
 import { BLEDeviceInfo } from './BLEDeviceInfo';
+import { readDeviceInfo } from './readDeviceInfo';
 import { IBLEDevice } from './IBLEDevice';
 import { logDebug, logInfo, logWarn } from '@utils/logger';
 import { readFileSync, writeFileSync } from 'fs';
+import { scheduleConnect } from '../proxySlots';
+import { getCachedServices, invalidateServices, saveServices } from '../gattCache';
+import { restorePairing } from '../bondState';
+import { addAdvertisementConsumer } from '../advertisementStream';
 
 // Static registry to track active BLEDevice instances by address+connection
 // This allows us to clean up old listeners when new instances are created
@@ -180,16 +185,21 @@ function getDeviceKey(connection: Connection, address: number): DeviceKey {
 
 export class BLEDevice implements IBLEDevice {
   private connected = false;
-  private paired = false;
+  /** Pairing was requested (and not undone by unpair): re-pair after every reconnect. */
+  private pairingRequested = false;
 
   private servicesList?: BluetoothGATTService[];
   private serviceCache: Dictionary<BluetoothGATTService | null> = {};
+  // Set while servicesList came from the persisted GATT cache and no write has confirmed its handles yet.
+  private cachedServicesUnverified = false;
 
   private deviceInfo?: BLEDeviceInfo;
   
   // Store listener reference for cleanup - use bound method for stable reference
   private connectionResponseListener: (data: { address: number; connected: boolean }) => void;
   private notifyDataListeners: Map<number, (message: any) => void> = new Map();
+  private advertisementListeners: Array<() => void> = [];
+  private disconnectListeners: Array<() => void> = [];
   private deviceKey: DeviceKey;
   
   // Instance-local mutex (kept as a secondary guard; global mutex is primary)
@@ -274,9 +284,10 @@ export class BLEDevice implements IBLEDevice {
     // errors like GATT_BUSY (ConfigureMTU busy) and spurious disconnects.
     this.connected = data.connected;
     if (!data.connected) {
-      // If we got disconnected, clear cached services so the next explicit connect/retry will re-discover.
+      // If we got disconnected, drop the services so the next lookup reloads them (GATT cache or discovery).
       this.servicesList = undefined;
       this.serviceCache = {};
+      for (const listener of this.disconnectListeners) listener();
     }
   };
   
@@ -292,6 +303,9 @@ export class BLEDevice implements IBLEDevice {
     }
     this.notifyDataListeners.clear();
 
+    for (const stop of this.advertisementListeners) stop();
+    this.advertisementListeners = [];
+
     // Remove proxy log handler if present
     try {
       const h = (this as any).__proxyLogHandler;
@@ -316,8 +330,22 @@ export class BLEDevice implements IBLEDevice {
   }
 
   pair = async () => {
-    const { paired } = await this.connection.pairBluetoothDeviceService(this.address);
-    this.paired = paired;
+    this.pairingRequested = true;
+    const { paired, error } = await this.connection.pairBluetoothDeviceService(this.address);
+    if (!paired) throw new Error(`proxy reported pairing error ${error}`);
+  };
+
+  unpair = async () => {
+    this.pairingRequested = false;
+    const { success, error } = await this.connection.unpairBluetoothDeviceService(this.address);
+    if (!success) throw new Error(`proxy reported unpairing error ${error}`);
+  };
+
+  clearCache = async () => {
+    if (!this.connection.clearBluetoothDeviceCacheService) throw new Error('proxy does not support clearing the cache');
+    const { success, error } = await this.connection.clearBluetoothDeviceCacheService(this.address);
+    if (!success) throw new Error(`proxy reported cache clearing error ${error}`);
+    this.dropCachedServices('BLE cache cleared');
   };
 
   connect = async () => {
@@ -335,7 +363,8 @@ export class BLEDevice implements IBLEDevice {
     // Instance mutex: if already connecting, return the existing promise
     if (this.connectingPromise) return this.connectingPromise;
 
-    const connectPromise = (async () => {
+    // Waits for a free connection slot on the proxy (see proxySlots).
+    const connectPromise = scheduleConnect(this.connection, this.address, async () => {
       const connectStartedAt = Date.now();
       try {
         // If the ESPHome API client is in the middle of an internal reconnect, wait briefly so
@@ -579,7 +608,8 @@ export class BLEDevice implements IBLEDevice {
           lastConnectedAt: Date.now(),
         };
         logInfo(`[BLE] Successfully connected to device ${this.name} (${this.mac}) (mtu=${mtu ?? 'n/a'})`);
-        if (this.paired) await this.pair();
+        // A refused re-pair is only recorded: the explicit Pair button and brand setup stay strict.
+        if (this.pairingRequested) await restorePairing(this);
       } catch (error: any) {
         const msg =
           error?.message ||
@@ -625,7 +655,7 @@ export class BLEDevice implements IBLEDevice {
         // Clear the promise once connection succeeds or fails
         this.connectingPromise = null;
       }
-    })();
+    });
 
     this.connectingPromise = connectPromise;
     connectInFlightByDeviceKey.set(this.deviceKey, connectPromise);
@@ -653,10 +683,42 @@ export class BLEDevice implements IBLEDevice {
   };
 
   writeCharacteristic = async (handle: number, bytes: Uint8Array, response = true) => {
-    await this.connection.writeBluetoothGATTCharacteristicService(this.address, handle, bytes, response);
+    try {
+      await this.connection.writeBluetoothGATTCharacteristicService(this.address, handle, bytes, response);
+      this.cachedServicesUnverified = false;
+    } catch (error: any) {
+      // A failing write through cached handles may mean the bed's firmware changed: rediscover next time.
+      if (this.cachedServicesUnverified) this.dropCachedServices(`write to handle ${handle} failed`);
+      throw error;
+    }
   };
 
+  /**
+   * GATT service table for the device.
+   *
+   * Why:
+   * - Service discovery through a proxy is slow and sometimes times out or comes back empty, which is what the
+   *   without-cache/cache-clear fallbacks below (and Keeson's services-timeout failover) work around.
+   *
+   * How:
+   * - A discovered table is persisted per MAC (see gattCache) and reused after reconnects and restarts.
+   * - The cached table is dropped and rediscovered when a required service is missing from it or a write through
+   *   it fails.
+   */
   getServices = async () => {
+    if (!this.servicesList) {
+      const cached = getCachedServices(this.mac);
+      if (cached) {
+        this.servicesList = cached;
+        this.cachedServicesUnverified = true;
+        (this as any).__bleDiag = {
+          ...(this as any).__bleDiag,
+          lastServicesFromCache: true,
+          lastServicesCount: cached.length,
+        };
+        logDebug(`[BLE] Using cached GATT services for ${this.name} (${this.mac}) (services=${cached.length})`);
+      }
+    }
     if (!this.servicesList) {
       const startedAt = Date.now();
       try {
@@ -667,6 +729,7 @@ export class BLEDevice implements IBLEDevice {
         this.servicesList = servicesList;
         (this as any).__bleDiag = {
           ...(this as any).__bleDiag,
+          lastServicesFromCache: false,
           lastServicesDurationMs: Date.now() - startedAt,
           lastServicesCount: servicesList.length,
           lastServicesAt: Date.now(),
@@ -769,6 +832,7 @@ export class BLEDevice implements IBLEDevice {
             logInfo(
               `[BLE] GATT services recovered after cache clear for ${this.name} (${this.mac}) (services=${servicesList.length})`
             );
+            saveServices(this.mac, servicesList);
             return this.servicesList;
           } catch (recoveryError: any) {
             const msg = recoveryError?.message || String(recoveryError);
@@ -778,12 +842,31 @@ export class BLEDevice implements IBLEDevice {
         }
         throw error;
       }
+      saveServices(this.mac, this.servicesList);
     }
     return this.servicesList;
   };
 
-  getCharacteristic = async (serviceUuid: string, characteristicUuid: string, writeLogs = true) => {
+  private dropCachedServices = (reason: string) => {
+    invalidateServices(this.mac, reason);
+    this.servicesList = undefined;
+    this.serviceCache = {};
+    this.cachedServicesUnverified = false;
+  };
+
+  getCharacteristic = async (
+    serviceUuid: string,
+    characteristicUuid: string,
+    writeLogs = true
+  ): Promise<BluetoothGATTCharacteristic | undefined> => {
     const service = await this.getService(serviceUuid);
+    // A required service missing from a cached table means the table is stale. Optional probes (`writeLogs` false,
+    // e.g. candidate services or optional feedback characteristics) miss by design, so they never drop it.
+    if (!service && writeLogs && this.cachedServicesUnverified) {
+      this.dropCachedServices(`service ${serviceUuid} not found`);
+      return await this.getCharacteristic(serviceUuid, characteristicUuid, writeLogs);
+    }
+    const characteristic = service?.characteristicsList?.find((c) => c.uuid === characteristicUuid);
 
     if (!service) {
       if (writeLogs) {
@@ -798,7 +881,6 @@ export class BLEDevice implements IBLEDevice {
       return undefined;
     }
 
-    const characteristic = service?.characteristicsList?.find((c) => c.uuid === characteristicUuid);
     if (!characteristic) {
       writeLogs &&
         logWarn(
@@ -830,6 +912,22 @@ export class BLEDevice implements IBLEDevice {
     await this.connection.notifyBluetoothGATTCharacteristicService(this.address, handle);
   };
 
+  /**
+   * Advertisements of this device seen by its proxy (used for availability). Keeps the proxy's advertisement
+   * subscription open while listening.
+   */
+  onAdvertisement = (listener: (advertisement: BLEAdvertisement) => void) => {
+    const stop = addAdvertisementConsumer(this.connection, {
+      accepts: (address) => address === this.address,
+      onAdvertisement: listener,
+    });
+    this.advertisementListeners.push(stop);
+  };
+
+  onDisconnect = (listener: () => void) => {
+    this.disconnectListeners.push(listener);
+  };
+
   readCharacteristic = async (handle: number) => {
     const response = await this.connection.readBluetoothGATTCharacteristicService(this.address, handle);
     return new Uint8Array([...Buffer.from(response.data, 'base64')]);
@@ -838,27 +936,7 @@ export class BLEDevice implements IBLEDevice {
   getDeviceInfo = async () => {
     if (this.deviceInfo) return this.deviceInfo;
     const services = await this.getServices();
-    const service = services.find((s) => s.uuid === '0000180a-0000-1000-8000-00805f9b34fb');
-    if (!service) return undefined;
-
-    const deviceInfo: BLEDeviceInfo = (this.deviceInfo = {});
-    const setters: Dictionary<(value: string) => void> = {
-      '00002a24-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.modelNumber = value),
-      '00002a25-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.serialNumber = value),
-      '00002a26-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.firmwareRevision = value),
-      '00002a27-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.hardwareRevision = value),
-      '00002a28-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.softwareRevision = value),
-      '00002a29-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.manufacturerName = value),
-    };
-    for (const { uuid, handle } of service.characteristicsList) {
-      const setter = setters[uuid];
-      if (!setter) continue;
-      try {
-        const value = await this.readCharacteristic(handle);
-        setter(Buffer.from(value).toString());
-      } catch {}
-    }
-
+    this.deviceInfo = await readDeviceInfo(services, this.readCharacteristic);
     return this.deviceInfo;
   };
 
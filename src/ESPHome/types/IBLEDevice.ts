@@ -7,7 +7,11 @@ export interface IBLEDevice {
   mac: string;
   address: number;
   advertisement: BLEAdvertisement;
+  /** Pair (bond) with the connected device; rejects when the device or proxy refuses. */
   pair(): Promise<void>;
+  unpair?(): Promise<void>;
+  /** Drop the transport's cached GATT table for the device. */
+  clearCache?(): Promise<void>;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   writeCharacteristic(handle: number, bytes: Uint8Array, response?: boolean): Promise<void>;
@@ -20,4 +24,7 @@ export interface IBLEDevice {
   subscribeToCharacteristic(handle: number, notify: (data: Uint8Array) => void): Promise<void>;
   readCharacteristic(handle: number): Promise<Uint8Array>;
   getDeviceInfo(): Promise<BLEDeviceInfo | undefined>;
+  onAdvertisement(listener: (advertisement: BLEAdvertisement) => void): void;
+  /** The BLE link to the device dropped (not called for our own `disconnect()`). */
+  onDisconnect?(listener: () => void): void;
 }
@@ -0,0 +1,86 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import EventEmitter from 'events';
+import { mock } from 'jest-mock-extended';
+import { runLeaseOperation, serveLeaseRequests } from '../leaseRequests';
+import { IBLEDevice } from './IBLEDevice';
+import { findLeasedDevices } from './LeaseDevice';
+
+jest.mock('@utils/logger');
+jest.mock('Diagnostics/HealthMonitor', () => ({ healthMonitor: { requestRestart: jest.fn() } }));
+
+const SERVICE = '0000ffe5-0000-1000-8000-00805f9b34fb';
+const WRITE = '0000ffe9-0000-1000-8000-00805f9b34fb';
+
+// A broker with retained messages, delivering on the next tick.
+const buildMQTT = () => {
+  const emitter = new EventEmitter();
+  const retained = new Map<string, string>();
+  return {
+    publish: jest.fn((topic: string, message: any, options?: { retain?: boolean }) => {
+      const payload = typeof message === 'string' ? message : JSON.stringify(message);
+      if (options?.retain) retained.set(topic, payload);
+      setTimeout(() => emitter.emit(topic, payload, topic));
+    }),
+    subscribe: (topic: string) => {
+      const message = retained.get(topic);
+      if (message !== undefined) setTimeout(() => emitter.emit(topic, message, topic));
+    },
+    on: (topic: string, listener: (message: string) => void) => emitter.on(topic, listener),
+  } as unknown as IMQTTConnection;
+};
+
+const run = async <T>(promise: Promise<T>) => {
+  for (let i = 0; i < 20; i++) {
+    jest.advanceTimersByTime(500);
+    for (let j = 0; j < 10; j++) await Promise.resolve();
+  }
+  return await promise;
+};
+
+describe(findLeasedDevices.name, () => {
+  const holderDevice = mock<IBLEDevice>();
+  let mqtt: IMQTTConnection;
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mqtt = buildMQTT();
+    holderDevice.getServices.mockResolvedValue([
+      {
+        uuid: SERVICE,
+        handle: 10,
+        characteristicsList: [{ uuid: WRITE, handle: 11, properties: 8, descriptorsList: [] }],
+      },
+    ]);
+    holderDevice.getCharacteristic.mockResolvedValue({ uuid: WRITE, handle: 11, properties: 8, descriptorsList: [] });
+  });
+
+  const serve = (host: string, supervised: string[]) => {
+    mqtt.publish(`smartbedmqtt/proxy/${host}/lease`, { owner: 'prod', heartbeatAt: Date.now() }, { retain: true });
+    serveLeaseRequests(mqtt, host, async (request) => {
+      if (!supervised.includes(request.mac)) throw new Error(`Device ${request.mac} is not supervised`);
+      return await runLeaseOperation(holderDevice, request);
+    });
+  };
+
+  it('writes to the bed through the holder that supervises it', async () => {
+    serve('proxy-a', []);
+    serve('proxy-b', ['aabbccddeeff']);
+
+    const [bleDevice] = await run(findLeasedDevices(mqtt, ['proxy-a', 'proxy-b'], ['AA:BB:CC:DD:EE:FF']));
+    const characteristic = await run(bleDevice.getCharacteristic(SERVICE, WRITE));
+    await run(bleDevice.writeCharacteristic(characteristic!.handle, new Uint8Array([0x40, 0x02])));
+
+    expect(bleDevice.mac).toBe('aabbccddeeff');
+    expect(holderDevice.getCharacteristic).toHaveBeenCalledWith(SERVICE, WRITE, false);
+    expect(holderDevice.writeCharacteristic).toHaveBeenCalledWith(11, new Uint8Array([0x40, 0x02]), true);
+  });
+
+  it('only looks up beds configured by MAC', async () => {
+    serve('proxy-c', ['aabbccddeeff']);
+
+    expect(await run(findLeasedDevices(mqtt, ['proxy-c'], ['Bed']))).toEqual([]);
+    expect(mqtt.publish).not.toHaveBeenCalledWith('smartbedmqtt/proxy/proxy-c/lease/request', expect.anything());
+  });
+});
@@ -0,0 +1,137 @@
+import { BluetoothGATTCharacteristic, BluetoothGATTService } from '@2colors/esphome-native-api';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { arrayToHexString } from '@utils/arrayToHexString';
+import { logDebug, logInfo, logWarn } from '@utils/logger';
+import { LeaseRequest, requestFromLeaseHolder } from '../leaseRequests';
+import { BLEAdvertisement } from './BLEAdvertisement';
+import { IBLEDevice } from './IBLEDevice';
+
+type CharacteristicRef = { service: string; characteristic: string };
+
+const MAC_PATTERN = /^[0-9a-f]{12}$/;
+
+/**
+ * A bed behind a proxy leased by another instance, reached through that instance's lease requests.
+ *
+ * The holder runs each operation through the bed's command queue, which connects and disconnects as for its own
+ * commands, and doesn't forward notifications. So:
+ * - `connect`/`disconnect` are no-ops, and `subscribeToCharacteristic` rejects.
+ * - Handles are numbered locally from the holder's service listing and mapped back to UUIDs for each request.
+ */
+export class LeaseDevice implements IBLEDevice {
+  public address: number;
+  public advertisement: BLEAdvertisement;
+  private servicesList?: BluetoothGATTService[];
+  private characteristics = new Map<number, CharacteristicRef>();
+
+  constructor(public name: string, public mac: string, private host: string, private mqtt: IMQTTConnection) {
+    this.address = parseInt(mac, 16);
+    // Nothing is heard from the bed here: the holder's proxy has the advertisement subscription.
+    this.advertisement = {
+      name,
+      address: this.address,
+      rssi: 0,
+      manufacturerDataList: [],
+      serviceDataList: [],
+      serviceUuidsList: [],
+      addressType: 0,
+    };
+  }
+
+  pair = async () => {
+    await this.request({ op: 'pair' });
+  };
+
+  unpair = async () => {
+    await this.request({ op: 'unpair' });
+  };
+
+  connect = async () => {};
+
+  disconnect = async () => {};
+
+  writeCharacteristic = async (handle: number, bytes: Uint8Array, response = true) => {
+    await this.request({ op: 'write', ...this.lookup(handle), value: arrayToHexString(bytes), response });
+  };
+
+  readCharacteristic = async (handle: number) => {
+    const { value = '' } = await this.request({ op: 'read', ...this.lookup(handle) });
+    return new Uint8Array(Buffer.from(value, 'hex'));
+  };
+
+  subscribeToCharacteristic = async () => {
+    throw new Error(`Notifications from ${this.name} aren't forwarded by the lease holder of ${this.host}`);
+  };
+
+  getServices = async () => {
+    if (this.servicesList) return this.servicesList;
+    const { services = [] } = await this.request({ op: 'services' });
+    let nextHandle = 1;
+    this.servicesList = services.map(({ uuid: service, characteristics }) => ({
+      uuid: service,
+      handle: nextHandle++,
+      characteristicsList: characteristics.map(({ uuid: characteristic, properties }) => {
+        const handle = nextHandle++;
+        this.characteristics.set(handle, { service, characteristic });
+        return { uuid: characteristic, handle, properties, descriptorsList: [] };
+      }),
+    }));
+    return this.servicesList;
+  };
+
+  getCharacteristic = async (
+    serviceUuid: string,
+    characteristicUuid: string,
+    writeLogs = true
+  ): Promise<BluetoothGATTCharacteristic | undefined> => {
+    const services = await this.getServices();
+    const service = services.find(({ uuid }) => uuid === serviceUuid);
+    const characteristic = service?.characteristicsList.find(({ uuid }) => uuid === characteristicUuid);
+    if (!characteristic && writeLogs) {
+      logWarn(
+        `[ESPHome] Missing expected characteristic on ${this.name} (${this.mac}) ` +
+          `service=${serviceUuid} expectedChar=${characteristicUuid}`
+      );
+    }
+    return characteristic;
+  };
+
+  /** Device information characteristics aren't probed through the lease holder. */
+  getDeviceInfo = async () => undefined;
+
+  onAdvertisement = () => {};
+
+  private request = (request: Omit<LeaseRequest, 'requestId' | 'from' | 'mac'>) =>
+    requestFromLeaseHolder(this.mqtt, this.host, { ...request, mac: this.mac });
+
+  private lookup(handle: number): CharacteristicRef {
+    const ref = this.characteristics.get(handle);
+    if (!ref) throw new Error(`Unknown handle 0x${handle.toString(16)} for ${this.name} (${this.mac})`);
+    return ref;
+  }
+}
+
+/**
+ * Find beds configured by MAC behind proxies leased by other instances: the holder that supervises a bed answers
+ * its service listing, the others refuse.
+ */
+export const findLeasedDevices = async (mqtt: IMQTTConnection, hosts: string[], deviceNames: string[]) => {
+  const bleDevices: IBLEDevice[] = [];
+  for (const deviceName of deviceNames) {
+    const mac = deviceName.replace(/:/g, '').toLowerCase();
+    if (!MAC_PATTERN.test(mac)) continue;
+    for (const host of hosts) {
+      const bleDevice = new LeaseDevice(deviceName, mac, host, mqtt);
+      try {
+        await bleDevice.getServices();
+      } catch (error: any) {
+        logDebug(`[ESPHome] ${mac} not reachable through the lease holder of ${host}:`, error?.message || error);
+        continue;
+      }
+      logInfo(`[ESPHome] Reaching ${mac} through the lease holder of proxy ${host}`);
+      bleDevices.push(bleDevice);
+      break;
+    }
+  }
+  return bleDevices;
+};
@@ -0,0 +1,16 @@
+import '@2colors/esphome-native-api';
+import { EventEmitter } from 'events';
+
+// Connection members the library's typings don't declare.
+declare module '@2colors/esphome-native-api' {
+  interface Connection {
+    /** Set by the library after the hello exchange: the proxy's API (1.9+) sends raw, batched advertisements. */
+    supportsRawBLEAdvertisements?: boolean;
+    /** The library's transport: emits each decoded protobuf `message` before the connection maps and re-emits it. */
+    frameHelper: EventEmitter;
+    /** Added by patches/; emits `message.BluetoothConnectionsFreeResponse` on every slot change. */
+    subscribeBluetoothConnectionsFreeService?(): void;
+    /** Added by patches/; resolves with the proxy's `BluetoothDeviceClearCacheResponse`. */
+    clearBluetoothDeviceCacheService?(address: number): Promise<{ address: number; success: boolean; error: number }>;
+  }
+}
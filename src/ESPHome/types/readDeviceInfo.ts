@@ -0,0 +1,35 @@
+import { BluetoothGATTService } from '@2colors/esphome-native-api';
+import { Dictionary } from '@utils/Dictionary';
+import { BLEDeviceInfo } from './BLEDeviceInfo';
+
+const DEVICE_INFORMATION_SERVICE = '0000180a-0000-1000-8000-00805f9b34fb';
+
+/**
+ * Read the standard Device Information service (0x180A), skipping characteristics that fail to read.
+ */
+export const readDeviceInfo = async (
+  services: BluetoothGATTService[],
+  readCharacteristic: (handle: number) => Promise<Uint8Array>
+): Promise<BLEDeviceInfo | undefined> => {
+  const service = services.find((s) => s.uuid === DEVICE_INFORMATION_SERVICE);
+  if (!service) return undefined;
+
+  const deviceInfo: BLEDeviceInfo = {};
+  const setters: Dictionary<(value: string) => void> = {
+    '00002a24-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.modelNumber = value),
+    '00002a25-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.serialNumber = value),
+    '00002a26-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.firmwareRevision = value),
+    '00002a27-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.hardwareRevision = value),
+    '00002a28-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.softwareRevision = value),
+    '00002a29-0000-1000-8000-00805f9b34fb': (value: string) => (deviceInfo.manufacturerName = value),
+  };
+  for (const { uuid, handle } of service.characteristicsList) {
+    const setter = setters[uuid];
+    if (!setter) continue;
+    try {
+      const value = await readCharacteristic(handle);
+      setter(Buffer.from(value).toString());
+    } catch {}
+  }
+  return deviceInfo;
+};
@@ -1,7 +1,11 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { Dictionary } from '@utils/Dictionary';
 import { logInfo } from '@utils/logger';
+import { getRoutines } from '@utils/options';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { setupCommandTopic } from 'Common/setupCommandTopic';
+import { setupPurgeDeviceButton } from 'Common/setupDiscoveryCleanup';
+import { setupRoutines } from 'Common/setupRoutines';
 import { Controller } from './Controller';
 import { getDevices } from './options';
 import { setupMassageButtons } from './setupMassageButtons';
@@ -24,9 +28,12 @@ export const ergomotion = async (mqtt: IMQTTConnection) => {
     logInfo('[ErgoMotion] Setting up bed', ipAddress);
     setupPresetButtons(mqtt, controller, remoteStyle);
     setupMotorEntities(mqtt, controller);
-    if (remoteStyle == 'L') continue;
-
-    setupMassageButtons(mqtt, controller);
-    setupSafetyLightsButton(mqtt, controller);
+    if (remoteStyle != 'L') {
+      setupMassageButtons(mqtt, controller);
+      setupSafetyLightsButton(mqtt, controller);
+    }
+    setupRoutines(mqtt, controller, getRoutines());
+    setupCommandTopic(mqtt, controller);
+    setupPurgeDeviceButton(mqtt, controller);
   }
 };
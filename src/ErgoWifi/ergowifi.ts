@@ -1,7 +1,11 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { Dictionary } from '@utils/Dictionary';
 import { logError, logInfo } from '@utils/logger';
+import { getRoutines } from '@utils/options';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { setupCommandTopic } from 'Common/setupCommandTopic';
+import { setupPurgeDeviceButton } from 'Common/setupDiscoveryCleanup';
+import { setupRoutines } from 'Common/setupRoutines';
 import { Controller } from './Controller';
 import { getUsers } from './options';
 import { getDevices } from './requests/getDevices';
@@ -34,10 +38,13 @@ export const ergowifi = async (mqtt: IMQTTConnection) => {
       setupDeviceInfoSensor(mqtt, controller);
       setupPresetButtons(mqtt, controller, remoteStyle);
       setupMotorEntities(mqtt, controller);
-      if (remoteStyle == 'L') continue;
-
-      setupMassageButtons(mqtt, controller);
-      setupSafetyLightsButton(mqtt, controller);
+      if (remoteStyle != 'L') {
+        setupMassageButtons(mqtt, controller);
+        setupSafetyLightsButton(mqtt, controller);
+      }
+      setupRoutines(mqtt, controller, getRoutines());
+      setupCommandTopic(mqtt, controller);
+      setupPurgeDeviceButton(mqtt, controller);
     }
   }
 };
@@ -1,62 +1,67 @@
 import { BinarySensor } from '@ha/BinarySensor';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { mocked, testDevice } from '@utils/testHelpers';
-import { mock } from 'jest-mock-extended';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
 
-const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+let mqtt: IMQTTConnection;
+let sendHAStatus: (message: string) => void;
 const buildSubject = () => new BinarySensor(mqtt, testDevice, { description: 'Binary Sensor' });
 
 describe(BinarySensor.name, () => {
   beforeAll(() => jest.useFakeTimers());
 
-  beforeEach(jest.resetAllMocks);
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+  });
 
   describe('publishes discovery', () => {
-    let onFunc: ((state: string) => Promise<void>) | null = null;
-
     beforeEach(() => {
-      onFunc = null;
-      mocked(mqtt.on).mockImplementation((topic, func) => {
-        if (topic === 'homeassistant/status') onFunc = func;
-      });
-
       buildSubject();
       jest.runAllTimers();
     });
 
     it('on construction', () => {
-      expect(mqtt.publish).toBeCalledWith('homeassistant/binary_sensor/device_topic_binary_sensor/config', {
-        availability_topic: 'device_topic/binary_sensor/status',
-        device: { ...testDevice.device },
-        name: 'Binary Sensor',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/binary_sensor/state',
-        unique_id: 'test_name_binary_sensor',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          binary_sensor: {
+            platform: 'binary_sensor',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Binary Sensor',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/binary_sensor/state',
+            unique_id: 'test_name_binary_sensor',
+          },
+        })
+      );
     });
 
-    it('when status online is receieved', async () => {
-      expect(onFunc).not.toBeNull();
-      if (!onFunc) return;
-
-      jest.resetAllMocks();
-      await onFunc('online');
+    it('when Home Assistant comes online', () => {
+      mocked(mqtt.publish).mockClear();
+      sendHAStatus('online');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/binary_sensor/device_topic_binary_sensor/config', {
-        availability_topic: 'device_topic/binary_sensor/status',
-        device: { ...testDevice.device },
-        name: 'Binary Sensor',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/binary_sensor/state',
-        unique_id: 'test_name_binary_sensor',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          binary_sensor: {
+            platform: 'binary_sensor',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Binary Sensor',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/binary_sensor/state',
+            unique_id: 'test_name_binary_sensor',
+          },
+        })
+      );
     });
   });
 
   describe('call setState', () => {
-    const entity = buildSubject();
+    let entity: ReturnType<typeof buildSubject>;
+
+    beforeEach(() => (entity = buildSubject()));
 
     it.each([
       ['ON', true],
@@ -70,7 +75,7 @@ describe(BinarySensor.name, () => {
     it('publishes available offline when setState called with null', () => {
       entity.setState(null);
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('device_topic/binary_sensor/status', 'offline');
+      expect(mqtt.publish).toBeCalledWith('smartbedmqtt/status', 'offline', { retain: true, qos: 1 });
       expect(mqtt.publish).not.toBeCalledWith('device_topic/binary_sensor/state', null);
     });
   });
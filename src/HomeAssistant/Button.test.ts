@@ -1,75 +1,82 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { mocked, testDevice } from '@utils/testHelpers';
-import { mock } from 'jest-mock-extended';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
 import { Button } from './Button';
 
-const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+let mqtt: IMQTTConnection;
+let sendHAStatus: (message: string) => void;
 const onPress = jest.fn();
 const buildSubject = (category?: string) => new Button(mqtt, testDevice, { description: 'Button', category }, onPress);
 
 describe(Button.name, () => {
   beforeAll(() => jest.useFakeTimers());
 
-  beforeEach(jest.resetAllMocks);
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+  });
 
   describe('publishes discovery', () => {
-    let onFunc: ((state: string) => Promise<void>) | null = null;
-
-    beforeEach(() => {
-      onFunc = null;
-      mocked(mqtt.on).mockImplementation((topic, func) => {
-        if (topic === 'homeassistant/status') onFunc = func;
-      });
-    });
-
     it('on construction', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/button/device_topic_button/config', {
-        availability_topic: 'device_topic/button/status',
-        device: { ...testDevice.device },
-        name: 'Button',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        unique_id: 'test_name_button',
-        command_topic: 'device_topic/button/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          button: {
+            platform: 'button',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Button',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            unique_id: 'test_name_button',
+            command_topic: 'device_topic/button/command',
+          },
+        })
+      );
     });
 
     it('on construction with config entity category', () => {
       buildSubject('config');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/button/device_topic_button/config', {
-        availability_topic: 'device_topic/button/status',
-        device: { ...testDevice.device },
-        name: 'Button',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        unique_id: 'test_name_button',
-        command_topic: 'device_topic/button/command',
-        entity_category: 'config',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          button: {
+            platform: 'button',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Button',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            unique_id: 'test_name_button',
+            command_topic: 'device_topic/button/command',
+            entity_category: 'config',
+          },
+        })
+      );
     });
 
-    it('when status online is receieved', async () => {
+    it('when Home Assistant comes online', () => {
       buildSubject();
       jest.runAllTimers();
 
-      expect(onFunc).not.toBeNull();
-      if (!onFunc) return;
+      mocked(mqtt.publish).mockClear();
 
-      jest.resetAllMocks();
-      await onFunc('online');
+      sendHAStatus('online');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/button/device_topic_button/config', {
-        availability_topic: 'device_topic/button/status',
-        device: { ...testDevice.device },
-        name: 'Button',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        unique_id: 'test_name_button',
-        command_topic: 'device_topic/button/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          button: {
+            platform: 'button',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Button',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            unique_id: 'test_name_button',
+            command_topic: 'device_topic/button/command',
+          },
+        })
+      );
     });
   });
 
@@ -0,0 +1,33 @@
+import { PositionalCover } from './PositionalCover';
+
+/**
+ * A PositionalCover whose position is estimated by the add-on and can become unknown (e.g. after a preset moved
+ * the motor to a position the add-on can't know). An unknown position is reported as unknown position and cover state.
+ */
+export class EstimatedCover extends PositionalCover {
+  private stateTopic = `${this.baseTopic}/state`;
+
+  discoveryState() {
+    return {
+      ...super.discoveryState(),
+      state_topic: this.stateTopic,
+    };
+  }
+
+  setPosition(position: number | null) {
+    super.setPosition(position);
+    if (position !== null) this.mqtt.publish(this.stateTopic, position > 0 ? 'open' : 'closed');
+    return this;
+  }
+
+  setPositionUnknown() {
+    this.position = undefined;
+    this.sendPosition();
+    this.mqtt.publish(this.stateTopic, 'None');
+    return this;
+  }
+
+  protected mapPosition(position: number | undefined) {
+    return position === undefined ? 'None' : position.toString();
+  }
+}
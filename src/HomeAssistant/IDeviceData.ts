@@ -1,6 +1,11 @@
 export interface IDeviceData {
   deviceTopic: string;
   device: IDevice;
+  /**
+   * Per-device availability (`online`/`offline`, retained), combined with the add-on status topic.
+   * Only set for devices whose reachability is tracked, e.g. supervised BLE beds.
+   */
+  availabilityTopic?: string;
 }
 
 interface IDevice {
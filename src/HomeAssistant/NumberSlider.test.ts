@@ -1,9 +1,9 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { mocked, testDevice } from '@utils/testHelpers';
-import { mock } from 'jest-mock-extended';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
 import { NumberSlider, NumberSliderConfig } from './NumberSlider';
 
-const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+let mqtt: IMQTTConnection;
+let sendHAStatus: (message: string) => void;
 const onChange = jest.fn();
 const buildSubject = (config: { category?: string } & NumberSliderConfig = {}) =>
   new NumberSlider(mqtt, testDevice, { description: 'Number Slider', ...config }, async (state) => {
@@ -13,96 +13,107 @@ const buildSubject = (config: { category?: string } & NumberSliderConfig = {}) =
 describe(NumberSlider.name, () => {
   beforeAll(() => jest.useFakeTimers());
 
-  beforeEach(jest.resetAllMocks);
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+  });
 
   describe('publishes discovery', () => {
-    let onFunc: ((state: string) => Promise<void>) | null = null;
-
-    beforeEach(() => {
-      onFunc = null;
-      mocked(mqtt.on).mockImplementation((topic, func) => {
-        if (topic === 'homeassistant/status') onFunc = func;
-      });
-    });
-
     it('on construction', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/number/device_topic_number_slider/config', {
-        availability_topic: 'device_topic/number_slider/status',
-        device: { ...testDevice.device },
-        min: 0,
-        max: 100,
-        mode: 'slider',
-        name: 'Number Slider',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/number_slider/state',
-        unique_id: 'test_name_number_slider',
-        command_topic: 'device_topic/number_slider/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          number_slider: {
+            platform: 'number',
+            availability_topic: 'smartbedmqtt/status',
+            min: 0,
+            max: 100,
+            mode: 'slider',
+            name: 'Number Slider',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/number_slider/state',
+            unique_id: 'test_name_number_slider',
+            command_topic: 'device_topic/number_slider/command',
+          },
+        })
+      );
     });
 
     it('on construction with entity category', () => {
       buildSubject({ category: 'config' });
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/number/device_topic_number_slider/config', {
-        availability_topic: 'device_topic/number_slider/status',
-        device: { ...testDevice.device },
-        min: 0,
-        max: 100,
-        mode: 'slider',
-        name: 'Number Slider',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/number_slider/state',
-        unique_id: 'test_name_number_slider',
-        command_topic: 'device_topic/number_slider/command',
-        entity_category: 'config',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          number_slider: {
+            platform: 'number',
+            availability_topic: 'smartbedmqtt/status',
+            min: 0,
+            max: 100,
+            mode: 'slider',
+            name: 'Number Slider',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/number_slider/state',
+            unique_id: 'test_name_number_slider',
+            command_topic: 'device_topic/number_slider/command',
+            entity_category: 'config',
+          },
+        })
+      );
     });
 
     it('on construction with config', () => {
       buildSubject({ min: 1, max: 64, icon: 'mdi:waves-arrow-right' });
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/number/device_topic_number_slider/config', {
-        availability_topic: 'device_topic/number_slider/status',
-        device: { ...testDevice.device },
-        icon: 'mdi:waves-arrow-right',
-        min: 1,
-        max: 64,
-        mode: 'slider',
-        name: 'Number Slider',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/number_slider/state',
-        unique_id: 'test_name_number_slider',
-        command_topic: 'device_topic/number_slider/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          number_slider: {
+            platform: 'number',
+            availability_topic: 'smartbedmqtt/status',
+            icon: 'mdi:waves-arrow-right',
+            min: 1,
+            max: 64,
+            mode: 'slider',
+            name: 'Number Slider',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/number_slider/state',
+            unique_id: 'test_name_number_slider',
+            command_topic: 'device_topic/number_slider/command',
+          },
+        })
+      );
     });
 
-    it('when status online is receieved', async () => {
+    it('when Home Assistant comes online', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(onFunc).not.toBeNull();
-      if (!onFunc) return;
-
-      jest.resetAllMocks();
-      await onFunc('online');
+      mocked(mqtt.publish).mockClear();
+      sendHAStatus('online');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/number/device_topic_number_slider/config', {
-        availability_topic: 'device_topic/number_slider/status',
-        device: { ...testDevice.device },
-        min: 0,
-        max: 100,
-        mode: 'slider',
-        name: 'Number Slider',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/number_slider/state',
-        unique_id: 'test_name_number_slider',
-        command_topic: 'device_topic/number_slider/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          number_slider: {
+            platform: 'number',
+            availability_topic: 'smartbedmqtt/status',
+            min: 0,
+            max: 100,
+            mode: 'slider',
+            name: 'Number Slider',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/number_slider/state',
+            unique_id: 'test_name_number_slider',
+            command_topic: 'device_topic/number_slider/command',
+          },
+        })
+      );
     });
   });
 
@@ -160,7 +171,9 @@ describe(NumberSlider.name, () => {
     });
   });
   describe('call setState', () => {
-    const entity = buildSubject();
+    let entity: ReturnType<typeof buildSubject>;
+
+    beforeEach(() => (entity = buildSubject()));
 
     it.each([
       ['5', 5],
@@ -174,7 +187,7 @@ describe(NumberSlider.name, () => {
     it('publishes available offline when setState called with null', () => {
       entity.setState(null);
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('device_topic/number_slider/status', 'offline');
+      expect(mqtt.publish).toBeCalledWith('smartbedmqtt/status', 'offline', { retain: true, qos: 1 });
       expect(mqtt.publish).not.toBeCalledWith('device_topic/number_slider/state', null);
     });
   });
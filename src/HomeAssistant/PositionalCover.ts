@@ -7,7 +7,7 @@ export class PositionalCover extends Cover {
   private positionTopic: string;
   private setPositionTopic: string;
 
-  private position: number = 0;
+  protected position: number | undefined = 0;
 
   constructor(
     mqtt: IMQTTConnection,
@@ -61,7 +61,7 @@ export class PositionalCover extends Cover {
     return position === undefined ? null : position.toString();
   }
 
-  private sendPosition() {
+  protected sendPosition() {
     setTimeout(() => {
       const message = this.mapPosition(this.position);
       this.mqtt.publish(this.positionTopic, message);
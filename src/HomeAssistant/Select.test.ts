@@ -1,9 +1,9 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { mocked, testDevice } from '@utils/testHelpers';
-import { mock } from 'jest-mock-extended';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
 import { Select } from './Select';
 
-const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+let mqtt: IMQTTConnection;
+let sendHAStatus: (message: string) => void;
 const onChange = jest.fn();
 const options = ['one', 'two', 'three'];
 const buildSubject = (category?: string) =>
@@ -14,71 +14,77 @@ const buildSubject = (category?: string) =>
 describe(Select.name, () => {
   beforeAll(() => jest.useFakeTimers());
 
-  beforeEach(jest.resetAllMocks);
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+  });
 
   describe('publishes discovery', () => {
-    let onFunc: ((state: string) => Promise<void>) | null = null;
-
-    beforeEach(() => {
-      onFunc = null;
-      mocked(mqtt.on).mockImplementation((topic, func) => {
-        if (topic === 'homeassistant/status') onFunc = func;
-      });
-    });
-
     it('on construction', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/select/device_topic_select/config', {
-        availability_topic: 'device_topic/select/status',
-        device: { ...testDevice.device },
-        name: 'Select',
-        options,
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/select/state',
-        unique_id: 'test_name_select',
-        command_topic: 'device_topic/select/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          select: {
+            platform: 'select',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Select',
+            options,
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/select/state',
+            unique_id: 'test_name_select',
+            command_topic: 'device_topic/select/command',
+          },
+        })
+      );
     });
 
     it('on construction with entity category', () => {
       buildSubject('config');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/select/device_topic_select/config', {
-        availability_topic: 'device_topic/select/status',
-        device: { ...testDevice.device },
-        name: 'Select',
-        options,
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/select/state',
-        unique_id: 'test_name_select',
-        command_topic: 'device_topic/select/command',
-        entity_category: 'config',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          select: {
+            platform: 'select',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Select',
+            options,
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/select/state',
+            unique_id: 'test_name_select',
+            command_topic: 'device_topic/select/command',
+            entity_category: 'config',
+          },
+        })
+      );
     });
 
-    it('when status online is receieved', async () => {
+    it('when Home Assistant comes online', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(onFunc).not.toBeNull();
-      if (!onFunc) return;
-
-      jest.resetAllMocks();
-      await onFunc('online');
+      mocked(mqtt.publish).mockClear();
+      sendHAStatus('online');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/select/device_topic_select/config', {
-        availability_topic: 'device_topic/select/status',
-        device: { ...testDevice.device },
-        name: 'Select',
-        options,
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/select/state',
-        unique_id: 'test_name_select',
-        command_topic: 'device_topic/select/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          select: {
+            platform: 'select',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Select',
+            options,
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/select/state',
+            unique_id: 'test_name_select',
+            command_topic: 'device_topic/select/command',
+          },
+        })
+      );
     });
   });
 
@@ -1,9 +1,9 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { mocked, testDevice } from '@utils/testHelpers';
-import { mock } from 'jest-mock-extended';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
 import { Switch } from './Switch';
 
-const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+let mqtt: IMQTTConnection;
+let sendHAStatus: (message: string) => void;
 const onChange = jest.fn();
 const buildSubject = (category?: string) =>
   new Switch(mqtt, testDevice, { description: 'Switch', category }, async (state) => {
@@ -13,68 +13,74 @@ const buildSubject = (category?: string) =>
 describe(Switch.name, () => {
   beforeAll(() => jest.useFakeTimers());
 
-  beforeEach(jest.resetAllMocks);
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+  });
 
   describe('publishes discovery', () => {
-    let onFunc: ((state: string) => Promise<void>) | null = null;
-
-    beforeEach(() => {
-      onFunc = null;
-      mocked(mqtt.on).mockImplementation((topic, func) => {
-        if (topic === 'homeassistant/status') onFunc = func;
-      });
-    });
-
     it('on construction', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/switch/device_topic_switch/config', {
-        availability_topic: 'device_topic/switch/status',
-        device: { ...testDevice.device },
-        name: 'Switch',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/switch/state',
-        unique_id: 'test_name_switch',
-        command_topic: 'device_topic/switch/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          switch: {
+            platform: 'switch',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Switch',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/switch/state',
+            unique_id: 'test_name_switch',
+            command_topic: 'device_topic/switch/command',
+          },
+        })
+      );
     });
 
     it('on construction with entity category', () => {
       buildSubject('config');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/switch/device_topic_switch/config', {
-        availability_topic: 'device_topic/switch/status',
-        device: { ...testDevice.device },
-        name: 'Switch',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/switch/state',
-        unique_id: 'test_name_switch',
-        command_topic: 'device_topic/switch/command',
-        entity_category: 'config',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          switch: {
+            platform: 'switch',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Switch',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/switch/state',
+            unique_id: 'test_name_switch',
+            command_topic: 'device_topic/switch/command',
+            entity_category: 'config',
+          },
+        })
+      );
     });
 
-    it('when status online is receieved', async () => {
+    it('when Home Assistant comes online', () => {
       buildSubject();
       jest.runAllTimers();
-      expect(onFunc).not.toBeNull();
-      if (!onFunc) return;
-
-      jest.resetAllMocks();
-      await onFunc('online');
+      mocked(mqtt.publish).mockClear();
+      sendHAStatus('online');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/switch/device_topic_switch/config', {
-        availability_topic: 'device_topic/switch/status',
-        device: { ...testDevice.device },
-        name: 'Switch',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        state_topic: 'device_topic/switch/state',
-        unique_id: 'test_name_switch',
-        command_topic: 'device_topic/switch/command',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          switch: {
+            platform: 'switch',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Switch',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            state_topic: 'device_topic/switch/state',
+            unique_id: 'test_name_switch',
+            command_topic: 'device_topic/switch/command',
+          },
+        })
+      );
     });
   });
 
@@ -132,7 +138,9 @@ describe(Switch.name, () => {
     });
   });
   describe('call setState', () => {
-    const entity = buildSubject();
+    let entity: ReturnType<typeof buildSubject>;
+
+    beforeEach(() => (entity = buildSubject()));
 
     it.each([
       ['ON', true],
@@ -146,7 +154,7 @@ describe(Switch.name, () => {
     it('publishes available offline when setState called with null', () => {
       entity.setState(null);
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('device_topic/switch/status', 'offline');
+      expect(mqtt.publish).toBeCalledWith('smartbedmqtt/status', 'offline', { retain: true, qos: 1 });
       expect(mqtt.publish).not.toBeCalledWith('device_topic/switch/state', null);
     });
   });
@@ -1,85 +1,115 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { mocked, testDevice } from '@utils/testHelpers';
-import { mock } from 'jest-mock-extended';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
 import { Entity } from './Entity';
 
-const mqtt: IMQTTConnection = mock<IMQTTConnection>();
+let mqtt: IMQTTConnection;
+let sendHAStatus: (message: string) => void;
 const buildSubject = (category?: string) =>
   new Entity(mqtt, testDevice, { description: 'Binary Sensor', category }, 'binary_sensor');
 
 describe(Entity.name, () => {
   beforeAll(() => jest.useFakeTimers());
 
-  beforeEach(jest.resetAllMocks);
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+  });
 
   describe('publishes discovery', () => {
-    let onFunc: ((state: string) => Promise<void>) | null = null;
-
     beforeEach(() => {
-      onFunc = null;
-      mocked(mqtt.on).mockImplementation((topic, func) => {
-        if (topic === 'homeassistant/status') onFunc = func;
-      });
-
       buildSubject();
       jest.runAllTimers();
     });
 
     it('on construction', () => {
-      expect(mqtt.publish).toBeCalledWith('homeassistant/binary_sensor/device_topic_binary_sensor/config', {
-        availability_topic: 'device_topic/binary_sensor/status',
-        device: { ...testDevice.device },
-        name: 'Binary Sensor',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        unique_id: 'test_name_binary_sensor',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          binary_sensor: {
+            platform: 'binary_sensor',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Binary Sensor',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            unique_id: 'test_name_binary_sensor',
+          },
+        })
+      );
     });
 
     it('on construction with entity category', () => {
       buildSubject('config');
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/binary_sensor/device_topic_binary_sensor/config', {
-        availability_topic: 'device_topic/binary_sensor/status',
-        device: { ...testDevice.device },
-        name: 'Binary Sensor',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        unique_id: 'test_name_binary_sensor',
-        entity_category: 'config',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          binary_sensor: {
+            platform: 'binary_sensor',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Binary Sensor',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            unique_id: 'test_name_binary_sensor',
+            entity_category: 'config',
+          },
+        })
+      );
     });
-    it('when status online is receieved', async () => {
-      expect(onFunc).not.toBeNull();
-      if (!onFunc) return;
-
-      jest.resetAllMocks();
-      await onFunc('online');
+    it('on construction with device availability', () => {
+      new Entity(
+        mqtt,
+        { ...testDevice, availabilityTopic: 'device_topic/availability' },
+        { description: 'Binary Sensor' },
+        'binary_sensor'
+      );
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('homeassistant/binary_sensor/device_topic_binary_sensor/config', {
-        availability_topic: 'device_topic/binary_sensor/status',
-        device: { ...testDevice.device },
-        name: 'Binary Sensor',
-        payload_available: 'online',
-        payload_not_available: 'offline',
-        unique_id: 'test_name_binary_sensor',
-      });
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        expect.objectContaining({
+          components: {
+            binary_sensor: expect.objectContaining({
+              availability: [{ topic: 'smartbedmqtt/status' }, { topic: 'device_topic/availability' }],
+              availability_mode: 'all',
+            }),
+          },
+        })
+      );
+    });
+    it('when Home Assistant comes online', () => {
+      mocked(mqtt.publish).mockClear();
+      sendHAStatus('online');
+      jest.runAllTimers();
+      expect(mqtt.publish).toBeCalledWith(
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          binary_sensor: {
+            platform: 'binary_sensor',
+            availability_topic: 'smartbedmqtt/status',
+            name: 'Binary Sensor',
+            payload_available: 'online',
+            payload_not_available: 'offline',
+            unique_id: 'test_name_binary_sensor',
+          },
+        })
+      );
     });
   });
 
   describe('publishes availability', () => {
-    const entity = buildSubject();
+    let entity: ReturnType<typeof buildSubject>;
+
+    beforeEach(() => (entity = buildSubject()));
 
     it('online when setOnline called', () => {
       entity.setOnline();
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('device_topic/binary_sensor/status', 'online');
+      expect(mqtt.publish).toBeCalledWith('smartbedmqtt/status', 'online', { retain: true, qos: 1 });
     });
 
     it('offline when setOffline called', () => {
       entity.setOffline();
       jest.runAllTimers();
-      expect(mqtt.publish).toBeCalledWith('device_topic/binary_sensor/status', 'offline');
+      expect(mqtt.publish).toBeCalledWith('smartbedmqtt/status', 'offline', { retain: true, qos: 1 });
     });
   });
 });
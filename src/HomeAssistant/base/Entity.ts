@@ -1,10 +1,11 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { Dictionary } from '@utils/Dictionary';
 import { safeId } from '@utils/safeId';
-import { seconds } from '@utils/seconds';
 import { IDeviceData } from '../IDeviceData';
 import { ComponentType as EntityWithStateComponentType } from './ComponentTypeWithState';
 import { IAvailable } from './IAvailable';
+import { addToDeviceDiscovery, IDiscoverable, publishDeviceDiscovery } from './deviceDiscovery';
+import { applyEntityOverrides } from './entityOverrides';
 
 const ONLINE = 'online';
 const OFFLINE = 'offline';
@@ -24,12 +25,14 @@ export type EntityConfig = {
    * - The user-facing name remains `description`.
    */
   tag?: string;
+  /** The `StringsKey` the entity was built from; `entityOverrides` can name the entity by it. */
+  stringsKey?: string;
   description: string;
   category?: string;
   icon?: string;
 };
 
-export class Entity implements IAvailable {
+export class Entity implements IAvailable, IDiscoverable {
   protected baseTopic: string;
   private availabilityTopic: string;
   private entityTag: string;
@@ -58,28 +61,44 @@ export class Entity implements IAvailable {
      * flips to `offline` on crashes and to `online` on clean connects.
      */
     this.availabilityTopic = `smartbedmqtt/status`;
-    this.mqtt.subscribe('homeassistant/status');
-    this.mqtt.on('homeassistant/status', (message) => {
-      if (message === ONLINE) setTimeout(() => this.publishDiscovery(), seconds(15));
-    });
-    setTimeout(() => this.publishDiscovery(), 50);
+    // Discovery is published per device, see deviceDiscovery.
+    addToDeviceDiscovery(mqtt, deviceData, this);
   }
 
-  publishDiscovery() {
-    const discoveryTopic = `homeassistant/${this.componentType}/${this.deviceData.deviceTopic}_${this.entityTag}/config`;
-    const discoveryMessage = {
+  get discoveryKey() {
+    return this.entityTag;
+  }
+
+  get legacyDiscoveryTopic() {
+    return `homeassistant/${this.componentType}/${this.deviceData.deviceTopic}_${this.entityTag}/config`;
+  }
+
+  discoveryComponent() {
+    const component = {
+      platform: this.componentType,
       name: this.entityConfig.description,
       unique_id: this.uniqueId,
-      device: this.deviceData.device,
       ...this.discoveryState(),
     };
+    // The user's `entityOverrides` win over what the brand set up.
+    return applyEntityOverrides(this.deviceData, this.entityTag, this.entityConfig.stringsKey, component);
+  }
 
-    this.mqtt.publish(discoveryTopic, discoveryMessage);
+  /** Republish the discovery payload of this entity's device, e.g. after its config changed. */
+  publishDiscovery() {
+    publishDeviceDiscovery(this.mqtt, this.deviceData);
   }
 
   protected discoveryState(): Dictionary<any> {
+    // A device with its own availability topic is only available while both the add-on and the device are online.
+    const availability = this.deviceData.availabilityTopic
+      ? {
+          availability: [{ topic: this.availabilityTopic }, { topic: this.deviceData.availabilityTopic }],
+          availability_mode: 'all',
+        }
+      : { availability_topic: this.availabilityTopic };
     return {
-      availability_topic: this.availabilityTopic,
+      ...availability,
       payload_available: ONLINE,
       payload_not_available: OFFLINE,
       ...(this.entityConfig.category ? { entity_category: this.entityConfig.category } : {}),
@@ -0,0 +1,134 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { buildMQTTMock, deviceDiscoveryTopic, mocked, testDevice, testDeviceDiscovery } from '@utils/testHelpers';
+import { minutes } from '@utils/minutes';
+import { addToDeviceDiscovery, IDiscoverable, purgeStaleDevices, purgeStaleDiscovery } from './deviceDiscovery';
+import { DeviceManifest, getDeviceManifests, recordDeviceManifest } from './discoveryManifest';
+
+jest.mock('@utils/logger');
+jest.mock('./discoveryManifest');
+
+const buildEntity = (key: string): IDiscoverable => ({
+  discoveryKey: key,
+  discoveryComponent: () => ({ platform: 'sensor', unique_id: `test_name_${key}` }),
+  legacyDiscoveryTopic: `homeassistant/sensor/device_topic_${key}/config`,
+});
+
+describe(addToDeviceDiscovery.name, () => {
+  let mqtt: IMQTTConnection;
+  let sendHAStatus: (message: string) => void;
+
+  beforeAll(() => jest.useFakeTimers());
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ({ mqtt, sendHAStatus } = buildMQTTMock());
+    mocked(getDeviceManifests).mockReturnValue({});
+  });
+
+  it('publishes the entities of a device in one payload', () => {
+    addToDeviceDiscovery(mqtt, testDevice, buildEntity('first'));
+    addToDeviceDiscovery(mqtt, testDevice, buildEntity('second'));
+    jest.runAllTimers();
+
+    const discoveryMessages = mocked(mqtt.publish).mock.calls.filter(([topic]) => topic === deviceDiscoveryTopic);
+    expect(discoveryMessages).toEqual([
+      [
+        deviceDiscoveryTopic,
+        testDeviceDiscovery({
+          first: { platform: 'sensor', unique_id: 'test_name_first' },
+          second: { platform: 'sensor', unique_id: 'test_name_second' },
+        }),
+      ],
+    ]);
+  });
+
+  it('migrates single-component discovery around the device payload once', () => {
+    const manifests: Record<string, DeviceManifest> = {};
+    mocked(getDeviceManifests).mockReturnValue(manifests);
+    mocked(recordDeviceManifest).mockImplementation((deviceTopic, entry) => (manifests[deviceTopic] = entry));
+    addToDeviceDiscovery(mqtt, testDevice, buildEntity('migrated'));
+    jest.runAllTimers();
+    sendHAStatus('online');
+    jest.runAllTimers();
+
+    const legacyTopic = 'homeassistant/sensor/device_topic_migrated/config';
+    expect(mocked(mqtt.publish).mock.calls.map(([topic, message]) => [topic, message])).toEqual([
+      [legacyTopic, { migrate_discovery: true }],
+      [deviceDiscoveryTopic, expect.anything()],
+      [legacyTopic, ''],
+      [deviceDiscoveryTopic, expect.anything()],
+    ]);
+  });
+
+  it("doesn't migrate entities an earlier run already published in the device payload", () => {
+    mocked(getDeviceManifests).mockReturnValue({
+      [testDevice.deviceTopic]: { topic: deviceDiscoveryTopic, name: 'Test Name', components: { migrated: 'sensor' } },
+    });
+    addToDeviceDiscovery(mqtt, testDevice, buildEntity('migrated'));
+    jest.advanceTimersByTime(1000);
+
+    expect(mocked(mqtt.publish).mock.calls.map(([topic]) => topic)).toEqual([deviceDiscoveryTopic]);
+  });
+
+  it('republishes every device when Home Assistant comes online', () => {
+    addToDeviceDiscovery(mqtt, testDevice, buildEntity('sensor'));
+    addToDeviceDiscovery(mqtt, { ...testDevice, deviceTopic: 'other_device' }, buildEntity('sensor'));
+    jest.runAllTimers();
+    mocked(mqtt.publish).mockClear();
+
+    sendHAStatus('offline');
+    jest.runAllTimers();
+    expect(mqtt.publish).not.toBeCalled();
+
+    sendHAStatus('online');
+    jest.runAllTimers();
+    expect(mqtt.publish).toBeCalledWith(deviceDiscoveryTopic, expect.anything());
+    expect(mqtt.publish).toBeCalledWith('homeassistant/device/other_device/config', expect.anything());
+    expect(mqtt.subscribe).toBeCalledTimes(1);
+  });
+
+  describe('stale discovery', () => {
+    const changedDevice = { ...testDevice, deviceTopic: 'changed_device' };
+    const changedTopic = 'homeassistant/device/changed_device/config';
+
+    beforeEach(() =>
+      mocked(getDeviceManifests).mockReturnValue({
+        changed_device: { topic: changedTopic, name: 'Changed Bed', components: { kept: 'sensor', gone: 'button' } },
+        removed_device: {
+          topic: 'homeassistant/device/removed_device/config',
+          name: 'Removed Bed',
+          components: { sensor: 'sensor' },
+        },
+      })
+    );
+
+    it('removes entities of an earlier run once the device settled', () => {
+      addToDeviceDiscovery(mqtt, changedDevice, buildEntity('kept'));
+      jest.advanceTimersByTime(1000);
+      expect(mqtt.publish).toBeCalledTimes(1);
+
+      jest.advanceTimersByTime(minutes(1));
+      expect(mqtt.publish).toHaveBeenLastCalledWith(
+        changedTopic,
+        expect.objectContaining({
+          components: { gone: { platform: 'button' }, kept: { platform: 'sensor', unique_id: 'test_name_kept' } },
+        })
+      );
+
+      mocked(mqtt.publish).mockClear();
+      mocked(getDeviceManifests).mockReturnValue({
+        changed_device: { topic: changedTopic, name: 'Changed Bed', components: { kept: 'sensor' } },
+      });
+      expect(purgeStaleDiscovery(mqtt, changedDevice)).toEqual([]);
+      expect(mqtt.publish).toBeCalledWith(changedTopic, expect.objectContaining({ components: expect.anything() }));
+    });
+
+    it('removes devices that are no longer configured', () => {
+      addToDeviceDiscovery(mqtt, testDevice, buildEntity('sensor'));
+
+      expect(purgeStaleDevices(mqtt, ({ name }) => name !== 'Removed Bed')).toEqual(['Removed Bed']);
+      expect(mqtt.publish).toBeCalledWith('homeassistant/device/removed_device/config', '', { retain: true, qos: 1 });
+      expect(mqtt.publish).not.toBeCalledWith('homeassistant/device/changed_device/config', '', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { getBuildInfo } from '@utils/buildInfo';
+import { Dictionary } from '@utils/Dictionary';
+import { logInfo } from '@utils/logger';
+import { minutes } from '@utils/minutes';
+import { safeId } from '@utils/safeId';
+import { seconds } from '@utils/seconds';
+import { IDeviceData } from '../IDeviceData';
+import { DeviceManifest, forgetDeviceManifest, getDeviceManifests, recordDeviceManifest } from './discoveryManifest';
+
+/** One entity of a device-based discovery payload. */
+export interface IDiscoverable {
+  /** Key in the device's `components` map. */
+  readonly discoveryKey: string;
+  /** The entity's component config, `platform` included and `device` left out; undefined to leave it out. */
+  discoveryComponent(): Dictionary<any> | undefined;
+  /** The single-component topic entities used to be discovered on, for the migration to device discovery. */
+  readonly legacyDiscoveryTopic: string;
+}
+
+type DiscoveredDevice = {
+  deviceData: IDeviceData;
+  components: Map<string, IDiscoverable>;
+  publishTimer?: NodeJS.Timeout;
+  /** Components the manifest had before this run (key -> platform), until they were checked for stale ones. */
+  previous?: Dictionary<string>;
+  /** Components to remove from HA with the next publish (key -> platform). */
+  removed: Dictionary<string>;
+  cleanupTimer?: NodeJS.Timeout;
+};
+
+const ONLINE = 'online';
+// Entities of a device are built in one go; wait for the rest before publishing.
+const PUBLISH_DELAY_MS = 50;
+const REPUBLISH_AFTER_HA_ONLINE_MS = seconds(15);
+// Entities are added after setup steps that may take a while (e.g. connecting to the bed); only components that
+// are still missing once the device stopped growing are stale.
+const STALE_SETTLE_MS = minutes(1);
+
+const devicesByConnection = new WeakMap<IMQTTConnection, Map<string, DiscoveredDevice>>();
+let origin: Dictionary<string> | undefined;
+
+export const getDeviceDiscoveryTopic = ({ deviceTopic }: IDeviceData) =>
+  `homeassistant/device/${safeId(deviceTopic)}/config`;
+
+const getOrigin = () => {
+  if (!origin) {
+    const { version } = getBuildInfo();
+    origin = { name: 'Smartbed MQTT', ...(version ? { sw_version: version } : {}) };
+  }
+  return origin;
+};
+
+const publish = (mqtt: IMQTTConnection, device: DiscoveredDevice) => {
+  device.publishTimer = undefined;
+  const components: Dictionary<Dictionary<any>> = {};
+  // HA removes a component sent with nothing but its platform.
+  for (const [key, platform] of Object.entries(device.removed)) components[key] = { platform };
+  device.removed = {};
+  // Components that may be stale stay in the manifest until they were checked.
+  const platforms: Dictionary<string> = { ...device.previous };
+  // Components in the manifest were already published in a device payload (this run or an earlier one).
+  const recorded = getDeviceManifests()[device.deviceData.deviceTopic]?.components ?? {};
+  const migrating: IDiscoverable[] = [];
+  for (const [key, entity] of device.components) {
+    const component = entity.discoveryComponent();
+    if (!component) continue;
+    components[key] = component;
+    platforms[key] = component.platform;
+    if (!(key in recorded)) migrating.push(entity);
+  }
+
+  // Entities discovered one by one by earlier versions keep their unique_id (and HA customisations): HA moves
+  // them over when their old topic is flagged before, and cleared after, the device payload. Only once per
+  // entity: afterwards the manifest lists it.
+  for (const { legacyDiscoveryTopic } of migrating) mqtt.publish(legacyDiscoveryTopic, { migrate_discovery: true });
+  const topic = getDeviceDiscoveryTopic(device.deviceData);
+  mqtt.publish(topic, {
+    device: device.deviceData.device,
+    origin: getOrigin(),
+    components,
+  });
+  for (const { legacyDiscoveryTopic } of migrating) mqtt.publish(legacyDiscoveryTopic, '');
+  const { deviceTopic, device: haDevice } = device.deviceData;
+  recordDeviceManifest(deviceTopic, { topic, name: haDevice.name, components: platforms });
+};
+
+const removeStaleComponents = (mqtt: IMQTTConnection, device: DiscoveredDevice, publishAlways: boolean) => {
+  clearTimeout(device.cleanupTimer);
+  device.cleanupTimer = undefined;
+  device.previous = undefined;
+  const recorded = getDeviceManifests()[device.deviceData.deviceTopic]?.components ?? {};
+  // Hidden entities (see entityOverrides) go as well.
+  const stale = Object.keys(recorded).filter((key) => !device.components.get(key)?.discoveryComponent());
+  for (const key of stale) device.removed[key] = recorded[key];
+  if (stale.length)
+    logInfo(`[HA] Removing ${stale.length} stale entities from ${device.deviceData.device.name}: ${stale.join(', ')}`);
+  if (!stale.length && !publishAlways) return stale;
+
+  clearTimeout(device.publishTimer);
+  publish(mqtt, device);
+  return stale;
+};
+
+const getDevices = (mqtt: IMQTTConnection) => {
+  let devices = devicesByConnection.get(mqtt);
+  if (devices) return devices;
+
+  const known = (devices = new Map());
+  devicesByConnection.set(mqtt, known);
+  // One listener for every device: HA forgets discovery it didn't get retained when it restarts.
+  let republishTimer: NodeJS.Timeout | undefined;
+  mqtt.subscribe('homeassistant/status');
+  mqtt.on('homeassistant/status', (message) => {
+    if (message !== ONLINE) return;
+    clearTimeout(republishTimer);
+    republishTimer = setTimeout(() => {
+      for (const device of known.values()) publish(mqtt, device);
+    }, REPUBLISH_AFTER_HA_ONLINE_MS);
+  });
+  return devices;
+};
+
+/**
+ * (Re)publish the discovery payload of a device soon; calls within a short window result in one message.
+ */
+export const publishDeviceDiscovery = (mqtt: IMQTTConnection, deviceData: IDeviceData) => {
+  const device = getDevices(mqtt).get(deviceData.deviceTopic);
+  if (!device || device.publishTimer) return;
+  device.publishTimer = setTimeout(() => publish(mqtt, device), PUBLISH_DELAY_MS);
+};
+
+/**
+ * Add an entity to its device's discovery payload.
+ *
+ * Why:
+ * - Every entity used to publish its own discovery message and keep its own `homeassistant/status` listener and
+ *   republish timer: a bed with 40 entities meant 40 messages and 40 timers on every HA restart.
+ *
+ * How:
+ * - Entities are collected per device (`deviceTopic`) and published as one device-based discovery payload on
+ *   `homeassistant/device/<device>/config`, with the entities in its `components` map.
+ * - A single `homeassistant/status` listener per MQTT connection republishes every device when HA comes online.
+ */
+export const addToDeviceDiscovery = (mqtt: IMQTTConnection, deviceData: IDeviceData, entity: IDiscoverable) => {
+  const devices = getDevices(mqtt);
+  let device = devices.get(deviceData.deviceTopic);
+  if (!device) {
+    const previous = getDeviceManifests()[deviceData.deviceTopic]?.components;
+    devices.set(deviceData.deviceTopic, (device = { deviceData, components: new Map(), previous, removed: {} }));
+  }
+  device.components.set(entity.discoveryKey, entity);
+  publishDeviceDiscovery(mqtt, deviceData);
+
+  if (!device.previous) return;
+  const settled = device;
+  clearTimeout(settled.cleanupTimer);
+  settled.cleanupTimer = setTimeout(() => removeStaleComponents(mqtt, settled, false), STALE_SETTLE_MS);
+};
+
+/**
+ * Remove the entities of a device that earlier runs discovered and this one doesn't build (e.g. after a
+ * `remoteCode` change) or hides, right away. Returns their component keys. Always republishes the device.
+ */
+export const purgeStaleDiscovery = (mqtt: IMQTTConnection, deviceData: IDeviceData) => {
+  const device = getDevices(mqtt).get(deviceData.deviceTopic);
+  return device ? removeStaleComponents(mqtt, device, true) : [];
+};
+
+/**
+ * Remove devices that earlier runs discovered and this one didn't (e.g. a bed removed from the config), unless
+ * `keep` says they may still show up. Returns their names.
+ */
+export const purgeStaleDevices = (
+  mqtt: IMQTTConnection,
+  keep: (manifest: DeviceManifest, deviceTopic: string) => boolean
+) => {
+  const devices = getDevices(mqtt);
+  const removed: string[] = [];
+  for (const [deviceTopic, manifest] of Object.entries(getDeviceManifests())) {
+    if (devices.has(deviceTopic) || keep(manifest, deviceTopic)) continue;
+    // Retained, so a discovery config an older version left in the broker goes as well.
+    mqtt.publish(manifest.topic, '', { retain: true, qos: 1 });
+    forgetDeviceManifest(deviceTopic);
+    removed.push(manifest.name);
+  }
+  if (removed.length) logInfo(`[HA] Removed stale devices: ${removed.join(', ')}`);
+  return removed;
+};
@@ -0,0 +1,58 @@
+import { Dictionary } from '@utils/Dictionary';
+import { logDebug } from '@utils/logger';
+import { readFileSync, writeFileSync } from 'fs';
+
+// Discovery published per device, kept across restarts so entities and devices that are gone can be removed.
+const MANIFEST_PATH = '/data/smartbedmqtt-discovery-manifest.json';
+
+export type DeviceManifest = {
+  /** Device discovery topic. */
+  topic: string;
+  /** Device name in HA. */
+  name: string;
+  /** Component key -> platform. */
+  components: Dictionary<string>;
+};
+
+let manifestLoaded = false;
+let manifest: Dictionary<DeviceManifest> = {};
+
+const ensureManifestLoaded = () => {
+  if (manifestLoaded) return;
+  manifestLoaded = true;
+  try {
+    const json = JSON.parse(readFileSync(MANIFEST_PATH, 'utf8'));
+    if (json && typeof json === 'object') manifest = json;
+    logDebug(`[HA] Loaded discovery manifest from ${MANIFEST_PATH} (devices=${Object.keys(manifest).length})`);
+  } catch {
+    // ok
+  }
+};
+
+const persistManifestNow = () => {
+  try {
+    writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2), 'utf8');
+  } catch {
+    // ok
+  }
+};
+
+/** Every device in the manifest, by `deviceTopic`. */
+export const getDeviceManifests = (): Readonly<Dictionary<DeviceManifest>> => {
+  ensureManifestLoaded();
+  return manifest;
+};
+
+export const recordDeviceManifest = (deviceTopic: string, entry: DeviceManifest) => {
+  ensureManifestLoaded();
+  if (JSON.stringify(manifest[deviceTopic]) === JSON.stringify(entry)) return;
+  manifest[deviceTopic] = entry;
+  persistManifestNow();
+};
+
+export const forgetDeviceManifest = (deviceTopic: string) => {
+  ensureManifestLoaded();
+  if (!manifest[deviceTopic]) return;
+  delete manifest[deviceTopic];
+  persistManifestNow();
+};
@@ -0,0 +1,54 @@
+import { testDevice } from '@utils/testHelpers';
+import { applyEntityOverrides, setEntityOverrides } from './entityOverrides';
+
+const component = { platform: 'button', name: 'Preset: TV', unique_id: 'test_name_preset_tv', icon: 'mdi:tv' };
+const apply = (entityTag = 'preset_tv', stringsKey = 'PresetTV') =>
+  applyEntityOverrides(testDevice, entityTag, stringsKey, component);
+
+describe(applyEntityOverrides.name, () => {
+  afterEach(() => setEntityOverrides([]));
+
+  it('leaves entities without overrides alone', () => {
+    setEntityOverrides([{ device: 'Other Bed', entity: 'PresetTV', name: 'Reading' }]);
+
+    expect(apply()).toBe(component);
+  });
+
+  it('matches entities by tag or StringsKey', () => {
+    setEntityOverrides([
+      { device: 'test name', entity: 'Preset: TV', name: 'Reading', category: 'config' },
+      { device: 'Test mdl', entity: 'PresetTV', icon: 'mdi:book-open', enabled: false },
+    ]);
+
+    expect(apply()).toEqual({
+      ...component,
+      name: 'Reading',
+      icon: 'mdi:book-open',
+      entity_category: 'config',
+      enabled_by_default: false,
+    });
+  });
+
+  it('hides entities matching a wildcard', () => {
+    setEntityOverrides([{ device: 'Test Name', entity: 'Program*', hidden: true }]);
+
+    expect(apply('program_tv', 'ProgramTV')).toBeUndefined();
+    expect(apply()).toBe(component);
+  });
+
+  it('matches wildcards written like entity names against entity tags', () => {
+    setEntityOverrides([{ device: 'Test Name', entity: 'Preset: *', hidden: true }]);
+
+    expect(apply('preset_tv', 'PresetTV')).toBeUndefined();
+    expect(apply('program_tv', 'ProgramTV')).toBe(component);
+  });
+
+  it('lets later overrides win', () => {
+    setEntityOverrides([
+      { device: 'Test Name', entity: '*', hidden: true, category: 'diagnostic' },
+      { device: 'Test Name', entity: 'preset_tv', hidden: false, category: 'none' },
+    ]);
+
+    expect(apply()).toEqual(component);
+  });
+});
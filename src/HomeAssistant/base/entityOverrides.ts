@@ -0,0 +1,68 @@
+import { Dictionary } from '@utils/Dictionary';
+import { safeId } from '@utils/safeId';
+import { IDeviceData } from '../IDeviceData';
+
+export interface EntityOverride {
+  /** Bed the override applies to: its `friendlyName` or `name`. */
+  device: string;
+  /** The entity's stable tag (e.g. `Preset: TV`) or `StringsKey` (e.g. `PresetTV`); `*` matches anything. */
+  entity: string;
+  name?: string;
+  icon?: string;
+  /** `none` moves the entity out of its category. */
+  category?: 'config' | 'diagnostic' | 'none';
+  /** Sets `enabled_by_default`, for entities HA did not add to its registry yet. */
+  enabled?: boolean;
+  /** Leave the entity out of discovery (HA removes it). */
+  hidden?: boolean;
+}
+
+let overrides: EntityOverride[] = [];
+
+/** Set the `entityOverrides` option; applied to discovery from then on. */
+export const setEntityOverrides = (value: EntityOverride[]) => {
+  overrides = value;
+};
+
+const matches = (pattern: string, value: string, toPart = (part: string) => part) => {
+  const escaped = pattern.split('*').map((part) => toPart(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i').test(value);
+};
+
+const matchesDevice = ({ device }: IDeviceData, name: string) =>
+  [device.name, device.mdl].some((value) => value?.toLowerCase() === name.trim().toLowerCase());
+
+const matchesEntity = (pattern: string, entityTag: string, stringsKey?: string) => {
+  pattern = pattern.trim();
+  if (!pattern.includes('*')) return safeId(pattern) === entityTag || pattern === stringsKey;
+  // Entity tags are safeIds, so the literal parts of the pattern are too (`Preset: *` matches `preset_tv`).
+  return matches(pattern, entityTag, safeId) || (!!stringsKey && matches(pattern, stringsKey));
+};
+
+/**
+ * Apply the matching `entityOverrides` to an entity's discovery component. Later overrides win over earlier
+ * ones. Returns undefined when the entity is hidden.
+ */
+export const applyEntityOverrides = (
+  deviceData: IDeviceData,
+  entityTag: string,
+  stringsKey: string | undefined,
+  component: Dictionary<any>
+): Dictionary<any> | undefined => {
+  const matching = overrides.filter(
+    ({ device, entity }) => matchesDevice(deviceData, device) && matchesEntity(entity, entityTag, stringsKey)
+  );
+  if (!matching.length) return component;
+
+  const result = { ...component };
+  let hidden = false;
+  for (const { name, icon, category, enabled, hidden: hide } of matching) {
+    if (hide !== undefined) hidden = hide;
+    if (name) result.name = name;
+    if (icon) result.icon = icon;
+    if (category === 'none') delete result.entity_category;
+    else if (category) result.entity_category = category;
+    if (enabled !== undefined) result.enabled_by_default = enabled;
+  }
+  return hidden ? undefined : result;
+};
@@ -1,10 +1,14 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { JsonSensor } from '@ha/JsonSensor';
-import { logDebug, logError, logInfo, logWarn, logWarnDedup } from '@utils/logger';
+import { logDebug, logError, logInfo, logWarn } from '@utils/logger';
 import { retryWithBackoff, isSocketOrBLETimeoutError } from '@utils/retryWithBackoff';
+import { parseMotorTravelTimes } from '@utils/parseMotorTravelTimes';
 import { healthMonitor } from 'Diagnostics/HealthMonitor';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
 import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { getDevices } from './options';
@@ -243,9 +247,15 @@ const connectToDevice = async (
   );
   const stayConnected = device.stayConnected ?? false;
 
+  // Already built on a previous ESPHome session: bind the new BLE device instead of duplicating entities.
+  if (deviceSupervisor.rebind(deviceData, bleDevice)) return;
+  // Before any entity is built, so they pick up the bed's availability topic.
+  deviceSupervisor.register('Keeson', mqtt, deviceData);
+
   // CRITICAL: Use try/finally to ensure cleanup happens even on errors
   try {
     await connect();
+    if (device.pair) await pairDevice(bleDevice);
 
     const controller = await controllerBuilder(deviceData, bleDevice, stayConnected);
     if (!controller) {
@@ -259,7 +269,7 @@ const connectToDevice = async (
     logInfo('[Keeson] Setting up entities for device:', name);
     setupPresetButtons(mqtt, controller);
     setupMassageButtons(mqtt, controller);
-    setupMotorEntities(mqtt, controller);
+    setupMotorEntities(mqtt, controller, parseMotorTravelTimes(device.motorTravelTimes));
 
     try {
       const deviceInfo = await getDeviceInfo();
@@ -268,6 +278,9 @@ const connectToDevice = async (
       logWarn(`[Keeson] Failed to get device info for ${name}, continuing anyway:`, error?.message || error);
     }
 
+    // Keeson keeps its own linked-controller failover for setup; runtime failures are recovered per device.
+    deviceSupervisor.adopt('Keeson', mqtt, deviceData, controller, bleDevice);
+
     // Respect stayConnected flag - don't disconnect if it's true
     if (!stayConnected) {
       await disconnect();
@@ -510,43 +523,23 @@ export const keeson = async (mqtt: IMQTTConnection, esphome: IESPConnection): Pr
   // Note: `deviceNames.length` can be > `devices.length` because a single device can have aliases.
 
   /**
-   * Discovery backoff (project memory)
+   * Discovery (project memory)
    *
    * Why:
    * - When the bed/controller is asleep or out of range, discovery often fails repeatedly.
-   * - Throwing immediately caused a tight retry loop in the main setup, spamming logs.
+   * - We used to retry the scan in a loop here until *something* was found, which blocked the other brands
+   *   and never picked up a second bed that was missing at startup.
    *
    * How:
-   * - Keep retrying discovery *inside* Keeson setup with exponential backoff and rate-limited logs.
-   * - This is safer for long-term operation and keeps HA logs readable.
+   * - Scan once; beds that were not found are attached by the background watcher (`watchForMissingDevices`)
+   *   as soon as one of their controllers advertises.
    */
-  const bleDevices = await retryWithBackoff(
-    async () => {
-      // Keeson/Purple controllers commonly advertise names with null padding; normalize it.
-      const found = await esphome.getBLEDevices(deviceNames, (name) => name?.replace(/\0/g, ''));
-      if (found.length === 0) throw new Error('No Keeson BLE devices discovered');
-      return found;
-    },
-    {
-      maxRetries: undefined, // Keep trying until the bed is awake / in range.
-      initialDelayMs: 10_000,
-      maxDelayMs: 120_000,
-      backoffMultiplier: 1.5,
-      // Discovery failures are effectively retryable; allow socket/BLE transient errors too.
-      isRetryableError: () => true,
-      onRetry: (_error: any, attempt: number, delayMs: number) => {
-        const key = `keeson:discover:${deviceNames.sort().join(',')}`;
-        logWarnDedup(
-          key,
-          60_000,
-          `[Keeson] No BLE devices discovered for: ${deviceNames.join(', ')} (attempt ${attempt}, retry in ${Math.round(
-            delayMs / 1000
-          )}s)`
-        );
-      },
-    }
-  );
-  const setupPromises: Promise<void>[] = [];
+  // Keeson/Purple controllers commonly advertise names with null padding; normalize it.
+  const nameMapper = (name: string) => name?.replace(/\0/g, '');
+  const bleDevices = await esphome.getBLEDevices(deviceNames, nameMapper);
+  const findConfiguredDevice = ({ name, mac }: IBLEDevice) =>
+    normalizeIdentifierKeys(mac).map((k) => devicesMap[k]).find(Boolean) ||
+    normalizeIdentifierKeys(name).map((k) => devicesMap[k]).find(Boolean);
 
   /**
    * Deduplicate multiple discovered controllers that map to the same logical bed.
@@ -563,10 +556,7 @@ export const keeson = async (mqtt: IMQTTConnection, esphome: IESPConnection): Pr
   const grouped = new Map<any, IBLEDevice[]>();
   for (const bleDevice of bleDevices) {
     const { name, mac } = bleDevice;
-    const macKeys = normalizeIdentifierKeys(mac);
-    const nameKeys = normalizeIdentifierKeys(name);
-    const device =
-      macKeys.map((k) => devicesMap[k]).find(Boolean) || nameKeys.map((k) => devicesMap[k]).find(Boolean);
+    const device = findConfiguredDevice(bleDevice);
 
     if (!device) {
       logInfo(`[Keeson] Device not found in configuration for MAC: ${mac} or Name: ${name}`);
@@ -577,7 +567,7 @@ export const keeson = async (mqtt: IMQTTConnection, esphome: IESPConnection): Pr
     grouped.set(device, list);
   }
 
-  for (const [device, candidates] of grouped.entries()) {
+  const setupBed = async (device: any, candidates: IBLEDevice[]) => {
     const bedKey = stableBedKeyFor(device);
     // Order candidates by success/failure history first, RSSI second.
     const scored = [...candidates]
@@ -634,13 +624,26 @@ export const keeson = async (mqtt: IMQTTConnection, esphome: IESPConnection): Pr
           serviceUuidsList,
         })
       );
-      continue;
+      return;
     }
 
-    // Setup each logical bed in parallel with retry logic + linked-controller failover
-    setupPromises.push(setupDeviceWithRetry(mqtt, esphome, sorted, device, controllerBuilder));
-  }
+    await setupDeviceWithRetry(mqtt, esphome, sorted, device, controllerBuilder);
+  };
+
+  watchForMissingDevices({
+    context: 'Keeson',
+    mqtt,
+    esphome,
+    devicesMap,
+    found: bleDevices,
+    setupDevice: async (bleDevice) => {
+      const device = findConfiguredDevice(bleDevice);
+      if (device) await setupBed(device, [bleDevice]);
+    },
+    nameMapper,
+  });
 
+  // Setup each logical bed in parallel with retry logic + linked-controller failover.
   // Wait for all devices to be set up (they will retry forever if needed)
-  await Promise.all(setupPromises);
+  await Promise.all([...grouped.entries()].map(([device, candidates]) => setupBed(device, candidates)));
 };
@@ -21,6 +21,13 @@ export interface KeesonDevice {
    *   aliases: "F0:1D:DF:BB:16:DE"
    */
   aliases?: string;
+  /**
+   * Optional full-travel time per motor in seconds, e.g. `head=25, feet=20`.
+   * Motors listed here get an estimated position (see PositionEstimator).
+   */
+  motorTravelTimes?: string;
+  /** Bond with the bed after connecting (see the Bond diagnostic sensor). */
+  pair?: boolean;
 }
 
 interface OptionsJson {
@@ -1,6 +1,6 @@
-import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { Dictionary } from '@utils/Dictionary';
+import { buildMotorCover } from 'Common/buildMotorCover';
 import { Commands } from 'Common/Commands';
 import { IController } from 'Common/IController';
 import { Cancelable } from 'Common/Cancelable';
@@ -29,7 +29,8 @@ const move = (motorState: MotorState) => {
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number> & ICache<Cache>
+  { cache, deviceData, writeCommand, writeStopCommand, cancelCommands, onWrite }: IController<number> & ICache<Cache>,
+  motorTravelTimes: Dictionary<number> = {}
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -49,47 +50,54 @@ export const setupMotorEntities = (
     motorState.canceled = false;
 
     const stopCommand = move({});
-    if (newCommand !== stopCommand) {
-      await sendCommand();
-      if (motorState.canceled) return;
-      cache.motorState = {};
-    }
+    if (newCommand === stopCommand) return await (writeStopCommand ?? writeCommand)(stopCommand);
+    await sendCommand();
+    if (motorState.canceled) return;
+    cache.motorState = {};
     await writeCommand(stopCommand);
   };
 
   if (!cache.headMotor) {
-    cache.headMotor = new Cover(
+    cache.headMotor = buildMotorCover(
       mqtt,
-      deviceData,
-      buildEntityConfig('MotorHead', { icon: 'mdi:head' }),
-      buildCoverCommand('head')
-    ).setOnline();
+      { cache, deviceData, onWrite },
+      'MotorHead',
+      buildCoverCommand('head'),
+      motorTravelTimes,
+      { icon: 'mdi:head' }
+    );
   }
 
   if (!cache.feetMotor) {
-    cache.feetMotor = new Cover(
+    cache.feetMotor = buildMotorCover(
       mqtt,
-      deviceData,
-      buildEntityConfig('MotorFeet', { icon: 'mdi:foot-print' }),
-      buildCoverCommand('feet')
-    ).setOnline();
+      { cache, deviceData, onWrite },
+      'MotorFeet',
+      buildCoverCommand('feet'),
+      motorTravelTimes,
+      { icon: 'mdi:foot-print' }
+    );
   }
 
   if (!cache.tiltMotor) {
-    cache.tiltMotor = new Cover(
+    cache.tiltMotor = buildMotorCover(
       mqtt,
-      deviceData,
-      buildEntityConfig('MotorTilt', { icon: 'mdi:tilt' }),
-      buildCoverCommand('tilt')
-    ).setOnline();
+      { cache, deviceData, onWrite },
+      'MotorTilt',
+      buildCoverCommand('tilt'),
+      motorTravelTimes,
+      { icon: 'mdi:tilt' }
+    );
   }
 
   if (!cache.lumbarMotor) {
-    cache.lumbarMotor = new Cover(
+    cache.lumbarMotor = buildMotorCover(
       mqtt,
-      deviceData,
-      buildEntityConfig('MotorLumbar', { icon: 'mdi:lumbar' }),
-      buildCoverCommand('lumbar')
-    ).setOnline();
+      { cache, deviceData, onWrite },
+      'MotorLumbar',
+      buildCoverCommand('lumbar'),
+      motorTravelTimes,
+      { icon: 'mdi:lumbar' }
+    );
   }
 };
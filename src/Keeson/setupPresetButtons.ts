@@ -2,7 +2,7 @@ import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { Commands } from 'Common/Commands';
 import { IController } from 'Common/IController';
 import { buildCommandButton } from 'Common/buildCommandButton';
-import { getString } from '@utils/getString';
+import { getEnglishString } from '@utils/getString';
 
 export const setupPresetButtons = (mqtt: IMQTTConnection, controller: IController<number>) => {
   const model = ((controller as any)?.cache as any)?.__keesonModel ?? 'unknown';
@@ -38,8 +38,8 @@ export const setupPresetButtons = (mqtt: IMQTTConnection, controller: IControlle
    * - Present user-facing names as the remote button labels (Yellow/Green/Red).
    * - Add Memory 4 (Red) for remotes that have the third color button.
    */
-  const legacyTagMemory1 = getString('PresetMemory1'); // "Preset: Memory 1"
-  const legacyTagMemory2 = getString('PresetMemory2'); // "Preset: Memory 2"
+  const legacyTagMemory1 = getEnglishString('PresetMemory1'); // "Preset: Memory 1"
+  const legacyTagMemory2 = getEnglishString('PresetMemory2'); // "Preset: Memory 2"
 
   // KSBT remotes commonly use colored memory buttons.
   const useColorLabels = model === 'ksbt';
@@ -52,7 +52,7 @@ export const setupPresetButtons = (mqtt: IMQTTConnection, controller: IControlle
     });
     buildCommandButton('Keeson', mqtt, controller, 'PresetRed', Commands.PresetMemory4, undefined, undefined, {
       // New entity; tag it to Memory 4 for future-proof stable renames.
-      tag: getString('PresetMemory4'),
+      tag: getEnglishString('PresetMemory4'),
     });
   } else {
     // Non-KSBT variants: keep generic memory naming.
@@ -1,3 +1,4 @@
 import { getString } from '@utils/getString';
 
-export const massageOptions = [getString('Off'), getString('Low'), getString('Medium'), getString('High')];
+/** Built when the entities are set up, once the configured language's strings are loaded. */
+export const buildMassageOptions = () => [getString('Off'), getString('Low'), getString('Medium'), getString('High')];
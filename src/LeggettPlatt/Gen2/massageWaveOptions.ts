@@ -1,3 +1,3 @@
 import { getString } from '@utils/getString';
 
-export const massageWaveOptions = [getString('Off'), '1', '2', '3'];
+export const buildMassageWaveOptions = () => [getString('Off'), '1', '2', '3'];
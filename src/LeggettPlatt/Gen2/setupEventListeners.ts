@@ -3,8 +3,8 @@ import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { IEventSource } from 'Common/IEventSource';
 import { Light } from '@ha/Light';
 import { ICache } from 'Common/ICache';
-import { massageOptions } from './massageOptions';
-import { massageWaveOptions } from './massageWaveOptions';
+import { buildMassageOptions } from './massageOptions';
+import { buildMassageWaveOptions } from './massageWaveOptions';
 
 interface Cache {
   massageHead?: Select;
@@ -17,6 +17,8 @@ export const setupEventListeners = (
   _mqtt: IMQTTConnection,
   { cache: { massageHead, massageFoot, massageWave, underBedLights }, on }: ICache<Cache> & IEventSource
 ) => {
+  const massageOptions = buildMassageOptions();
+  const massageWaveOptions = buildMassageWaveOptions();
   on('read', (data: Uint8Array) => {
     const head = data[2] - 0x40;
     if ((head & 0x80) === 0x0) {
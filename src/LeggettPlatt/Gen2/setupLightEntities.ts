@@ -1,7 +1,7 @@
 import { Light, LightState } from '@ha/Light';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { getString } from '@utils/getString';
 import { IController } from 'Common/IController';
+import { buildEntityConfig } from 'Common/buildEntityConfig';
 import { Commands } from './Commands';
 
 const WHITE = { r: 255, g: 255, b: 255 };
@@ -19,7 +19,7 @@ export const setupLightEntities = (
     {
       supportsBrightness: true,
       supportsRGB: true,
-      description: getString('UnderBedLights'),
+      ...buildEntityConfig('UnderBedLights'),
     },
     async (state) => {
       const oldState: LightState = light.getState() || {};
@@ -1,22 +1,24 @@
 import { Select } from '@ha/Select';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { getString } from '@utils/getString';
 import { IController } from 'Common/IController';
+import { buildEntityConfig } from 'Common/buildEntityConfig';
 import { Commands } from './Commands';
-import { massageOptions } from './massageOptions';
-import { massageWaveOptions } from './massageWaveOptions';
+import { buildMassageOptions } from './massageOptions';
+import { buildMassageWaveOptions } from './massageWaveOptions';
 
 export const setupMassageEntities = (
   mqtt: IMQTTConnection,
   { deviceData, cache, writeCommand }: IController<number[]>
 ) => {
+  const massageOptions = buildMassageOptions();
+  const massageWaveOptions = buildMassageWaveOptions();
   if (!cache.massageHead) {
     cache.massageHead = new Select(
       mqtt,
       deviceData,
       {
         options: massageOptions,
-        description: getString('MassageHead'),
+        ...buildEntityConfig('MassageHead'),
       },
       async (state) => {
         const index = massageOptions.indexOf(state);
@@ -32,7 +34,7 @@ export const setupMassageEntities = (
       deviceData,
       {
         options: massageOptions,
-        description: getString('MassageFoot'),
+        ...buildEntityConfig('MassageFoot'),
       },
       async (state) => {
         const index = massageOptions.indexOf(state);
@@ -48,7 +50,7 @@ export const setupMassageEntities = (
       deviceData,
       {
         options: massageWaveOptions,
-        description: getString('MassageWave'),
+        ...buildEntityConfig('MassageWave'),
       },
       async (state) => {
         const index = massageWaveOptions.indexOf(state);
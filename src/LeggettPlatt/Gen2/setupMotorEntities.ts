@@ -1,6 +1,7 @@
 import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { registerMotor } from 'Common/commandRegistry';
 import { IController } from 'Common/IController';
 import { stringToBytes } from './stringToBytes';
 import { arrayEquals } from '@utils/arrayEquals';
@@ -37,7 +38,7 @@ const move = (motorState: MotorState) => {
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number[]> & ICache<Cache>
+  { cache, deviceData, writeCommand, writeStopCommand, cancelCommands }: IController<number[]> & ICache<Cache>
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -55,11 +56,10 @@ export const setupMotorEntities = (
     motorState.canceled = false;
 
     const stopCommand = move({});
-    if (!arrayEquals(newCommand, stopCommand)) {
-      await sendCommand();
-      if (motorState.canceled) return;
-      cache.motorState = {};
-    }
+    if (arrayEquals(newCommand, stopCommand)) return await (writeStopCommand ?? writeCommand)(stopCommand);
+    await sendCommand();
+    if (motorState.canceled) return;
+    cache.motorState = {};
     await writeCommand(stopCommand);
   };
 
@@ -68,7 +68,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorHead', { icon: 'mdi:head' }),
-      buildCoverCommand('head')
+      registerMotor({ cache, deviceData }, 'head', buildCoverCommand('head'))
     ).setOnline();
   }
 
@@ -77,7 +77,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorFeet', { icon: 'mdi:foot-print' }),
-      buildCoverCommand('feet')
+      registerMotor({ cache, deviceData }, 'feet', buildCoverCommand('feet'))
     ).setOnline();
   }
 
@@ -86,7 +86,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorPillow', { icon: 'mdi:pillow' }),
-      buildCoverCommand('pillow')
+      registerMotor({ cache, deviceData }, 'pillow', buildCoverCommand('pillow'))
     ).setOnline();
   }
 
@@ -95,7 +95,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorLumbar', { icon: 'mdi:lumbar' }),
-      buildCoverCommand('lumbar')
+      registerMotor({ cache, deviceData }, 'lumbar', buildCoverCommand('lumbar'))
     ).setOnline();
   }
 };
@@ -13,8 +13,7 @@ import { setupMotorEntities } from './setupMotorEntities';
 const buildCommand = (command: number) => [0x4, 0x2, ...intToBytes(command)];
 
 export const controllerBuilder = async (mqtt: IMQTTConnection, deviceData: IDeviceData, bleDevice: IBLEDevice) => {
-  const { name, getCharacteristic, pair } = bleDevice;
-  await pair();
+  const { name, getCharacteristic } = bleDevice;
 
   const characteristic = await getCharacteristic(
     '62741523-52f9-8864-b1ab-3b3a8d65950b',
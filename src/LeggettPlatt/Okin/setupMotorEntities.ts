@@ -1,6 +1,7 @@
 import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { registerMotor } from 'Common/commandRegistry';
 import { Commands } from 'Common/Commands';
 import { IController } from 'Common/IController';
 import { Cancelable } from 'Common/Cancelable';
@@ -60,7 +61,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorHead', { icon: 'mdi:head' }),
-      buildCoverCommand('head')
+      registerMotor({ cache, deviceData }, 'head', buildCoverCommand('head'))
     ).setOnline();
   }
 
@@ -69,7 +70,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorFeet', { icon: 'mdi:foot-print' }),
-      buildCoverCommand('feet')
+      registerMotor({ cache, deviceData }, 'feet', buildCoverCommand('feet'))
     ).setOnline();
   }
 
@@ -78,7 +79,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorPillow', { icon: 'mdi:pillow' }),
-      buildCoverCommand('pillow')
+      registerMotor({ cache, deviceData }, 'pillow', buildCoverCommand('pillow'))
     ).setOnline();
   }
 
@@ -87,7 +88,7 @@ export const setupMotorEntities = (
       mqtt,
       deviceData,
       buildEntityConfig('MotorLumbar', { icon: 'mdi:lumbar' }),
-      buildCoverCommand('lumbar')
+      registerMotor({ cache, deviceData }, 'lumbar', buildCoverCommand('lumbar'))
     ).setOnline();
   }
 };
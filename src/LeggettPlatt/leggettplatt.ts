@@ -1,9 +1,13 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildDictionary } from '@utils/buildDictionary';
 import { logError, logInfo, logWarn } from '@utils/logger';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { controllerBuilder as gen2ControllerBuilder } from './Gen2/controllerBuilder';
 import { isSupported as isGen2Supported } from './Gen2/isSupported';
 import { controllerBuilder as okinControllerBuilder } from './Okin/controllerBuilder';
@@ -20,9 +24,8 @@ export const leggettplatt = async (mqtt: IMQTTConnection, esphome: IESPConnectio
   const devicesMap = buildDictionary(devices, (device) => ({ key: device.name.toLowerCase(), value: device }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[LeggettPlatt] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, disconnect } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
 
     const controllerBuilder = checks
       .map((check, index) => (check(bleDevice) ? controllerBuilders[index] : undefined))
@@ -36,20 +39,37 @@ export const leggettplatt = async (mqtt: IMQTTConnection, esphome: IESPConnectio
         name,
         JSON.stringify({ name, address, manufacturerDataList, serviceUuidsList })
       );
-      continue;
+      return;
     }
 
     const device = devicesMap[mac] || devicesMap[name.toLowerCase()];
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'LeggettPlatt');
-    await connect();
+    await deviceSupervisor.supervise({
+      context: 'LeggettPlatt',
+      mqtt,
+      deviceData,
+      bleDevice,
+      setup: async (bleDevice) => {
+        const { connect, disconnect } = bleDevice;
+        await connect();
+        // Okin controllers only take commands from a bonded client.
+        if (device.pair ?? isOkinSupported(bleDevice)) await pairDevice(bleDevice);
 
-    const controller = await controllerBuilder(mqtt, deviceData, bleDevice);
-    if (!controller) {
-      await disconnect();
-      continue;
-    }
+        const controller = await controllerBuilder(mqtt, deviceData, bleDevice);
+        if (!controller) {
+          await disconnect();
+          return undefined;
+        }
 
-    const deviceInfo = await bleDevice.getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
-  }
+        // Entities exist at this point, so a device info failure must not fail (and re-run) the setup.
+        const deviceInfo = await bleDevice.getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        return controller;
+      },
+    });
+  };
+
+  const bleDevices = await esphome.getBLEDevices(deviceNames);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'LeggettPlatt', mqtt, esphome, devicesMap, found: bleDevices, setupDevice });
 };
@@ -3,6 +3,8 @@ import { getRootOptions } from '@utils/options';
 export interface LeggettPlattDevice {
   friendlyName: string;
   name: string;
+  /** Bond with the bed after connecting (default `true` for Okin controllers). */
+  pair?: boolean;
 }
 
 interface OptionsJson {
@@ -5,6 +5,9 @@ export interface LinakDevice {
   name: string;
   motorCount?: number;
   hasMassage?: boolean;
+  /** Comma separated names of presets stored by the add-on, e.g. "Reading, TV". */
+  virtualPresets?: string;
+  pair?: boolean;
 }
 
 interface OptionsJson {
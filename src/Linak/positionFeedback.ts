@@ -0,0 +1,40 @@
+import { StringsKey } from '@utils/getString';
+
+export type FeedbackMotor = 'head' | 'back' | 'legs' | 'feet';
+
+interface PositionFeedback {
+  /** Name of the notify handle reporting this motor's position. */
+  notifyName: string;
+  angleKey: StringsKey;
+  targetAngleKey: StringsKey;
+  /** Raw position reported at `maxAngle`. */
+  maxPosition: number;
+  maxAngle: number;
+}
+
+export const positionFeedback: Record<FeedbackMotor, PositionFeedback> = {
+  head: {
+    notifyName: 'head',
+    angleKey: 'AngleHead',
+    targetAngleKey: 'TargetAngleHead',
+    maxPosition: 820,
+    maxAngle: 68,
+  },
+  back: {
+    notifyName: 'back',
+    angleKey: 'AngleBack',
+    targetAngleKey: 'TargetAngleBack',
+    maxPosition: 820,
+    maxAngle: 68,
+  },
+  legs: { notifyName: 'leg', angleKey: 'AngleLeg', targetAngleKey: 'TargetAngleLeg', maxPosition: 548, maxAngle: 45 },
+  feet: {
+    notifyName: 'feet',
+    angleKey: 'AngleFoot',
+    targetAngleKey: 'TargetAngleFoot',
+    maxPosition: 548,
+    maxAngle: 45,
+  },
+};
+
+export const mapPositionData = (data: Uint8Array) => (data[1] << 8) | data[0];
@@ -1,11 +1,20 @@
 import { Cover } from '@ha/Cover';
+import { NumberSlider } from '@ha/NumberSlider';
+import { PositionalCover } from '@ha/PositionalCover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { StringsKey } from '@utils/getString';
+import { logError } from '@utils/logger';
+import { round } from '@utils/round';
 import { BLEController } from 'BLE/BLEController';
 import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { registerMotor } from 'Common/commandRegistry';
 import { Commands } from './Commands';
 import { arrayEquals } from '@utils/arrayEquals';
 import { Cancelable } from 'Common/Cancelable';
 import { ICache } from 'Common/ICache';
+import { MotorPositioner } from 'Common/MotorPositioner';
+import { FeedbackMotor, mapPositionData, positionFeedback } from './positionFeedback';
 
 interface MotorState {
   head?: boolean;
@@ -16,11 +25,20 @@ interface MotorState {
 
 interface Cache {
   motorState?: MotorState & Cancelable;
+  motorPositioners?: Dictionary<MotorPositioner>;
 }
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: BLEController<number[]> & ICache<Cache>,
+  {
+    cache,
+    deviceData,
+    writeCommand,
+    writeStopCommand,
+    cancelCommands,
+    notifyNames,
+    on,
+  }: BLEController<number[]> & ICache<Cache>,
   motorCount: number
 ) => {
   if (!cache.motorState) cache.motorState = {};
@@ -41,51 +59,82 @@ export const setupMotorEntities = (
     motorState.canceled = false;
 
     const stopCommand = Commands.Move({});
-    if (!arrayEquals(newCommand, stopCommand)) {
-      await sendCommand();
-      if (motorState.canceled) return;
-      cache.motorState = {};
-    }
+    if (arrayEquals(newCommand, stopCommand)) return await writeStopCommand(stopCommand);
+    await sendCommand();
+    if (motorState.canceled) return;
+    cache.motorState = {};
     await writeCommand(stopCommand);
   };
 
-  if (!cache.backMotor) {
-    cache.backMotor = new Cover(
-      mqtt,
-      deviceData,
-      buildEntityConfig('MotorBack', { icon: 'mdi:back' }),
-      buildCoverCommand('back')
-    ).setOnline();
-  }
+  /**
+   * Motors reporting their position over notify get a PositionalCover (0-100% of the motor's range) and a
+   * target angle slider, both driven closed-loop by a MotorPositioner. Other motors keep the plain cover.
+   */
+  const buildMotorCover = (motor: FeedbackMotor, name: StringsKey, icon: string) => {
+    const coverCommand = registerMotor({ cache, deviceData }, motor, buildCoverCommand(motor));
+    const entityConfig = buildEntityConfig(name, { icon });
+    const feedback = positionFeedback[motor];
+    if (!notifyNames.includes(feedback.notifyName)) {
+      return new Cover(mqtt, deviceData, entityConfig, coverCommand).setOnline();
+    }
+
+    const { maxPosition, maxAngle } = feedback;
+    const positioner = new MotorPositioner(
+      {
+        name: `${deviceData.device.name} ${name}`,
+        drive: (direction) => coverCommand(direction === 'up' ? 'OPEN' : 'CLOSE'),
+        stop: () => coverCommand('STOP'),
+      },
+      { tolerance: Math.round(maxPosition * 0.02) }
+    );
+    (cache.motorPositioners ??= {})[motor] = positioner;
+    const logMoveError = (error: any) =>
+      logError(`[Linak] Failed to move '${name}' on device ${deviceData.device.name}`, error);
+    const toPercent = (position: number) => Math.min(100, Math.round((position / maxPosition) * 100));
+    const toAngle = (position: number) => Math.min(maxAngle, round((position / maxPosition) * maxAngle, 1));
 
-  if (!cache.legsMotor) {
-    cache.legsMotor = new Cover(
+    const cover = new PositionalCover(
       mqtt,
       deviceData,
-      buildEntityConfig('MotorLegs', { icon: 'mdi:legs' }),
-      buildCoverCommand('legs')
+      entityConfig,
+      (percent) => {
+        if (isNaN(percent)) return;
+        void positioner.moveTo((percent / 100) * maxPosition).catch(logMoveError);
+      },
+      { onStop: () => void positioner.stop().catch(logMoveError) }
     ).setOnline();
-  }
-
-  if (!cache.headMotor && motorCount > 2) {
-    cache.headMotor = new Cover(
+    new NumberSlider(
       mqtt,
       deviceData,
-      buildEntityConfig('MotorHead', { icon: 'mdi:head' }),
-      buildCoverCommand('head')
+      { min: 0, max: maxAngle, ...buildEntityConfig(feedback.targetAngleKey, { icon: 'mdi:angle-acute' }) },
+      async (angle) => {
+        await positioner.moveTo((Math.min(maxAngle, Math.max(0, angle)) / maxAngle) * maxPosition);
+        const { currentPosition } = positioner;
+        return currentPosition === undefined ? undefined : toAngle(currentPosition);
+      }
     ).setOnline();
-  }
+    on(feedback.notifyName, (data) => {
+      const position = Math.max(0, mapPositionData(data));
+      positioner.setPosition(position);
+      cover.setPosition(toPercent(position));
+    });
+    return cover;
+  };
+
+  if (!cache.backMotor) cache.backMotor = buildMotorCover('back', 'MotorBack', 'mdi:back');
+
+  if (!cache.legsMotor) cache.legsMotor = buildMotorCover('legs', 'MotorLegs', 'mdi:legs');
+
+  if (!cache.headMotor && motorCount > 2) cache.headMotor = buildMotorCover('head', 'MotorHead', 'mdi:head');
+
+  if (!cache.feetMotor && motorCount > 3) cache.feetMotor = buildMotorCover('feet', 'MotorFeet', 'mdi:foot-print');
 
-  if (!cache.feetMotor && motorCount > 3) {
-    cache.feetMotor = new Cover(
+  if (!cache.allMotors) {
+    cache.allMotors = new Cover(
       mqtt,
       deviceData,
-      buildEntityConfig('MotorFeet', { icon: 'mdi:foot-print' }),
-      buildCoverCommand('feet')
+      buildEntityConfig('MotorAll'),
+      registerMotor({ cache, deviceData }, 'all', buildCoverCommand('all'))
     ).setOnline();
   }
-
-  if (!cache.allMotors) {
-    cache.allMotors = new Cover(mqtt, deviceData, buildEntityConfig('MotorAll'), buildCoverCommand('all')).setOnline();
-  }
 };
@@ -0,0 +1,44 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { mocked, testDevice } from '@utils/testHelpers';
+import { IController } from 'Common/IController';
+import { setupCommandTopic } from 'Common/setupCommandTopic';
+import { mock } from 'jest-mock-extended';
+import { Commands } from './Commands';
+import { setupPresetButtons } from './setupPresetButtons';
+
+jest.mock('@utils/logger');
+jest.mock('@ha/base/deviceDiscovery');
+
+const mqtt = mock<IMQTTConnection>();
+let onCommand: (message: string) => Promise<void>;
+
+describe(setupPresetButtons.name, () => {
+  let controller: IController<number[]>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mocked(mqtt.on).mockImplementation((topic, handler) => {
+      if (topic === 'device_topic/command') onCommand = handler;
+    });
+    controller = {
+      cache: {},
+      deviceData: testDevice,
+      writeCommand: jest.fn().mockResolvedValue(undefined),
+      writeCommands: jest.fn(),
+      cancelCommands: jest.fn(),
+    };
+    setupPresetButtons(mqtt, controller);
+    setupCommandTopic(mqtt, controller);
+  });
+
+  it('accepts memory presets on the command topic', async () => {
+    await onCommand('{"action":"PresetMemory2"}');
+    expect(controller.writeCommand).toHaveBeenCalledWith(Commands.PresetMemory2, 100, 300);
+    expect(mqtt.publish).toHaveBeenCalledWith('device_topic/command/result', expect.objectContaining({ status: 'ok' }));
+  });
+
+  it('accepts memory programs on the command topic', async () => {
+    await onCommand('{"action":"ProgramMemory1"}');
+    expect(controller.writeCommand).toHaveBeenCalledWith(Commands.ProgramMemory1, undefined, undefined);
+  });
+});
@@ -3,7 +3,9 @@ import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { StringsKey, getString } from '@utils/getString';
 import { logError } from '@utils/logger';
 import { IController } from 'Common/IController';
+import { armProgramButton } from 'Common/armProgramButton';
 import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { registerCommand } from 'Common/commandRegistry';
 import { Commands } from './Commands';
 
 interface PresetButtonEntities {
@@ -32,13 +34,21 @@ export const setupPresetButtons = (
   ) => {
     if (cache[key]) return;
 
-    cache[key] = new Button(mqtt, deviceData, buildEntityConfig(name, category), async () => {
-      try {
-        await writeCommand(command, repeat && 100, repeat && 300);
-      } catch (e) {
-        logError(`[Linak] Failed to write '${getString(name)}'`, e);
-      }
-    }).setOnline();
+    const sendCommand = () => writeCommand(command, repeat && 100, repeat && 300);
+    registerCommand({ cache, deviceData }, name, sendCommand);
+
+    cache[key] = new Button(
+      mqtt,
+      deviceData,
+      buildEntityConfig(name, category),
+      armProgramButton(mqtt, { cache, deviceData }, name, async () => {
+        try {
+          await sendCommand();
+        } catch (e) {
+          logError(`[Linak] Failed to write '${getString(name)}'`, e);
+        }
+      })
+    ).setOnline();
   };
 
   buildCachedButton('presetMemory1', 'PresetMemory1', Commands.PresetMemory1, { repeat: true });
@@ -1,7 +1,11 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildDictionary } from '@utils/buildDictionary';
 import { logError, logInfo } from '@utils/logger';
+import { getRoutines } from '@utils/options';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { setupCommandTopic } from 'Common/setupCommandTopic';
+import { setupPurgeDeviceButton } from 'Common/setupDiscoveryCleanup';
+import { setupRoutines } from 'Common/setupRoutines';
 import { Controller } from './Controller';
 import { discoverUDPDevices } from './discoverUDPDevices';
 import { getDeviceId } from './getDeviceId';
@@ -38,5 +42,8 @@ export const logicdata = async (mqtt: IMQTTConnection) => {
     setupPresetButtons(mqtt, controller);
     setupMassageEntities(mqtt, controller);
     setupMotorEntities(mqtt, controller);
+    setupRoutines(mqtt, controller, getRoutines());
+    setupCommandTopic(mqtt, controller);
+    setupPurgeDeviceButton(mqtt, controller);
   }
 };
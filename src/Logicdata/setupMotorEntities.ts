@@ -3,6 +3,7 @@ import { IController } from 'Common/IController';
 import { StringsKey } from '@utils/getString';
 import { Cover } from '@ha/Cover';
 import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { registerMotor } from 'Common/commandRegistry';
 import { Commands } from './Commands';
 import { arrayEquals } from '@utils/arrayEquals';
 import { Cancelable } from 'Common/Cancelable';
@@ -55,6 +56,7 @@ export const setupMotorEntities = (
       if (motorState.canceled) return;
       cache.motorState = {};
     };
+    registerMotor({ cache, deviceData }, name.replace(/^Motor/, ''), coverCommand);
     new Cover(mqtt, deviceData, buildEntityConfig(name), coverCommand).setOnline();
   }
 };
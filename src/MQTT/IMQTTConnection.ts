@@ -9,8 +9,12 @@ export interface IMQTTConnection {
    */
   disconnect(): void;
   unsubscribe(topic: string): void;
-  on(event: string, listener: (this: IMQTTConnection, message: string) => void): this;
-  off(event: string, listener: (this: IMQTTConnection, message: string) => void): this;
+  /**
+   * Listen to a subscribed topic. For wildcard subscriptions (`+`/`#`), listen to the pattern itself:
+   * `topic` is the topic the message actually arrived on.
+   */
+  on(event: string, listener: (this: IMQTTConnection, message: string, topic: string) => void): this;
+  off(event: string, listener: (this: IMQTTConnection, message: string, topic: string) => void): this;
   /**
    * Publish an MQTT message.
    *
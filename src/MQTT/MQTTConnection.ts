@@ -2,6 +2,7 @@ import { logError, logInfo } from '@utils/logger';
 import EventEmitter from 'events';
 import { MqttClient } from 'mqtt';
 import { IMQTTConnection } from './IMQTTConnection';
+import { matchesTopic } from './matchesTopic';
 
 export class MQTTConnection extends EventEmitter implements IMQTTConnection {
   private subscribedTopics: string[] = [];
@@ -23,7 +24,14 @@ export class MQTTConnection extends EventEmitter implements IMQTTConnection {
     });
 
     client.on('message', (topic, message) => {
-      this.emit(topic, message.toString());
+      const payload = message.toString();
+      this.emit(topic, payload, topic);
+      // Listeners on a wildcard subscription are registered under the pattern itself.
+      for (const pattern of this.subscribedTopics) {
+        if (pattern !== topic && /[+#]/.test(pattern) && matchesTopic(pattern, topic)) {
+          this.emit(pattern, payload, topic);
+        }
+      }
     });
     this.setMaxListeners(0);
   }
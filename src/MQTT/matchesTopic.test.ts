@@ -0,0 +1,15 @@
+import { matchesTopic } from './matchesTopic';
+
+describe(matchesTopic.name, () => {
+  it.each([
+    ['gw/BTtoMQTT/+', 'gw/BTtoMQTT/AABBCCDDEEFF', true],
+    ['gw/BTtoMQTT/+', 'gw/BTtoMQTT', false],
+    ['gw/BTtoMQTT/+', 'gw/BTtoMQTT/a/b', false],
+    ['gw/#', 'gw/BTtoMQTT/a/b', true],
+    ['gw/+/status', 'gw/proxy/status', true],
+    ['gw/BTtoMQTT', 'gw/BTtoMQTT', true],
+    ['gw/BTtoMQTT', 'gw/other', false],
+  ])('%s matches %s: %s', (pattern, topic, expected) => {
+    expect(matchesTopic(pattern, topic)).toBe(expected);
+  });
+});
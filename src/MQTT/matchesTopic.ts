@@ -0,0 +1,14 @@
+/**
+ * Does `topic` match a subscription `pattern` with MQTT wildcards (`+` one level, `#` the rest)?
+ */
+export const matchesTopic = (pattern: string, topic: string) => {
+  const patternLevels = pattern.split('/');
+  const topicLevels = topic.split('/');
+  for (let i = 0; i < patternLevels.length; i++) {
+    const level = patternLevels[i];
+    if (level === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (level !== '+' && level !== topicLevels[i]) return false;
+  }
+  return patternLevels.length === topicLevels.length;
+};
@@ -0,0 +1,154 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { logDebug, logWarn } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+
+export type GattOperation = 'write' | 'read';
+
+/**
+ * A message from the gateway on `BTtoMQTT/<MAC>` (`id` is the device's MAC).
+ * - GATT results carry `service`, `characteristic`, `success` and the `write`/`read` value (hex).
+ * - Anything else is an advertisement (OpenMQTTGateway BTtoMQTT format).
+ */
+export type GatewayMessage = {
+  id: string;
+  service?: string;
+  characteristic?: string;
+  success?: boolean;
+  write?: string;
+  read?: string;
+  name?: string;
+  rssi?: number;
+  manufacturerdata?: string;
+  servicedatauuid?: string;
+  servicedata?: string;
+  serviceuuids?: string[];
+};
+
+type PendingRequest = {
+  resolve: (message: GatewayMessage) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+};
+
+// The gateway connects to the device for every command, with `ttl` attempts; keep this above all of them.
+const REQUEST_TIMEOUT_MS = seconds(30);
+const COMMAND_TTL = 3;
+
+export const toMac = (id: string) => id.toLowerCase().replace(/[^0-9a-f]/g, '');
+const toGatewayId = (mac: string) =>
+  mac
+    .toUpperCase()
+    .match(/.{1,2}/g)!
+    .join(':');
+
+const isResult = (message: GatewayMessage) =>
+  typeof message.success === 'boolean' && (message.write !== undefined || message.read !== undefined);
+
+/**
+ * GATT commands to one OpenMQTTGateway (ESP32 BLE) over MQTT.
+ *
+ * Topics (relative to the gateway's base topic):
+ * - `commands/MQTTtoBT/config`: `ble_write_*` / `ble_read_*` commands, values as hex (`value_type: HEX`).
+ * - `BTtoMQTT/<MAC>`: advertisements and the results of those commands (see GatewayMessage).
+ *
+ * The gateway's commands carry no request id: results are matched to commands by device, operation, service and
+ * characteristic, oldest first.
+ */
+export class GatewayClient {
+  private pending = new Map<string, PendingRequest[]>();
+  private listeners: Array<(mac: string, message: GatewayMessage) => void> = [];
+  private readonly messagesTopic: string;
+
+  constructor(private mqtt: IMQTTConnection, public readonly topic: string) {
+    this.messagesTopic = `${topic}/BTtoMQTT/+`;
+    mqtt.subscribe(this.messagesTopic);
+    mqtt.on(this.messagesTopic, this.handleMessage);
+  }
+
+  onDeviceMessage(listener: (mac: string, message: GatewayMessage) => void) {
+    this.listeners.push(listener);
+  }
+
+  write(mac: string, service: string, characteristic: string, value: string) {
+    return this.request(mac, 'write', service, characteristic, { ble_write_value: value });
+  }
+
+  async read(mac: string, service: string, characteristic: string) {
+    const { read } = await this.request(mac, 'read', service, characteristic);
+    return read ?? '';
+  }
+
+  close() {
+    this.mqtt.off(this.messagesTopic, this.handleMessage);
+    this.mqtt.unsubscribe(this.messagesTopic);
+    for (const [key, requests] of this.pending) {
+      for (const { reject, timeout } of requests) {
+        clearTimeout(timeout);
+        reject(new Error(`Gateway ${this.topic} closed before ${key} completed`));
+      }
+    }
+    this.pending.clear();
+    this.listeners = [];
+  }
+
+  private request(
+    mac: string,
+    op: GattOperation,
+    service: string,
+    characteristic: string,
+    fields: Record<string, unknown> = {}
+  ) {
+    const key = `${op} ${toMac(mac)} ${service.toLowerCase()}/${characteristic.toLowerCase()}`;
+    return new Promise<GatewayMessage>((resolve, reject) => {
+      const request: PendingRequest = {
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.remove(key, request);
+          reject(new Error(`Gateway ${this.topic} timeout waiting for ${key}`));
+        }, REQUEST_TIMEOUT_MS),
+      };
+      this.pending.set(key, [...(this.pending.get(key) ?? []), request]);
+      this.mqtt.publish(`${this.topic}/commands/MQTTtoBT/config`, {
+        [`ble_${op}_address`]: toGatewayId(mac),
+        [`ble_${op}_service`]: service,
+        [`ble_${op}_char`]: characteristic,
+        ...fields,
+        value_type: 'HEX',
+        ttl: COMMAND_TTL,
+        immediate: true,
+      });
+    });
+  }
+
+  private remove(key: string, request: PendingRequest) {
+    const requests = (this.pending.get(key) ?? []).filter((pending) => pending !== request);
+    if (requests.length) this.pending.set(key, requests);
+    else this.pending.delete(key);
+  }
+
+  private handleMessage = (payload: string) => {
+    let message: GatewayMessage;
+    try {
+      message = JSON.parse(payload);
+    } catch {
+      return logDebug(`[Gateway] Ignoring non-JSON message from ${this.topic}`);
+    }
+    if (!message || typeof message.id !== 'string') return;
+
+    const mac = toMac(message.id);
+    if (isResult(message)) {
+      const op: GattOperation = message.write !== undefined ? 'write' : 'read';
+      const key = `${op} ${mac} ${message.service?.toLowerCase()}/${message.characteristic?.toLowerCase()}`;
+      const request = this.pending.get(key)?.[0];
+      if (!request) return;
+      this.remove(key, request);
+      clearTimeout(request.timeout);
+      if (message.success) return request.resolve(message);
+      logWarn(`[Gateway] ${key} failed on ${this.topic}`);
+      return request.reject(new Error(`Gateway ${op} failed on ${this.topic} for ${message.id}`));
+    }
+
+    for (const listener of this.listeners) listener(mac, message);
+  };
+}
@@ -0,0 +1,140 @@
+import { MQTTConnection } from '@mqtt/MQTTConnection';
+import { createBroker } from 'aedes';
+import { once } from 'events';
+import { connect, MqttClient } from 'mqtt';
+import { AddressInfo, createServer, Server } from 'net';
+import { GatewayConnection } from './GatewayConnection';
+
+jest.mock('@utils/logger');
+
+const GATEWAY = 'home/OMG_ESP32_BLE';
+const BED_ID = 'AA:BB:CC:DD:EE:01';
+const SERVICE = '0000ffe5-0000-1000-8000-00805f9b34fb';
+const WRITE = '0000ffe9-0000-1000-8000-00805f9b34fb';
+
+const connectClient = async (url: string) => {
+  const client = connect(url);
+  await once(client, 'connect');
+  return client;
+};
+
+/**
+ * Scripted OpenMQTTGateway on the broker: answers `ble_write_*` / `ble_read_*` commands for one bed the way
+ * the gateway does (`BTtoMQTT/<MAC>` with the service, characteristic, value and `success`) and records writes.
+ */
+const startGateway = async (url: string, { failWrites = false } = {}) => {
+  const client = await connectClient(url);
+  const commands: any[] = [];
+  const reply = (message: object) =>
+    client.publish(`${GATEWAY}/BTtoMQTT/AABBCCDDEE01`, JSON.stringify({ id: BED_ID, ...message }));
+  client.on('message', (_topic, payload) => {
+    const command = JSON.parse(payload.toString());
+    commands.push(command);
+    if (command.ble_write_address === BED_ID) {
+      const { ble_write_service: service, ble_write_char: characteristic, ble_write_value: write } = command;
+      reply({ service, characteristic, write, success: !failWrites });
+    } else if (command.ble_read_address === BED_ID) {
+      const { ble_read_service: service, ble_read_char: characteristic } = command;
+      reply({ service, characteristic, read: '0102', success: true });
+    }
+  });
+  await new Promise((resolve) => client.subscribe(`${GATEWAY}/commands/MQTTtoBT/config`, resolve));
+  const advertise = () => reply({ name: 'Bed', rssi: -60, serviceuuids: ['0xffe0'], manufacturerdata: '5900a1b2' });
+  return { client, commands, advertise };
+};
+
+describe(GatewayConnection.name, () => {
+  let server: Server;
+  let url: string;
+  let clients: MqttClient[] = [];
+  let connection: GatewayConnection | undefined;
+  const broker = createBroker();
+
+  beforeAll(async () => {
+    server = createServer(broker.handle);
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    connection?.disconnect();
+    connection = undefined;
+    for (const client of clients) client.end(true);
+    clients = [];
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const setup = async (options?: { failWrites?: boolean }) => {
+    const gateway = await startGateway(url, options);
+    const addon = await connectClient(url);
+    clients.push(gateway.client, addon);
+    connection = new GatewayConnection(new MQTTConnection(addon), [{ topic: GATEWAY }]);
+    // Subscriptions are acknowledged in order: once this one is, the gateway's topics are subscribed too.
+    await new Promise((resolve) => addon.subscribe('test/ready', resolve));
+    const found = connection.getBLEDevices(['bed']);
+    gateway.advertise();
+    const [device] = await found;
+    return { gateway, device };
+  };
+
+  it('finds devices from gateway advertisements', async () => {
+    const { device } = await setup();
+
+    expect(device.mac).toBe('aabbccddee01');
+    expect(device.advertisement.serviceUuidsList).toEqual(['0000ffe0-0000-1000-8000-00805f9b34fb']);
+    expect(device.advertisement.manufacturerDataList[0]).toEqual(
+      expect.objectContaining({ uuid: '0x0059', legacyDataList: new Uint8Array([0xa1, 0xb2]) })
+    );
+  });
+
+  it('sends writes and reads in the gateway command format', async () => {
+    const { gateway, device } = await setup();
+
+    const characteristic = await device.getCharacteristic(SERVICE, WRITE);
+    await device.writeCharacteristic(characteristic!.handle, new Uint8Array([0x40, 0x02]));
+    expect(await device.readCharacteristic(characteristic!.handle)).toEqual(new Uint8Array([1, 2]));
+
+    expect(gateway.commands).toEqual([
+      {
+        ble_write_address: BED_ID,
+        ble_write_service: SERVICE,
+        ble_write_char: WRITE,
+        ble_write_value: '4002',
+        value_type: 'HEX',
+        ttl: 3,
+        immediate: true,
+      },
+      {
+        ble_read_address: BED_ID,
+        ble_read_service: SERVICE,
+        ble_read_char: WRITE,
+        value_type: 'HEX',
+        ttl: 3,
+        immediate: true,
+      },
+    ]);
+  });
+
+  it("can't answer optional probes, notifications or pairing", async () => {
+    const { gateway, device } = await setup();
+
+    expect(await device.getCharacteristic(SERVICE, WRITE, false)).toBeUndefined();
+    await expect(device.subscribeToCharacteristic(1, jest.fn())).rejects.toThrow("doesn't forward notifications");
+    await expect(device.pair()).rejects.toThrow("can't pair");
+    expect(gateway.commands).toEqual([]);
+  });
+
+  it('surfaces failed writes as errors', async () => {
+    const { device } = await setup({ failWrites: true });
+
+    const characteristic = await device.getCharacteristic(SERVICE, WRITE);
+    await expect(device.writeCharacteristic(characteristic!.handle, new Uint8Array([1]))).rejects.toThrow(
+      `Gateway write failed on ${GATEWAY} for ${BED_ID}`
+    );
+  });
+});
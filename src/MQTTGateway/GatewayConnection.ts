@@ -0,0 +1,175 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Deferred } from '@utils/deferred';
+import { logInfo, logInfoDedup, logWarnDedup } from '@utils/logger';
+import { seconds } from '@utils/seconds';
+import { DiscoveredBLEAdvertisement, IESPConnection } from 'ESPHome/IESPConnection';
+import { matchesDeviceName } from 'ESPHome/matchesDeviceName';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
+import { GatewayClient, GatewayMessage } from './GatewayClient';
+import { GatewayDevice } from './GatewayDevice';
+import { MQTTGateway } from './options';
+import { toBLEAdvertisement } from './toBLEAdvertisement';
+
+type GatewayAdvertisement = DiscoveredBLEAdvertisement & { gateway: GatewayClient };
+
+const SCAN_TIMEOUT_MS = seconds(30);
+
+/**
+ * BLE transport over OpenMQTTGateway ESP32s instead of ESPHome proxies.
+ *
+ * Advertisements and GATT writes/reads travel over the broker the add-on already uses (see GatewayClient for
+ * the topics). The gateway has no service listing, notifications or pairing, so only brands that just write
+ * to known characteristics work through it (see GatewayDevice).
+ */
+export class GatewayConnection implements IESPConnection {
+  private clients: GatewayClient[] = [];
+  private devices = new Map<string, GatewayDevice>();
+  private advertisementListeners = new Set<(advertisement: GatewayAdvertisement) => void>();
+  private watchers = new Set<Deferred<void>>();
+
+  constructor(private mqtt: IMQTTConnection, private gateways: MQTTGateway[]) {
+    this.connectClients();
+  }
+
+  private connectClients() {
+    this.clients = this.gateways.map(({ topic }) => {
+      const client = new GatewayClient(this.mqtt, topic);
+      client.onDeviceMessage((mac, message) => this.handleDeviceMessage(client, mac, message));
+      return client;
+    });
+  }
+
+  private handleDeviceMessage(gateway: GatewayClient, mac: string, message: GatewayMessage) {
+    // A bed is bound to one gateway; only that gateway's messages reach its GatewayDevice.
+    const device = this.devices.get(mac);
+    if (device?.host === gateway.topic) device.handleMessage(message);
+    if (!this.advertisementListeners.size) return;
+
+    const advertisement = toBLEAdvertisement(message);
+    const name = advertisement.name || mac;
+    for (const listener of this.advertisementListeners) {
+      listener({ name, mac, address: advertisement.address, advertisement, gateway });
+    }
+  }
+
+  async reconnect(): Promise<void> {
+    this.disconnect();
+    logInfo('[Gateway] Reconnecting...');
+    this.connectClients();
+  }
+
+  disconnect(): void {
+    logInfo('[Gateway] Disconnecting...');
+    for (const watcher of this.watchers) watcher.resolve();
+    this.watchers.clear();
+    for (const client of this.clients) client.close();
+    this.clients = [];
+  }
+
+  async getBLEDevices(deviceNames: string[], nameMapper?: (name: string) => string): Promise<IBLEDevice[]> {
+    logInfoDedup(
+      `gateway:search:${deviceNames.join(',')}`,
+      60_000,
+      `[Gateway] Searching for device(s): ${deviceNames.join(', ')}`
+    );
+    let remaining = deviceNames.map((name) => name.toLowerCase());
+    const bleDevices: IBLEDevice[] = [];
+    const complete = new Deferred<void>();
+    let timeout: NodeJS.Timeout | undefined;
+    const stop = Promise.race([
+      complete,
+      new Promise<void>((resolve) => (timeout = setTimeout(resolve, SCAN_TIMEOUT_MS))),
+    ]);
+
+    await this.listenForAdvertisements(
+      (found) => {
+        const before = remaining.length;
+        remaining = remaining.filter((deviceName) => !matchesDeviceName(deviceName, found));
+        if (remaining.length === before) return;
+
+        logInfo(`[Gateway] Found device: ${found.name} (${found.mac}) via ${found.gateway.topic}`);
+        bleDevices.push(this.buildBLEDevice(found));
+        if (!remaining.length) complete.resolve();
+      },
+      stop,
+      nameMapper
+    );
+    clearTimeout(timeout);
+
+    if (remaining.length) {
+      logWarnDedup(
+        `gateway:miss:${remaining.join(',')}`,
+        60_000,
+        `[Gateway] Could not find device(s): ${remaining.join(', ')} (timed out after ${SCAN_TIMEOUT_MS / 1000}s)`
+      );
+    }
+    return bleDevices;
+  }
+
+  watchForBLEDevices(
+    deviceNames: string[],
+    onDeviceFound: (bleDevice: IBLEDevice, matchedNames: string[]) => void,
+    nameMapper?: (name: string) => string
+  ): () => void {
+    let remaining = deviceNames.map((name) => name.toLowerCase());
+    const complete = new Deferred<void>();
+    const stop = () => {
+      this.watchers.delete(complete);
+      complete.resolve();
+    };
+    this.watchers.add(complete);
+    logInfo(`[Gateway] Watching in the background for device(s): ${remaining.join(', ')}`);
+
+    void this.listenForAdvertisements(
+      (found) => {
+        const matchedNames = remaining.filter((deviceName) => matchesDeviceName(deviceName, found));
+        if (!matchedNames.length) return;
+
+        remaining = remaining.filter((deviceName) => !matchedNames.includes(deviceName));
+        logInfo(`[Gateway] Found device in the background: ${found.name} (${found.mac})`);
+        onDeviceFound(this.buildBLEDevice(found), matchedNames);
+        if (!remaining.length) stop();
+      },
+      complete,
+      nameMapper
+    );
+    return stop;
+  }
+
+  async discoverBLEDevices(
+    onNewDeviceFound: (device: DiscoveredBLEAdvertisement) => void,
+    complete: Promise<void>,
+    nameMapper?: (name: string) => string
+  ) {
+    const seen = new Set<string>();
+    await this.listenForAdvertisements(
+      (device) => {
+        if (seen.has(device.mac)) return;
+        seen.add(device.mac);
+        onNewDeviceFound(device);
+      },
+      complete,
+      nameMapper
+    );
+  }
+
+  private buildBLEDevice({ name, mac, advertisement, gateway }: GatewayAdvertisement) {
+    const device = new GatewayDevice(name, advertisement, gateway);
+    this.devices.set(mac, device);
+    return device;
+  }
+
+  private async listenForAdvertisements(
+    onAdvertisement: (device: GatewayAdvertisement) => void,
+    complete: Promise<unknown>,
+    nameMapper?: (name: string) => string
+  ) {
+    const listener = (device: GatewayAdvertisement) => {
+      const name = nameMapper && device.advertisement.name ? nameMapper(device.advertisement.name) : device.name;
+      onAdvertisement({ ...device, name: name || device.mac });
+    };
+    this.advertisementListeners.add(listener);
+    await complete;
+    this.advertisementListeners.delete(listener);
+  }
+}
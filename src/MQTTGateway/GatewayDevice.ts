@@ -0,0 +1,109 @@
+import { BluetoothGATTCharacteristic, BluetoothGATTService } from '@2colors/esphome-native-api';
+import { logDebug } from '@utils/logger';
+import { BLEAdvertisement } from 'ESPHome/types/BLEAdvertisement';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
+import { GatewayClient, GatewayMessage } from './GatewayClient';
+import { toBLEAdvertisement } from './toBLEAdvertisement';
+
+type CharacteristicRef = { service: string; characteristic: string };
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const fromHex = (hex: string) => new Uint8Array(Buffer.from(hex, 'hex'));
+
+/**
+ * A bed reached through an OpenMQTTGateway.
+ *
+ * The gateway connects to the bed for each write/read and disconnects again, and can't list services, pair or
+ * forward notifications. So:
+ * - `connect`/`disconnect` are no-ops, and `pair`/`subscribeToCharacteristic` reject.
+ * - Characteristics a brand requires are taken on trust and get locally numbered handles, mapped back to their
+ *   UUIDs for each command. Optional probes (`writeLogs` false) can't be answered and find nothing.
+ */
+export class GatewayDevice implements IBLEDevice {
+  public mac: string;
+  private servicesList: BluetoothGATTService[] = [];
+  private characteristics = new Map<number, CharacteristicRef>();
+  private nextHandle = 1;
+  private advertisementListeners: Array<(advertisement: BLEAdvertisement) => void> = [];
+
+  public get address() {
+    return this.advertisement.address;
+  }
+  /** The gateway's base topic (stands in for the proxy host in logs and diagnostics). */
+  public get host() {
+    return this.gateway.topic;
+  }
+
+  constructor(public name: string, public advertisement: BLEAdvertisement, private gateway: GatewayClient) {
+    this.mac = this.address.toString(16).padStart(12, '0');
+  }
+
+  pair = async () => {
+    throw new Error(`OpenMQTTGateway ${this.host} can't pair with ${this.name}`);
+  };
+
+  connect = async () => {};
+
+  disconnect = async () => {};
+
+  writeCharacteristic = async (handle: number, bytes: Uint8Array) => {
+    const { service, characteristic } = this.lookup(handle);
+    await this.gateway.write(this.mac, service, characteristic, toHex(bytes));
+  };
+
+  readCharacteristic = async (handle: number) => {
+    const { service, characteristic } = this.lookup(handle);
+    return fromHex(await this.gateway.read(this.mac, service, characteristic));
+  };
+
+  subscribeToCharacteristic = async () => {
+    throw new Error(`OpenMQTTGateway ${this.host} doesn't forward notifications from ${this.name}`);
+  };
+
+  /** The characteristics looked up so far: the gateway has no service listing. */
+  getServices = async () => this.servicesList;
+
+  getCharacteristic = async (
+    serviceUuid: string,
+    characteristicUuid: string,
+    writeLogs = true
+  ): Promise<BluetoothGATTCharacteristic | undefined> => {
+    const serviceKey = serviceUuid.toLowerCase();
+    const uuid = characteristicUuid.toLowerCase();
+    let service = this.servicesList.find((service) => service.uuid === serviceKey);
+    const known = service?.characteristicsList.find((characteristic) => characteristic.uuid === uuid);
+    if (known) return known;
+    if (!writeLogs) {
+      logDebug(`[Gateway] Can't probe ${serviceUuid}/${characteristicUuid} on ${this.name} through ${this.host}`);
+      return undefined;
+    }
+
+    if (!service) {
+      service = { uuid: serviceKey, handle: this.nextHandle++, characteristicsList: [] };
+      this.servicesList.push(service);
+    }
+    const characteristic = { uuid, handle: this.nextHandle++, properties: 0, descriptorsList: [] };
+    service.characteristicsList.push(characteristic);
+    this.characteristics.set(characteristic.handle, { service: serviceKey, characteristic: uuid });
+    return characteristic;
+  };
+
+  /** Device information characteristics can't be probed through the gateway. */
+  getDeviceInfo = async () => undefined;
+
+  onAdvertisement = (listener: (advertisement: BLEAdvertisement) => void) => {
+    this.advertisementListeners.push(listener);
+  };
+
+  /** Advertisements of this device from its gateway (routed by GatewayConnection). */
+  handleMessage(message: GatewayMessage) {
+    const advertisement = toBLEAdvertisement(message);
+    for (const listener of this.advertisementListeners) listener(advertisement);
+  }
+
+  private lookup(handle: number): CharacteristicRef {
+    const ref = this.characteristics.get(handle);
+    if (!ref) throw new Error(`Unknown handle 0x${handle.toString(16)} for ${this.name} (${this.mac})`);
+    return ref;
+  }
+}
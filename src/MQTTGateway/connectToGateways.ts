@@ -0,0 +1,22 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { logInfo, logWarn } from '@utils/logger';
+import { Type } from '@utils/options';
+import { getProxies, isProxyDiscoveryEnabled } from 'ESPHome/options';
+import { IESPConnection } from 'ESPHome/IESPConnection';
+import { GatewayConnection } from './GatewayConnection';
+import { getGateways } from './options';
+
+/**
+ * Brands that rely on notifications (position/state feedback, command replies) or pairing by default: gateways
+ * neither forward notifications nor pair (see GatewayDevice), so these aren't started when gateways are used.
+ */
+export const gatewayUnsupportedTypes: Type[] = ['linak', 'okimat', 'octo', 'reverie', 'leggettplatt'];
+
+export const connectToGateways = (mqtt: IMQTTConnection): IESPConnection => {
+  const gateways = getGateways();
+  logInfo(`[Gateway] Using MQTT BLE gateway(s): ${gateways.map(({ topic }) => topic).join(', ')}`);
+  if (getProxies().length || isProxyDiscoveryEnabled()) {
+    logWarn('[Gateway] mqttGateways is set, so bleProxies are not used');
+  }
+  return new GatewayConnection(mqtt, gateways);
+};
@@ -0,0 +1,14 @@
+import { getRootOptions } from '@utils/options';
+
+export interface MQTTGateway {
+  /** Base topic of the gateway, e.g. `home/OMG_ESP32_BLE`. */
+  topic: string;
+}
+
+interface OptionsJson {
+  mqttGateways?: MQTTGateway[];
+}
+
+const options: OptionsJson = getRootOptions();
+
+export const getGateways = () => options.mqttGateways ?? [];
@@ -0,0 +1,40 @@
+import { BLEAdvertisement, BLEData } from 'ESPHome/types/BLEAdvertisement';
+import { GatewayMessage, toMac } from './GatewayClient';
+
+// 16-bit UUIDs ('0xfe95', 'fe95') to the 128-bit form the brands compare against.
+const toUuid = (uuid: string) => {
+  const short = uuid.toLowerCase().replace(/^0x/, '');
+  return /^[0-9a-f]{4}$/.test(short) ? `0000${short}-0000-1000-8000-00805f9b34fb` : short;
+};
+
+const toBLEData = (uuid: string, bytes: Buffer): BLEData => ({
+  uuid,
+  legacyDataList: new Uint8Array(bytes),
+  data: bytes.toString('base64'),
+});
+
+/**
+ * Map a gateway (OpenMQTTGateway/Theengs) advertisement to the ESPHome shape the brands use.
+ * `manufacturerdata` starts with the little-endian company id, like the raw AD structure.
+ */
+export const toBLEAdvertisement = (message: GatewayMessage): BLEAdvertisement => {
+  const manufacturerDataList: BLEData[] = [];
+  if (message.manufacturerdata && message.manufacturerdata.length >= 4) {
+    const bytes = Buffer.from(message.manufacturerdata, 'hex');
+    const companyId = bytes.readUInt16LE(0).toString(16).padStart(4, '0');
+    manufacturerDataList.push(toBLEData(`0x${companyId}`, bytes.subarray(2)));
+  }
+  const serviceDataList: BLEData[] = [];
+  if (message.servicedatauuid && message.servicedata) {
+    serviceDataList.push(toBLEData(toUuid(message.servicedatauuid), Buffer.from(message.servicedata, 'hex')));
+  }
+  return {
+    name: message.name ?? '',
+    address: parseInt(toMac(message.id), 16),
+    rssi: message.rssi ?? 0,
+    manufacturerDataList,
+    serviceDataList,
+    serviceUuidsList: (message.serviceuuids ?? []).map(toUuid),
+    addressType: 0,
+  };
+};
@@ -1,10 +1,15 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildDictionary } from '@utils/buildDictionary';
 import { logError, logInfo } from '@utils/logger';
+import { parseMotorTravelTimes } from '@utils/parseMotorTravelTimes';
 import { BLEController } from 'BLE/BLEController';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { buildCommands } from './CommandBuilder';
 import { getDevices } from './options';
 import { setupCoverEntities } from './setupCoverEntities';
@@ -18,39 +23,54 @@ export const motosleep = async (mqtt: IMQTTConnection, esphome: IESPConnection)
   const devicesMap = buildDictionary(devices, (device) => ({ key: device.name.toLowerCase(), value: device }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[MotoSleep] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, disconnect, getCharacteristic } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
     const device = devicesMap[mac] || devicesMap[name.toLowerCase()];
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'MotoSleep');
-    await connect();
+    await deviceSupervisor.supervise({
+      context: 'MotoSleep',
+      mqtt,
+      deviceData,
+      bleDevice,
+      setup: async (bleDevice) => {
+        const { connect, disconnect, getCharacteristic } = bleDevice;
+        await connect();
+        if (device.pair) await pairDevice(bleDevice);
 
-    const characteristic = await getCharacteristic(
-      '0000ffe0-0000-1000-8000-00805f9b34fb',
-      '0000ffe1-0000-1000-8000-00805f9b34fb'
-    );
-    if (!characteristic) {
-      await disconnect();
-      continue;
-    }
+        const characteristic = await getCharacteristic(
+          '0000ffe0-0000-1000-8000-00805f9b34fb',
+          '0000ffe1-0000-1000-8000-00805f9b34fb'
+        );
+        if (!characteristic) {
+          await disconnect();
+          return undefined;
+        }
 
-    if (!device.stayConnected) await disconnect();
+        if (!device.stayConnected) await disconnect();
 
-    const controller = new BLEController(
-      deviceData,
-      bleDevice,
-      characteristic.handle,
-      (bytes: number[]) => bytes,
-      {},
-      device.stayConnected,
-      (bleDevice as BLEDevice).host
-    );
-    logInfo('[MotoSleep] Setting up entities for device:', name);
-    const { simpleCommands, complexCommands } = buildCommands(name);
-    setupButtonEntities(mqtt, controller, simpleCommands);
-    setupCoverEntities(mqtt, controller, complexCommands);
+        const controller = new BLEController(
+          deviceData,
+          bleDevice,
+          characteristic.handle,
+          (bytes: number[]) => bytes,
+          {},
+          device.stayConnected,
+          (bleDevice as BLEDevice).host
+        );
+        logInfo('[MotoSleep] Setting up entities for device:', name);
+        const { simpleCommands, complexCommands } = buildCommands(name);
+        setupButtonEntities(mqtt, controller, simpleCommands);
+        setupCoverEntities(mqtt, controller, complexCommands, parseMotorTravelTimes(device.motorTravelTimes));
+
+        // Entities exist at this point, so a device info failure must not fail (and re-run) the setup.
+        const deviceInfo = await bleDevice.getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        return controller;
+      },
+    });
+  };
 
-    const deviceInfo = await bleDevice.getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
-  }
+  const bleDevices = await esphome.getBLEDevices(deviceNames);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'MotoSleep', mqtt, esphome, devicesMap, found: bleDevices, setupDevice });
 };
@@ -4,6 +4,8 @@ export interface MotoSleepDevice {
   friendlyName: string;
   name: string;
   stayConnected: boolean | undefined;
+  motorTravelTimes?: string;
+  pair?: boolean;
 }
 
 interface OptionsJson {
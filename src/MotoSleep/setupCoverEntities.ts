@@ -1,7 +1,7 @@
-import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
 import { arrayEquals } from '@utils/arrayEquals';
-import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { buildMotorCover } from 'Common/buildMotorCover';
 import { ICache } from 'Common/ICache';
 import { IController } from 'Common/IController';
 import { ComplexCommand } from './CommandBuilder';
@@ -17,8 +17,9 @@ export interface Cache {
 
 export const setupCoverEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number[]> & ICache<Cache>,
-  complexCommands: ComplexCommand[]
+  { cache, deviceData, writeCommand, cancelCommands, onWrite }: IController<number[]> & ICache<Cache>,
+  complexCommands: ComplexCommand[],
+  motorTravelTimes: Dictionary<number> = {}
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -48,6 +49,6 @@ export const setupCoverEntities = (
       }
       await writeCommand([0x24, 0x62], 5, 100);
     };
-    new Cover(mqtt, deviceData, buildEntityConfig(name), coverCommand).setOnline();
+    buildMotorCover(mqtt, { cache, deviceData, onWrite }, name, coverCommand, motorTravelTimes);
   }
 };
@@ -3,9 +3,13 @@ import { buildDictionary } from '@utils/buildDictionary';
 import { Deferred } from '@utils/deferred';
 import { logError, logInfo } from '@utils/logger';
 import { BLEController } from 'BLE/BLEController';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { calculateChecksum } from './calculateChecksum';
 import { extractFeatureValuePairFromData } from './extractFeaturesFromData';
 import { extractPacketFromMessage } from './extractPacketFromMessage';
@@ -13,6 +17,7 @@ import { getDevices } from './options';
 import { setupLightSwitch } from './setupLightSwitch';
 import { setupMotorEntities } from './setupMotorEntities';
 import { byte } from '@utils/byte';
+import { parseMotorTravelTimes } from '@utils/parseMotorTravelTimes';
 import { BLEDevice } from 'ESPHome/types/BLEDevice';
 
 export type Command = {
@@ -43,84 +48,102 @@ export const octo = async (mqtt: IMQTTConnection, esphome: IESPConnection) => {
   const devicesMap = buildDictionary(devices, (device) => ({ key: device.name.toLowerCase(), value: device }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[Octo] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, disconnect, getCharacteristic, getDeviceInfo } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
     const { pin, ...device } = devicesMap[mac] || devicesMap[name.toLowerCase()];
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'Octo');
-    await connect();
-
-    const characteristic = await getCharacteristic(
-      '0000ffe0-0000-1000-8000-00805f9b34fb',
-      '0000ffe1-0000-1000-8000-00805f9b34fb'
-    );
-    if (!characteristic) {
-      await disconnect();
-      continue;
-    }
-
-    const controller = new BLEController(
+    await deviceSupervisor.supervise({
+      context: 'Octo',
+      mqtt,
       deviceData,
       bleDevice,
-      characteristic.handle,
-      (command: number[] | Command) => buildComplexCommand(Array.isArray(command) ? { command: command } : command),
-      {
-        feedback: characteristic.handle,
-      },
-      false,
-      (bleDevice as BLEDevice).host
-    );
+      setup: async (bleDevice) => {
+        const { connect, disconnect, getCharacteristic, getDeviceInfo } = bleDevice;
+        await connect();
+        if (device.pair) await pairDevice(bleDevice);
 
-    const featureState = { hasLight: false, lightState: false, hasPin: false, pinLock: false };
-    const allFeaturesReturned = new Deferred<void>();
+        const characteristic = await getCharacteristic(
+          '0000ffe0-0000-1000-8000-00805f9b34fb',
+          '0000ffe1-0000-1000-8000-00805f9b34fb'
+        );
+        if (!characteristic) {
+          await disconnect();
+          return undefined;
+        }
 
-    const loadFeatures = (message: Uint8Array) => {
-      const packet = extractPacketFromMessage(message);
-      if (!packet) return;
-      const { command, data } = packet;
-      if (command[0] == 0x21 && command[1] == 0x71) {
-        // features
-        const featureValue = extractFeatureValuePairFromData(data);
-        if (featureValue == null) return;
+        const controller = new BLEController(
+          deviceData,
+          bleDevice,
+          characteristic.handle,
+          (command: number[] | Command) => buildComplexCommand(Array.isArray(command) ? { command: command } : command),
+          {
+            feedback: characteristic.handle,
+          },
+          false,
+          (bleDevice as BLEDevice).host
+        );
 
-        const { feature, value } = featureValue;
-        switch (feature) {
-          case 0x3:
-            featureState.hasPin = value[0] == 0x1;
-            featureState.pinLock = value[1] !== 0x1;
-            return;
-          case 0x102:
-            featureState.hasLight = true;
-            featureState.lightState = value[0] == 0x1;
-            return;
-          case 0xffffff:
-            return allFeaturesReturned.resolve();
-        }
-      }
-    };
-    controller.on('feedback', loadFeatures);
+        const featureState = { hasLight: false, lightState: false, hasPin: false, pinLock: false };
+        const allFeaturesReturned = new Deferred<void>();
 
-    logInfo('[Octo] Requesting features for device:', name);
-    await controller.writeCommand([0x20, 0x71]); // request bed features
-    await allFeaturesReturned;
-    controller.off('feedback', loadFeatures);
+        const loadFeatures = (message: Uint8Array) => {
+          const packet = extractPacketFromMessage(message);
+          if (!packet) return;
+          const { command, data } = packet;
+          if (command[0] == 0x21 && command[1] == 0x71) {
+            // features
+            const featureValue = extractFeatureValuePairFromData(data);
+            if (featureValue == null) return;
 
-    if (featureState.hasPin && featureState.pinLock) {
-      if (pin?.length !== 4) {
-        logError('[Octo] 4 Digit Numeric Pin Required But Not Provided');
-        await disconnect();
-        continue;
-      }
-      await controller.writeCommand({ command: [0x20, 0x43], data: pin.split('').map((c) => parseInt(c)) });
-    }
+            const { feature, value } = featureValue;
+            switch (feature) {
+              case 0x3:
+                featureState.hasPin = value[0] == 0x1;
+                featureState.pinLock = value[1] !== 0x1;
+                return;
+              case 0x102:
+                featureState.hasLight = true;
+                featureState.lightState = value[0] == 0x1;
+                return;
+              case 0xffffff:
+                return allFeaturesReturned.resolve();
+            }
+          }
+        };
+        controller.on('feedback', loadFeatures);
 
-    logInfo('[Octo] Setting up entities for device:', name);
-    const deviceInfo = await getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        logInfo('[Octo] Requesting features for device:', name);
+        await controller.writeCommand([0x20, 0x71]); // request bed features
+        await allFeaturesReturned;
+        controller.off('feedback', loadFeatures);
 
-    if (featureState.hasLight) {
-      setupLightSwitch(mqtt, controller, featureState.lightState);
-    }
-    setupMotorEntities(mqtt, controller);
-  }
+        if (featureState.hasPin && featureState.pinLock) {
+          if (pin?.length !== 4) {
+            logError('[Octo] 4 Digit Numeric Pin Required But Not Provided');
+            await disconnect();
+            return undefined;
+          }
+          const unlock = () =>
+            controller.writeCommand({ command: [0x20, 0x43], data: pin.split('').map((c) => parseInt(c)) });
+          await unlock();
+          controller.onReconnect(unlock);
+        }
+
+        logInfo('[Octo] Setting up entities for device:', name);
+        // Entities are built below, but keep a device info failure from failing (and re-running) the setup.
+        const deviceInfo = await getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+
+        if (featureState.hasLight) {
+          setupLightSwitch(mqtt, controller, featureState.lightState);
+        }
+        setupMotorEntities(mqtt, controller, parseMotorTravelTimes(device.motorTravelTimes));
+        return controller;
+      },
+    });
+  };
+
+  const bleDevices = await esphome.getBLEDevices(deviceNames);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'Octo', mqtt, esphome, devicesMap, found: bleDevices, setupDevice });
 };
@@ -4,6 +4,8 @@ export interface OctoDevice {
   friendlyName: string;
   name: string;
   pin?: string;
+  motorTravelTimes?: string;
+  pair?: boolean;
 }
 
 interface OptionsJson {
@@ -1,6 +1,6 @@
-import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
-import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { Dictionary } from '@utils/Dictionary';
+import { buildMotorCover } from 'Common/buildMotorCover';
 import { Command } from './octo';
 import { IController } from 'Common/IController';
 import { Cancelable } from 'Common/Cancelable';
@@ -26,7 +26,8 @@ const motorPairs: Record<keyof MotorState, keyof MotorState> = {
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number[] | Command> & ICache<Cache>
+  { cache, deviceData, writeCommand, cancelCommands }: IController<number[] | Command> & ICache<Cache>,
+  motorTravelTimes: Dictionary<number> = {}
 ) => {
   if (!cache.motorState) {
     cache.motorState = {
@@ -94,20 +95,24 @@ export const setupMotorEntities = (
   };
 
   if (!cache.headMotor) {
-    cache.headMotor = new Cover(
+    cache.headMotor = buildMotorCover(
       mqtt,
-      deviceData,
-      buildEntityConfig('MotorHead', { icon: 'mdi:head' }),
-      buildCoverCommand('head')
-    ).setOnline();
+      { cache, deviceData },
+      'MotorHead',
+      buildCoverCommand('head'),
+      motorTravelTimes,
+      { icon: 'mdi:head' }
+    );
   }
 
   if (!cache.legsMotor) {
-    cache.legsMotor = new Cover(
+    cache.legsMotor = buildMotorCover(
       mqtt,
-      deviceData,
-      buildEntityConfig('MotorLegs', { icon: 'mdi:foot-print' }),
-      buildCoverCommand('legs')
-    ).setOnline();
+      { cache, deviceData },
+      'MotorLegs',
+      buildCoverCommand('legs'),
+      motorTravelTimes,
+      { icon: 'mdi:foot-print' }
+    );
   }
 };
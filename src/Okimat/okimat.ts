@@ -2,10 +2,15 @@ import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildDictionary } from '@utils/buildDictionary';
 import { intToBytes } from '@utils/intToBytes';
 import { logError, logInfo } from '@utils/logger';
+import { parseMotorTravelTimes } from '@utils/parseMotorTravelTimes';
 import { BLEController } from 'BLE/BLEController';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { getDevices } from './options';
 import { setupLightEntities } from './setupLightEntities';
 import { setupPresetButtons } from './setupPresetButtons';
@@ -22,51 +27,66 @@ export const okimat = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
   const devicesMap = buildDictionary(devices, (device) => ({ key: device.name.toLowerCase(), value: device }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[Okimat] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, pair, disconnect, getCharacteristic, getDeviceInfo } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
     const { remoteCode, ...device } = devicesMap[mac] || devicesMap[name.toLowerCase()];
     const remote = supportedRemotes[remoteCode];
     if (!remote) {
       logError(`[Okimat] Unsupported remote code '${remoteCode}' for device:`, name);
-      continue;
+      return;
     }
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'Okimat');
-    await connect();
-    await pair();
+    await deviceSupervisor.supervise({
+      context: 'Okimat',
+      mqtt,
+      deviceData,
+      bleDevice,
+      setup: async (bleDevice) => {
+        const { connect, disconnect, getCharacteristic, getDeviceInfo } = bleDevice;
+        await connect();
+        // Okimat remotes only take commands from a bonded client.
+        if (device.pair ?? true) await pairDevice(bleDevice);
 
-    const writeCharacteristic = await getCharacteristic(
-      '62741523-52f9-8864-b1ab-3b3a8d65950b',
-      '62741525-52f9-8864-b1ab-3b3a8d65950b'
-    );
-    if (!writeCharacteristic) {
-      await disconnect();
-      continue;
-    }
+        const writeCharacteristic = await getCharacteristic(
+          '62741523-52f9-8864-b1ab-3b3a8d65950b',
+          '62741525-52f9-8864-b1ab-3b3a8d65950b'
+        );
+        if (!writeCharacteristic) {
+          await disconnect();
+          return undefined;
+        }
 
-    const feedbackCharacteristic = await getCharacteristic(
-      '62741523-52f9-8864-b1ab-3b3a8d65950b',
-      '62741625-52f9-8864-b1ab-3b3a8d65950b',
-      false
-    );
-    const notifyHandles = feedbackCharacteristic && { feedback: feedbackCharacteristic.handle };
+        const feedbackCharacteristic = await getCharacteristic(
+          '62741523-52f9-8864-b1ab-3b3a8d65950b',
+          '62741625-52f9-8864-b1ab-3b3a8d65950b',
+          false
+        );
+        const notifyHandles = feedbackCharacteristic && { feedback: feedbackCharacteristic.handle };
 
-    const controller = new BLEController(
-      deviceData,
-      bleDevice,
-      writeCharacteristic.handle,
-      buildCommand,
-      notifyHandles,
-      false,
-      (bleDevice as BLEDevice).host
-    );
-    logInfo('[Okimat] Setting up entities for device:', name);
-    const deviceInfo = await getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
-    const { modelNumber } = deviceInfo || {};
-    if (modelNumber) logInfo('[Okimat] Model number:', modelNumber);
-    setupLightEntities(mqtt, controller, remote);
-    setupPresetButtons(mqtt, controller, remote);
-    setupMotorEntities(mqtt, controller, remote);
-  }
+        const controller = new BLEController(
+          deviceData,
+          bleDevice,
+          writeCharacteristic.handle,
+          buildCommand,
+          notifyHandles,
+          false,
+          (bleDevice as BLEDevice).host
+        );
+        logInfo('[Okimat] Setting up entities for device:', name);
+        // Entities are built below, but keep a device info failure from failing (and re-running) the setup.
+        const deviceInfo = await getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        const { modelNumber } = deviceInfo || {};
+        if (modelNumber) logInfo('[Okimat] Model number:', modelNumber);
+        setupLightEntities(mqtt, controller, remote);
+        setupPresetButtons(mqtt, controller, remote);
+        setupMotorEntities(mqtt, controller, remote, parseMotorTravelTimes(device.motorTravelTimes));
+        return controller;
+      },
+    });
+  };
+
+  const bleDevices = await esphome.getBLEDevices(deviceNames);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'Okimat', mqtt, esphome, devicesMap, found: bleDevices, setupDevice });
 };
@@ -4,6 +4,9 @@ export interface OkimatDevice {
   friendlyName: string;
   name: string;
   remoteCode: string;
+  motorTravelTimes?: string;
+  /** Bond with the bed after connecting (default `true`: Okimat remotes require it). */
+  pair?: boolean;
 }
 
 interface OptionsJson {
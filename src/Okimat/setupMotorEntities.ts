@@ -1,9 +1,9 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
 import { IController } from 'Common/IController';
 import { Remote } from './Remote';
 import { StringsKey } from '@utils/getString';
-import { Cover } from '@ha/Cover';
-import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { buildMotorCover } from 'Common/buildMotorCover';
 import { Cancelable } from 'Common/Cancelable';
 import { ICache } from 'Common/ICache';
 
@@ -23,8 +23,9 @@ const buildCommand = (name: StringsKey, up: number, down: number): Command => {
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number> & ICache<Cache>,
-  remote: Remote
+  { cache, deviceData, writeCommand, cancelCommands, onWrite }: IController<number> & ICache<Cache>,
+  remote: Remote,
+  motorTravelTimes: Dictionary<number> = {}
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -60,6 +61,6 @@ export const setupMotorEntities = (
       if (motorState.canceled) return;
       cache.motorState = {};
     };
-    new Cover(mqtt, deviceData, buildEntityConfig(name), coverCommand).setOnline();
+    buildMotorCover(mqtt, { cache, deviceData, onWrite }, name, coverCommand, motorTravelTimes);
   }
 };
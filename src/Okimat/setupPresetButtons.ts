@@ -6,6 +6,8 @@ import { Remote } from './Remote';
 import { getString, StringsKey } from '@utils/getString';
 import { Button } from '@ha/Button';
 import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { armProgramButton } from 'Common/armProgramButton';
+import { registerCommand } from 'Common/commandRegistry';
 import { logError } from '@utils/logger';
 import { wait } from '@utils/wait';
 
@@ -21,15 +23,25 @@ export const buildSaveCommandButton = <TCommand>(
 ) => {
   if (cache[name]) return;
 
-  cache[name] = new Button(mqtt, deviceData, buildEntityConfig(name, category), async () => {
-    try {
-      await writeCommand(command, count, waitTime);
-      await wait(500);
-      await writeCommand(finishCommand);
-    } catch (e) {
-      logError(`[Okimat] Failed to write '${getString(name)}'`, e);
-    }
-  }).setOnline();
+  const sendCommand = async () => {
+    await writeCommand(command, count, waitTime);
+    await wait(500);
+    await writeCommand(finishCommand);
+  };
+  registerCommand({ cache, deviceData }, name, sendCommand);
+
+  cache[name] = new Button(
+    mqtt,
+    deviceData,
+    buildEntityConfig(name, category),
+    armProgramButton(mqtt, { cache, deviceData }, name, async () => {
+      try {
+        await sendCommand();
+      } catch (e) {
+        logError(`[Okimat] Failed to write '${getString(name)}'`, e);
+      }
+    })
+  ).setOnline();
 };
 export const setupPresetButtons = (mqtt: IMQTTConnection, controller: IController<number>, remote: Remote) => {
   const flatCommand = remote.commands.Flat;
@@ -3,6 +3,9 @@ import { getRootOptions } from '@utils/options';
 export interface ReverieDevice {
   friendlyName: string;
   name: string;
+  /** Comma separated names of presets stored by the add-on, e.g. "Reading, TV". */
+  virtualPresets?: string;
+  pair?: boolean;
 }
 
 interface OptionsJson {
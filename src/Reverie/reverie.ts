@@ -1,9 +1,15 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
 import { buildDictionary } from '@utils/buildDictionary';
 import { logError, logInfo, logWarn } from '@utils/logger';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { PresetMotor, setupVirtualPresets } from 'Common/setupVirtualPresets';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { getDevices } from './options';
 import { isSupported as isSimpleSupported } from './simple/isSupported';
 import { controllerBuilder as simpleControllerBuilder } from './simple/controllerBuilder';
@@ -18,9 +24,8 @@ export const reverie = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
   const devicesMap = buildDictionary(devices, (device) => ({ key: device.name.toLowerCase(), value: device }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[Reverie] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, disconnect } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
 
     const controllerBuilder = checks
       .map((check, index) => (check(bleDevice) ? controllerBuilders[index] : undefined))
@@ -34,20 +39,41 @@ export const reverie = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
         name,
         JSON.stringify({ name, address, manufacturerDataList, serviceUuidsList })
       );
-      continue;
+      return;
     }
 
     const device = devicesMap[mac] || devicesMap[name.toLowerCase()];
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'Reverie');
-    await connect();
+    await deviceSupervisor.supervise({
+      context: 'Reverie',
+      mqtt,
+      deviceData,
+      bleDevice,
+      setup: async (bleDevice) => {
+        const { connect, disconnect } = bleDevice;
+        await connect();
+        if (device.pair) await pairDevice(bleDevice);
 
-    const controller = await controllerBuilder(mqtt, deviceData, bleDevice);
-    if (!controller) {
-      await disconnect();
-      continue;
-    }
+        const controller = await controllerBuilder(mqtt, deviceData, bleDevice);
+        if (!controller) {
+          await disconnect();
+          return undefined;
+        }
+        setupVirtualPresets(mqtt, controller, {
+          key: deviceData.deviceTopic,
+          names: device.virtualPresets,
+          motors: (controller.cache.presetMotors as Dictionary<PresetMotor>) ?? {},
+        });
 
-    const deviceInfo = await bleDevice.getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
-  }
+        // Entities exist at this point, so a device info failure must not fail (and re-run) the setup.
+        const deviceInfo = await bleDevice.getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        return controller;
+      },
+    });
+  };
+
+  const bleDevices = await esphome.getBLEDevices(deviceNames);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'Reverie', mqtt, esphome, devicesMap, found: bleDevices, setupDevice });
 };
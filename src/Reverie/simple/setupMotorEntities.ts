@@ -6,6 +6,8 @@ import { Cancelable } from 'Common/Cancelable';
 import { PositionalCover } from '@ha/PositionalCover';
 import { IController } from 'Common/IController';
 import { ICache } from '../../Common/ICache';
+import { Dictionary } from '@utils/Dictionary';
+import { PresetMotor } from 'Common/setupVirtualPresets';
 
 interface MotorState {
   head?: number;
@@ -14,11 +16,14 @@ interface MotorState {
 
 interface Cache {
   motorState?: MotorState & Cancelable;
+  headMotor?: PositionalCover;
+  feetMotor?: PositionalCover;
+  presetMotors?: Dictionary<PresetMotor>;
 }
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number[]> & ICache<Cache>
+  { cache, deviceData, writeCommand, writeStopCommand, cancelCommands }: IController<number[]> & ICache<Cache>
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -46,7 +51,7 @@ export const setupMotorEntities = (
       deviceData,
       buildEntityConfig('MotorHead', { icon: 'mdi:head' }),
       buildCoverCommand('head'),
-      { onStop: () => writeCommand(Commands.MotorStop) }
+      { onStop: () => (writeStopCommand ?? writeCommand)(Commands.MotorStop) }
     ).setOnline();
   }
 
@@ -56,7 +61,21 @@ export const setupMotorEntities = (
       deviceData,
       buildEntityConfig('MotorFeet', { icon: 'mdi:foot-print' }),
       buildCoverCommand('feet'),
-      { onStop: () => writeCommand(Commands.MotorStop) }
+      { onStop: () => (writeStopCommand ?? writeCommand)(Commands.MotorStop) }
     ).setOnline();
   }
+
+  if (!cache.presetMotors) {
+    // The bed moves to an absolute position itself; positions come back through setupEventListeners.
+    const presetMotor = (cover: PositionalCover, motor: keyof MotorState): PresetMotor => ({
+      get currentPosition() {
+        return cover.getPosition();
+      },
+      moveTo: buildCoverCommand(motor),
+    });
+    cache.presetMotors = {
+      head: presetMotor(cache.headMotor!, 'head'),
+      feet: presetMotor(cache.feetMotor!, 'feet'),
+    };
+  }
 };
@@ -5,6 +5,8 @@ export interface RichmatDevice {
   name: string;
   remoteCode: string;
   stayConnected: boolean | undefined;
+  motorTravelTimes?: string;
+  pair?: boolean;
 }
 
 interface OptionsJson {
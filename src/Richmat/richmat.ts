@@ -1,9 +1,14 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildDictionary } from '@utils/buildDictionary';
 import { logError, logInfo, logWarn } from '@utils/logger';
+import { parseMotorTravelTimes } from '@utils/parseMotorTravelTimes';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { Features } from './Features';
 import { controllerBuilder as nordicControllerBuilder } from './Nordic/controllerBuilder';
 import { isSupported as isNordicSupported } from './Nordic/isSupported';
@@ -26,9 +31,8 @@ export const richmat = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
   const devicesMap = buildDictionary(devices, (device) => ({ key: device.name.toLowerCase(), value: device }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[Richmat] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, disconnect } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
 
     const controllerBuilder = checks
       .map((check, index) => (check(bleDevice) ? controllerBuilders[index] : undefined))
@@ -42,7 +46,7 @@ export const richmat = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
         name,
         JSON.stringify({ name, address, manufacturerDataList, serviceUuidsList })
       );
-      continue;
+      return;
     }
 
     const { remoteCode, ...device } = devicesMap[mac] || devicesMap[name.toLowerCase()];
@@ -50,28 +54,44 @@ export const richmat = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
     const features = remoteFeatures[remoteCode];
     if (!features) {
       logWarn('[Richmat] Remote code not supported, please contact me on Discord', remoteCode);
-      continue;
+      return;
     }
 
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'Richmat');
-    await connect();
+    await deviceSupervisor.supervise({
+      context: 'Richmat',
+      mqtt,
+      deviceData,
+      bleDevice,
+      setup: async (bleDevice) => {
+        const { connect, disconnect } = bleDevice;
+        await connect();
+        if (device.pair) await pairDevice(bleDevice);
 
-    const controller = await controllerBuilder(deviceData, bleDevice);
-    if (!controller) {
-      await disconnect();
-      continue;
-    }
+        const controller = await controllerBuilder(deviceData, bleDevice);
+        if (!controller) {
+          await disconnect();
+          return undefined;
+        }
 
-    if (!device.stayConnected) await disconnect();
+        if (!device.stayConnected) await disconnect();
 
-    const hasFeature = (feature: Features) => (features & feature) === feature;
-    logInfo('[Richmat] Setting up entities for device:', name);
-    setupPresetButtons(mqtt, controller, hasFeature);
-    setupMassageButtons(mqtt, controller, hasFeature);
-    setupUnderBedLightButton(mqtt, controller, hasFeature);
-    setupMotorEntities(mqtt, controller, hasFeature);
+        const hasFeature = (feature: Features) => (features & feature) === feature;
+        logInfo('[Richmat] Setting up entities for device:', name);
+        setupPresetButtons(mqtt, controller, hasFeature);
+        setupMassageButtons(mqtt, controller, hasFeature);
+        setupUnderBedLightButton(mqtt, controller, hasFeature);
+        setupMotorEntities(mqtt, controller, hasFeature, parseMotorTravelTimes(device.motorTravelTimes));
 
-    const deviceInfo = await bleDevice.getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
-  }
+        // Entities exist at this point, so a device info failure must not fail (and re-run) the setup.
+        const deviceInfo = await bleDevice.getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        return controller;
+      },
+    });
+  };
+
+  const bleDevices = await esphome.getBLEDevices(deviceNames);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'Richmat', mqtt, esphome, devicesMap, found: bleDevices, setupDevice });
 };
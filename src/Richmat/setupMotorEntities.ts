@@ -1,7 +1,7 @@
-import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
 import { StringsKey } from '@utils/getString';
-import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { buildMotorCover } from 'Common/buildMotorCover';
 import { IController } from 'Common/IController';
 import { Commands } from './Commands';
 import { notEmpty } from '@utils/notEmpty';
@@ -19,8 +19,9 @@ interface Cache {
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number> & ICache<Cache>,
-  hasFeature: HasFeature
+  { cache, deviceData, writeCommand, cancelCommands, onWrite }: IController<number> & ICache<Cache>,
+  hasFeature: HasFeature,
+  motorTravelTimes: Dictionary<number> = {}
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -57,6 +58,6 @@ export const setupMotorEntities = (
       }
       await writeCommand(Commands.End);
     };
-    new Cover(mqtt, deviceData, buildEntityConfig(name), coverCommand).setOnline();
+    buildMotorCover(mqtt, { cache, deviceData, onWrite }, name, coverCommand, motorTravelTimes);
   }
 };
@@ -1,4 +1,4 @@
-import { logError, logInfo } from '@utils/logger';
+import { logError, logInfo, logWarn } from '@utils/logger';
 import { getDevices } from './options';
 import { IESPConnection } from 'ESPHome/IESPConnection';
 import { buildDictionary } from '@utils/buildDictionary';
@@ -51,6 +51,11 @@ export const scanner = async (esphome: IESPConnection) => {
     logDevice(found);
     const mapName = deviceNames.splice(index, 1)[0];
     // Only build a full BLEDevice (adds listeners) for devices we're actually going to interrogate.
+    if (!connection) {
+      logWarn(`[Scanner] Querying GATT services of ${name} needs an ESPHome proxy; skipping`);
+      if (!deviceNames.length) complete.resolve();
+      return;
+    }
     const bleDevice: IBLEDevice = new BLEDevice(name, advertisement, connection);
     const { connect, disconnect, pair, getDeviceInfo, getServices } = bleDevice;
     logInfo(`[Scanner] Connecting`);
@@ -58,7 +63,8 @@ export const scanner = async (esphome: IESPConnection) => {
     const device = devicesMap[mapName];
     if (device.pair) {
       logInfo('[Scanner] Pairing');
-      await pair();
+      // Still dump the services of a bed that refuses to pair.
+      await pair().catch((error) => logWarn(`[Scanner] Pairing failed: ${error?.message || error}`));
     }
 
     logInfo('[Scanner] Querying GATT services');
@@ -14,13 +14,15 @@ export class CommandButton extends Button {
     config: EntityConfig,
     command: Commands,
     credentials: Credentials,
-    additionalPayload: Dictionary<any> = {}
+    additionalPayload: Dictionary<any> = {},
+    /** Wraps the press handler, e.g. in the two-press confirmation of program buttons (armProgramButton). */
+    wrapPress = (onPress: () => Promise<void>) => onPress
   ) {
     super(
       mqtt,
       deviceData,
       config,
-      async () => void (await sendAdjustableBaseCommand(command, credentials, additionalPayload))
+      wrapPress(async () => void (await sendAdjustableBaseCommand(command, credentials, additionalPayload)))
     );
   }
 }
@@ -6,6 +6,8 @@ export interface Credentials {
   email: string;
   password: string;
   type?: Type;
+  /** Comma separated names of presets stored by the add-on for this user's side, e.g. "Reading, TV". */
+  virtualPresets?: string;
 }
 
 interface OptionsJson {
@@ -1,4 +1,6 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { StringsKey } from '@utils/getString';
+import { armProgramButton } from 'Common/armProgramButton';
 import { buildEntityConfig } from 'Sleeptracker/buildEntityConfig';
 import { CommandButton } from '../entities/CommandButton';
 import { Bed } from '../types/Bed';
@@ -19,10 +21,13 @@ interface PresetButtonEntities {
 
 export const setupPresetButtons = async (
   mqtt: IMQTTConnection,
-  { deviceData, supportedFeatures }: Bed,
+  { deviceData, supportedFeatures, entities: bedEntities }: Bed,
   { user, sideName, entities }: Controller
 ) => {
   const cache = entities as PresetButtonEntities;
+  // Both sides of the bed share its Save Confirmation sensor.
+  const arm = (name: StringsKey) => (onPress: () => Promise<void>) =>
+    armProgramButton(mqtt, { cache: bedEntities, deviceData }, name, onPress, sideName);
 
   let { flatPreset } = cache;
   if (!flatPreset) {
@@ -54,7 +59,8 @@ export const setupPresetButtons = async (
       buildEntityConfig('Program: Zero G', sideName),
       Commands.ProgramZeroG,
       user,
-      { entityCategory: 'config' }
+      { entityCategory: 'config' },
+      arm('ProgramZeroG')
     );
   }
   zeroGProgram.setOnline();
@@ -77,7 +83,8 @@ export const setupPresetButtons = async (
       buildEntityConfig('Program: TV', sideName),
       Commands.ProgramTV,
       user,
-      { entityCategory: 'config' }
+      { entityCategory: 'config' },
+      arm('ProgramTV')
     );
   }
   tvProgram.setOnline();
@@ -100,7 +107,8 @@ export const setupPresetButtons = async (
       buildEntityConfig('Program: User Favorite', sideName),
       Commands.ProgramUserFavorite,
       user,
-      { entityCategory: 'config' }
+      { entityCategory: 'config' },
+      arm('ProgramUserFavorite')
     );
   }
   userFavoriteProgram.setOnline();
@@ -125,7 +133,8 @@ export const setupPresetButtons = async (
       buildEntityConfig('Program: Anti Snore', sideName),
       Commands.ProgramAntiSnore,
       user,
-      { entityCategory: 'config' }
+      { entityCategory: 'config' },
+      arm('ProgramAntiSnore')
     );
   }
   antiSnoreProgram.setOnline();
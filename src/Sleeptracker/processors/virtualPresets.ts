@@ -0,0 +1,88 @@
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
+import { seconds } from '@utils/seconds';
+import { wait } from '@utils/wait';
+import { MotorPositioner } from 'Common/MotorPositioner';
+import { setupVirtualPresets } from 'Common/setupVirtualPresets';
+import { sendAdjustableBaseCommand } from 'Sleeptracker/requests/sendAdjustableBaseCommand';
+import { Bed } from '../types/Bed';
+import { Commands } from '../types/Commands';
+import { Controller } from '../types/Controller';
+import { Snapshot } from '../types/Snapshot';
+
+interface Cache {
+  presetMotors?: Dictionary<MotorPositioner>;
+}
+
+export const setupVirtualPresetButtons = async (
+  mqtt: IMQTTConnection,
+  { deviceData, data: { headAngleTicksPerDegree, footAngleTicksPerDegree } }: Bed,
+  controller: Controller
+) => {
+  const {
+    user,
+    side,
+    sideName,
+    entities,
+    capability: {
+      motorRoster: { head, foot },
+    },
+  } = controller;
+  if (!user.virtualPresets) return;
+  const cache = entities as Cache;
+
+  if (!cache.presetMotors) {
+    const motors: Dictionary<MotorPositioner> = (cache.presetMotors = {});
+    const updatePositions = (snapshots: Snapshot[]) => {
+      const snapshot = snapshots.find((s) => s.side === side);
+      if (!snapshot) return;
+      motors.head?.setPosition(snapshot.head.motor.pulseCount);
+      motors.foot?.setPosition(snapshot.foot.motor.pulseCount);
+    };
+    const buildPositioner = (name: string, up: Commands, down: Commands, stop: Commands, ticksPerDegree: number) =>
+      new MotorPositioner(
+        {
+          name: `${deviceData.device.name} ${name}`,
+          // The cloud API has no position command and positions are only returned by commands:
+          // keep re-sending the move and poll the status for feedback.
+          drive: async (direction) => {
+            updatePositions(await sendAdjustableBaseCommand(direction === 'up' ? up : down, user));
+            await wait(seconds(1));
+            updatePositions(await sendAdjustableBaseCommand(Commands.Status, user));
+          },
+          stop: async () => updatePositions(await sendAdjustableBaseCommand(stop, user)),
+        },
+        { tolerance: Math.max(1, ticksPerDegree), stallTimeoutMs: seconds(5) }
+      );
+    if (head) {
+      motors.head = buildPositioner(
+        'head',
+        Commands.MotorHeadUp,
+        Commands.MotorHeadDown,
+        Commands.MotorHeadStop,
+        headAngleTicksPerDegree
+      );
+    }
+    if (foot) {
+      motors.foot = buildPositioner(
+        'foot',
+        Commands.MotorFeetUp,
+        Commands.MotorFeetDown,
+        Commands.MotorFeetStop,
+        footAngleTicksPerDegree
+      );
+    }
+
+    setupVirtualPresets(
+      mqtt,
+      { cache: entities, deviceData },
+      {
+        key: `${deviceData.deviceTopic}/${side}`,
+        names: user.virtualPresets,
+        motors,
+        refresh: async () => updatePositions(await sendAdjustableBaseCommand(Commands.Status, user)),
+        sideName,
+      }
+    );
+  }
+};
@@ -3,6 +3,7 @@ import { Dictionary } from '@utils/Dictionary';
 import { getSideNameFunc } from '@utils/getSideNameFunc';
 import { logError, logInfo } from '@utils/logger';
 import { minutes } from '@utils/minutes';
+import { setupPurgeDeviceButton } from 'Common/setupDiscoveryCleanup';
 import { buildEntityConfig } from 'Sleeptracker/buildEntityConfig';
 import { buildMQTTDeviceData } from './buildMQTTDeviceData';
 import { DeviceInfoSensor } from './entities/DeviceInfoSensor';
@@ -23,6 +24,7 @@ import { sendAdjustableBaseCommand } from './requests/sendAdjustableBaseCommand'
 import { Bed } from './types/Bed';
 import { Commands } from './types/Commands';
 import { setupMotorEntities } from './processors/motorEntities';
+import { setupVirtualPresetButtons } from './processors/virtualPresets';
 
 const beds: Dictionary<Bed> = {};
 
@@ -68,6 +70,7 @@ export const sleeptracker = async (mqtt: IMQTTConnection) => {
             helloData: new HelloDataSensor(mqtt, deviceData).setState(helloData),
           },
         };
+        setupPurgeDeviceButton(mqtt, { cache: bed.entities, deviceData });
       }
       const capabilities = helloData.motorMeta.capabilities;
       const sleepSensors = await getSleepSensors(bed.processorId, user);
@@ -117,7 +120,10 @@ export const sleeptracker = async (mqtt: IMQTTConnection) => {
         for (const controller of bed.controllers) {
           await setupPresetButtons(mqtt, bed, controller);
           await setupMassageButtons(mqtt, bed, controller);
-          if (motors) await setupMotorEntities(mqtt, bed, controller);
+          if (motors) {
+            await setupMotorEntities(mqtt, bed, controller);
+            await setupVirtualPresetButtons(mqtt, bed, controller);
+          }
 
           await processSnoreReliefSwitches(mqtt, bed, controller);
 
@@ -3,6 +3,8 @@ import { getRootOptions } from '@utils/options';
 export interface SolaceDevice {
   friendlyName: string;
   name: string;
+  motorTravelTimes?: string;
+  pair?: boolean;
 }
 
 interface OptionsJson {
@@ -1,8 +1,8 @@
-import { Cover } from '@ha/Cover';
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { Dictionary } from '@utils/Dictionary';
 import { arrayEquals } from '@utils/arrayEquals';
 import { StringsKey } from '@utils/getString';
-import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { buildMotorCover } from 'Common/buildMotorCover';
 import { IController } from 'Common/IController';
 import { Commands } from './Commands';
 import { Cancelable } from 'Common/Cancelable';
@@ -20,7 +20,8 @@ const buildCommand = (name: StringsKey, up: number[], down: number[]) => ({ name
 
 export const setupMotorEntities = (
   mqtt: IMQTTConnection,
-  { cache, deviceData, writeCommand, cancelCommands }: IController<number[]> & ICache<Cache>
+  { cache, deviceData, writeCommand, writeStopCommand, cancelCommands, onWrite }: IController<number[]> & ICache<Cache>,
+  motorTravelTimes: Dictionary<number> = {}
 ) => {
   if (!cache.motorState) cache.motorState = {};
 
@@ -47,13 +48,12 @@ export const setupMotorEntities = (
       await cancelCommands();
       motorState.canceled = false;
 
-      if (newCommand.length) {
-        await sendCommand();
-        if (motorState.canceled) return;
-        cache.motorState = {};
-      }
+      if (!newCommand.length) return await (writeStopCommand ?? writeCommand)(Commands.MotorStop);
+      await sendCommand();
+      if (motorState.canceled) return;
+      cache.motorState = {};
       await writeCommand(Commands.MotorStop);
     };
-    new Cover(mqtt, deviceData, buildEntityConfig(name), coverCommand).setOnline();
+    buildMotorCover(mqtt, { cache, deviceData, onWrite }, name, coverCommand, motorTravelTimes);
   }
 };
@@ -1,10 +1,15 @@
 import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { buildDictionary } from '@utils/buildDictionary';
 import { logError, logInfo } from '@utils/logger';
+import { parseMotorTravelTimes } from '@utils/parseMotorTravelTimes';
 import { BLEController } from 'BLE/BLEController';
+import { deviceSupervisor } from 'BLE/DeviceSupervisor';
 import { setupDeviceInfoSensor } from 'BLE/setupDeviceInfoSensor';
+import { watchForMissingDevices } from 'BLE/watchForMissingDevices';
 import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
+import { pairDevice } from 'ESPHome/bondState';
 import { IESPConnection } from 'ESPHome/IESPConnection';
+import { IBLEDevice } from 'ESPHome/types/IBLEDevice';
 import { getDevices } from './options';
 import { setupPresetButtons } from './setupPresetButtons';
 import { setupMotorEntities } from './setupMotorEntities';
@@ -23,36 +28,51 @@ export const solace = async (mqtt: IMQTTConnection, esphome: IESPConnection) =>
   }));
   const deviceNames = Object.keys(devicesMap);
   if (deviceNames.length !== devices.length) return logError('[Solace] Duplicate name detected in configuration');
-  const bleDevices = await esphome.getBLEDevices(deviceNames, nameMapper);
-  for (const bleDevice of bleDevices) {
-    const { name, mac, address, connect, disconnect, getCharacteristic } = bleDevice;
+  const setupDevice = async (bleDevice: IBLEDevice) => {
+    const { name, mac, address } = bleDevice;
     const device = devicesMap[mac] || devicesMap[name.toLowerCase()];
     const deviceData = buildMQTTDeviceData({ ...device, address }, 'Solace');
-    await connect();
-
-    const characteristic = await getCharacteristic(
-      '0000ffe0-0000-1000-8000-00805f9b34fb',
-      '0000ffe1-0000-1000-8000-00805f9b34fb'
-    );
-    if (!characteristic) {
-      await disconnect();
-      continue;
-    }
-
-    const controller = new BLEController(
+    await deviceSupervisor.supervise({
+      context: 'Solace',
+      mqtt,
       deviceData,
       bleDevice,
-      characteristic.handle,
-      (bytes: number[]) => bytes,
-      {},
-      true,
-      (bleDevice as BLEDevice).host
-    );
-    logInfo('[Solace] Setting up entities for device:', name);
-    setupPresetButtons(mqtt, controller);
-    setupMotorEntities(mqtt, controller);
+      setup: async (bleDevice) => {
+        const { connect, disconnect, getCharacteristic } = bleDevice;
+        await connect();
+        if (device.pair) await pairDevice(bleDevice);
+
+        const characteristic = await getCharacteristic(
+          '0000ffe0-0000-1000-8000-00805f9b34fb',
+          '0000ffe1-0000-1000-8000-00805f9b34fb'
+        );
+        if (!characteristic) {
+          await disconnect();
+          return undefined;
+        }
 
-    const deviceInfo = await bleDevice.getDeviceInfo();
-    if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
-  }
+        const controller = new BLEController(
+          deviceData,
+          bleDevice,
+          characteristic.handle,
+          (bytes: number[]) => bytes,
+          {},
+          true,
+          (bleDevice as BLEDevice).host
+        );
+        logInfo('[Solace] Setting up entities for device:', name);
+        setupPresetButtons(mqtt, controller);
+        setupMotorEntities(mqtt, controller, parseMotorTravelTimes(device.motorTravelTimes));
+
+        // Entities exist at this point, so a device info failure must not fail (and re-run) the setup.
+        const deviceInfo = await bleDevice.getDeviceInfo().catch(() => undefined);
+        if (deviceInfo) setupDeviceInfoSensor(mqtt, controller, deviceInfo);
+        return controller;
+      },
+    });
+  };
+
+  const bleDevices = await esphome.getBLEDevices(deviceNames, nameMapper);
+  for (const bleDevice of bleDevices) await setupDevice(bleDevice);
+  watchForMissingDevices({ context: 'Solace', mqtt, esphome, devicesMap, found: bleDevices, setupDevice, nameMapper });
 };
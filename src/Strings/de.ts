@@ -0,0 +1,118 @@
+import { StringsKey } from '@utils/getString';
+
+const strings: Partial<Record<StringsKey, string>> = {
+  PresetFlat: 'Position: Flach',
+  PresetFlatBed: 'Position: Bett flach',
+  PresetZeroG: 'Position: Zero G',
+  PresetTV: 'Position: TV',
+  PresetUserFavorite: 'Position: Favorit',
+  PresetMemory: 'Position: Speicher',
+  PresetAntiSnore: 'Position: Anti-Schnarch',
+  PresetLounge: 'Position: Lounge',
+  PresetMemory1: 'Position: Speicher 1',
+  PresetMemory2: 'Position: Speicher 2',
+  PresetMemory3: 'Position: Speicher 3',
+  PresetMemory4: 'Position: Speicher 4',
+  PresetMemory5: 'Position: Speicher 5',
+  PresetYellow: 'Position: Gelb',
+  PresetGreen: 'Position: Grün',
+  PresetRed: 'Position: Rot',
+  PresetUnwind: 'Position: Entspannen',
+  PresetSleep: 'Position: Schlafen',
+  PresetWakeUp: 'Position: Aufwachen',
+  PresetRelax: 'Position: Relax',
+  PresetRise: 'Position: Aufstehen',
+  PresetDecline: 'Position: Absenken',
+  PresetTiltForward: 'Position: Nach vorne neigen',
+  PresetTiltBackward: 'Position: Nach hinten neigen',
+  PresetAllFlat: 'Position: Alles flach',
+  PresetHome: 'Position: Ausgangsstellung',
+  ProgramZeroG: 'Speichern: Zero G',
+  ProgramTV: 'Speichern: TV',
+  ProgramUserFavorite: 'Speichern: Favorit',
+  ProgramMemory: 'Speichern: Speicher',
+  ProgramAntiSnore: 'Speichern: Anti-Schnarch',
+  ProgramLounge: 'Position: Lounge',
+  ProgramMemory1: 'Speichern: Speicher 1',
+  ProgramMemory2: 'Speichern: Speicher 2',
+  ProgramMemory3: 'Speichern: Speicher 3',
+  ProgramMemory4: 'Speichern: Speicher 4',
+  ProgramMemory5: 'Speichern: Speicher 5',
+  ProgramUnwind: 'Speichern: Entspannen',
+  ProgramSleep: 'Speichern: Schlafen',
+  ProgramWakeUp: 'Speichern: Aufwachen',
+  ProgramRelax: 'Speichern: Relax',
+  ResetMemory1: 'Zurücksetzen: Speicher 1',
+  ResetMemory2: 'Zurücksetzen: Speicher 2',
+  ResetMemory3: 'Zurücksetzen: Speicher 3',
+  ResetMemory4: 'Zurücksetzen: Speicher 4',
+  ResetMemory5: 'Zurücksetzen: Speicher 5',
+  MassageHead: 'Kopfmassage',
+  MassageFoot: 'Fußmassage',
+  MassageHeadStep: 'Kopfmassage Stufe',
+  MassageFootStep: 'Fußmassage Stufe',
+  MassageHeadUp: 'Kopfmassage stärker',
+  MassageFootUp: 'Fußmassage stärker',
+  MassageHeadDown: 'Kopfmassage schwächer',
+  MassageFootDown: 'Fußmassage schwächer',
+  MassageHeadOff: 'Kopfmassage aus',
+  MassageFootOff: 'Fußmassage aus',
+  MassageStep: 'Massage Stufe',
+  MassageWave: 'Wellenmassage',
+  MassageWaveStep: 'Wellenmassage Stufe',
+  MassageModeStep: 'Massagemodus wechseln',
+  MassageHeadToggle: 'Kopfmassage umschalten',
+  MassageFootToggle: 'Fußmassage umschalten',
+  MassageTimerStep: 'Massage-Timer Stufe',
+  MassageHeadStrength: 'Kopfmassage Stärke',
+  MassageFootStrength: 'Fußmassage Stärke',
+  MassageAllOff: 'Massage alles aus',
+  MassageAllToggle: 'Massage alles umschalten',
+  MassageAllUp: 'Massage alles stärker',
+  MassageAllDown: 'Massage alles schwächer',
+  MassageStop: 'Massage stoppen',
+  AngleHead: 'Kopfwinkel',
+  AngleBack: 'Rückenwinkel',
+  AngleFoot: 'Fußwinkel',
+  AngleLeg: 'Beinwinkel',
+  TargetAngleHead: 'Kopf Zielwinkel',
+  TargetAngleBack: 'Rücken Zielwinkel',
+  TargetAngleFoot: 'Fuß Zielwinkel',
+  TargetAngleLeg: 'Bein Zielwinkel',
+  VirtualPreset: 'Position',
+  VirtualPresetSave: 'Position speichern',
+  Routine: 'Routine',
+  RoutineRunning: 'Routine läuft',
+  SaveConfirmation: 'Speicherbestätigung',
+  PressAgainToSave: 'Zum Speichern erneut drücken',
+  Idle: 'Inaktiv',
+  SafetyLights: 'Sicherheitsbeleuchtung',
+  SafetyLightsToggle: 'Sicherheitsbeleuchtung umschalten',
+  UnderBedLightsToggle: 'Unterbettbeleuchtung umschalten',
+  UnderBedLights: 'Unterbettbeleuchtung',
+  MassageToggle: 'Massage umschalten',
+  MassageMode: 'Massagemodus',
+  Ripple: 'Kräuseln',
+  Wave: 'Welle',
+  Waves: 'Wellen',
+  Pulse: 'Puls',
+  MassageLumbar: 'Lendenmassage',
+  MassageLeg: 'Beinmassage',
+  Stop: 'Stopp',
+  Off: 'Aus',
+  Low: 'Niedrig',
+  Medium: 'Mittel',
+  High: 'Hoch',
+  MotorHead: 'Kopf',
+  MotorBack: 'Rücken',
+  MotorLegs: 'Beine',
+  MotorFeet: 'Füße',
+  MotorAll: 'Alle',
+  MotorTilt: 'Neigung',
+  MotorLumbar: 'Lende',
+  MotorNeck: 'Nacken',
+  MotorLift: 'Hub',
+  MotorPillow: 'Kissen',
+};
+
+export default strings;
@@ -73,6 +73,17 @@ const strings = {
   AngleBack: 'Back Angle',
   AngleFoot: 'Foot Angle',
   AngleLeg: 'Leg Angle',
+  TargetAngleHead: 'Head Target Angle',
+  TargetAngleBack: 'Back Target Angle',
+  TargetAngleFoot: 'Foot Target Angle',
+  TargetAngleLeg: 'Leg Target Angle',
+  VirtualPreset: 'Preset',
+  VirtualPresetSave: 'Save Preset',
+  Routine: 'Routine',
+  RoutineRunning: 'Routine Running',
+  SaveConfirmation: 'Save Confirmation',
+  PressAgainToSave: 'Press again to save',
+  Idle: 'Idle',
   SafetyLights: 'Safety Lights',
   SafetyLightsToggle: 'Toggle Safety Lights',
   UnderBedLightsToggle: 'Toggle Under Bed Lights',
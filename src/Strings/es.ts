@@ -0,0 +1,118 @@
+import { StringsKey } from '@utils/getString';
+
+const strings: Partial<Record<StringsKey, string>> = {
+  PresetFlat: 'Posición: Plana',
+  PresetFlatBed: 'Posición: Cama plana',
+  PresetZeroG: 'Posición: Gravedad cero',
+  PresetTV: 'Posición: TV',
+  PresetUserFavorite: 'Posición: Favorita',
+  PresetMemory: 'Posición: Memoria',
+  PresetAntiSnore: 'Posición: Antirronquidos',
+  PresetLounge: 'Posición: Descanso',
+  PresetMemory1: 'Posición: Memoria 1',
+  PresetMemory2: 'Posición: Memoria 2',
+  PresetMemory3: 'Posición: Memoria 3',
+  PresetMemory4: 'Posición: Memoria 4',
+  PresetMemory5: 'Posición: Memoria 5',
+  PresetYellow: 'Posición: Amarillo',
+  PresetGreen: 'Posición: Verde',
+  PresetRed: 'Posición: Rojo',
+  PresetUnwind: 'Posición: Desconectar',
+  PresetSleep: 'Posición: Dormir',
+  PresetWakeUp: 'Posición: Despertar',
+  PresetRelax: 'Posición: Relajación',
+  PresetRise: 'Posición: Levantar',
+  PresetDecline: 'Posición: Bajar',
+  PresetTiltForward: 'Posición: Inclinar hacia delante',
+  PresetTiltBackward: 'Posición: Inclinar hacia atrás',
+  PresetAllFlat: 'Posición: Todo plano',
+  PresetHome: 'Posición: Inicial',
+  ProgramZeroG: 'Guardar: Gravedad cero',
+  ProgramTV: 'Guardar: TV',
+  ProgramUserFavorite: 'Guardar: Favorita',
+  ProgramMemory: 'Guardar: Memoria',
+  ProgramAntiSnore: 'Guardar: Antirronquidos',
+  ProgramLounge: 'Posición: Descanso',
+  ProgramMemory1: 'Guardar: Memoria 1',
+  ProgramMemory2: 'Guardar: Memoria 2',
+  ProgramMemory3: 'Guardar: Memoria 3',
+  ProgramMemory4: 'Guardar: Memoria 4',
+  ProgramMemory5: 'Guardar: Memoria 5',
+  ProgramUnwind: 'Guardar: Desconectar',
+  ProgramSleep: 'Guardar: Dormir',
+  ProgramWakeUp: 'Guardar: Despertar',
+  ProgramRelax: 'Guardar: Relajación',
+  ResetMemory1: 'Restablecer: Memoria 1',
+  ResetMemory2: 'Restablecer: Memoria 2',
+  ResetMemory3: 'Restablecer: Memoria 3',
+  ResetMemory4: 'Restablecer: Memoria 4',
+  ResetMemory5: 'Restablecer: Memoria 5',
+  MassageHead: 'Masaje de cabeza',
+  MassageFoot: 'Masaje de pies',
+  MassageHeadStep: 'Masaje de cabeza siguiente nivel',
+  MassageFootStep: 'Masaje de pies siguiente nivel',
+  MassageHeadUp: 'Masaje de cabeza más fuerte',
+  MassageFootUp: 'Masaje de pies más fuerte',
+  MassageHeadDown: 'Masaje de cabeza más suave',
+  MassageFootDown: 'Masaje de pies más suave',
+  MassageHeadOff: 'Masaje de cabeza apagado',
+  MassageFootOff: 'Masaje de pies apagado',
+  MassageStep: 'Masaje siguiente nivel',
+  MassageWave: 'Masaje ondulante',
+  MassageWaveStep: 'Masaje ondulante siguiente nivel',
+  MassageModeStep: 'Siguiente modo de masaje',
+  MassageHeadToggle: 'Alternar masaje de cabeza',
+  MassageFootToggle: 'Alternar masaje de pies',
+  MassageTimerStep: 'Temporizador de masaje siguiente',
+  MassageHeadStrength: 'Intensidad masaje de cabeza',
+  MassageFootStrength: 'Intensidad masaje de pies',
+  MassageAllOff: 'Apagar todo el masaje',
+  MassageAllToggle: 'Alternar todo el masaje',
+  MassageAllUp: 'Todo el masaje más fuerte',
+  MassageAllDown: 'Todo el masaje más suave',
+  MassageStop: 'Detener masaje',
+  AngleHead: 'Ángulo de cabeza',
+  AngleBack: 'Ángulo de espalda',
+  AngleFoot: 'Ángulo de pies',
+  AngleLeg: 'Ángulo de piernas',
+  TargetAngleHead: 'Ángulo objetivo de cabeza',
+  TargetAngleBack: 'Ángulo objetivo de espalda',
+  TargetAngleFoot: 'Ángulo objetivo de pies',
+  TargetAngleLeg: 'Ángulo objetivo de piernas',
+  VirtualPreset: 'Posición',
+  VirtualPresetSave: 'Guardar posición',
+  Routine: 'Rutina',
+  RoutineRunning: 'Rutina en curso',
+  SaveConfirmation: 'Confirmación de guardado',
+  PressAgainToSave: 'Pulse de nuevo para guardar',
+  Idle: 'Inactivo',
+  SafetyLights: 'Luces de seguridad',
+  SafetyLightsToggle: 'Alternar luces de seguridad',
+  UnderBedLightsToggle: 'Alternar luces bajo la cama',
+  UnderBedLights: 'Luces bajo la cama',
+  MassageToggle: 'Alternar masaje',
+  MassageMode: 'Modo de masaje',
+  Ripple: 'Ondulación',
+  Wave: 'Ola',
+  Waves: 'Olas',
+  Pulse: 'Pulso',
+  MassageLumbar: 'Masaje lumbar',
+  MassageLeg: 'Masaje de piernas',
+  Stop: 'Detener',
+  Off: 'Apagado',
+  Low: 'Bajo',
+  Medium: 'Medio',
+  High: 'Alto',
+  MotorHead: 'Cabeza',
+  MotorBack: 'Espalda',
+  MotorLegs: 'Piernas',
+  MotorFeet: 'Pies',
+  MotorAll: 'Todo',
+  MotorTilt: 'Inclinación',
+  MotorLumbar: 'Lumbar',
+  MotorNeck: 'Cuello',
+  MotorLift: 'Elevación',
+  MotorPillow: 'Almohada',
+};
+
+export default strings;
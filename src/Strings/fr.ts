@@ -0,0 +1,118 @@
+import { StringsKey } from '@utils/getString';
+
+const strings: Partial<Record<StringsKey, string>> = {
+  PresetFlat: 'Position : À plat',
+  PresetFlatBed: 'Position : Lit à plat',
+  PresetZeroG: 'Position : Zéro G',
+  PresetTV: 'Position : TV',
+  PresetUserFavorite: 'Position : Favori',
+  PresetMemory: 'Position : Mémoire',
+  PresetAntiSnore: 'Position : Anti-ronflement',
+  PresetLounge: 'Position : Détente',
+  PresetMemory1: 'Position : Mémoire 1',
+  PresetMemory2: 'Position : Mémoire 2',
+  PresetMemory3: 'Position : Mémoire 3',
+  PresetMemory4: 'Position : Mémoire 4',
+  PresetMemory5: 'Position : Mémoire 5',
+  PresetYellow: 'Position : Jaune',
+  PresetGreen: 'Position : Vert',
+  PresetRed: 'Position : Rouge',
+  PresetUnwind: 'Position : Décompresser',
+  PresetSleep: 'Position : Sommeil',
+  PresetWakeUp: 'Position : Réveil',
+  PresetRelax: 'Position : Relaxation',
+  PresetRise: 'Position : Lever',
+  PresetDecline: 'Position : Abaisser',
+  PresetTiltForward: 'Position : Incliner vers l’avant',
+  PresetTiltBackward: 'Position : Incliner vers l’arrière',
+  PresetAllFlat: 'Position : Tout à plat',
+  PresetHome: 'Position : Initiale',
+  ProgramZeroG: 'Enregistrer : Zéro G',
+  ProgramTV: 'Enregistrer : TV',
+  ProgramUserFavorite: 'Enregistrer : Favori',
+  ProgramMemory: 'Enregistrer : Mémoire',
+  ProgramAntiSnore: 'Enregistrer : Anti-ronflement',
+  ProgramLounge: 'Position : Détente',
+  ProgramMemory1: 'Enregistrer : Mémoire 1',
+  ProgramMemory2: 'Enregistrer : Mémoire 2',
+  ProgramMemory3: 'Enregistrer : Mémoire 3',
+  ProgramMemory4: 'Enregistrer : Mémoire 4',
+  ProgramMemory5: 'Enregistrer : Mémoire 5',
+  ProgramUnwind: 'Enregistrer : Décompresser',
+  ProgramSleep: 'Enregistrer : Sommeil',
+  ProgramWakeUp: 'Enregistrer : Réveil',
+  ProgramRelax: 'Enregistrer : Relaxation',
+  ResetMemory1: 'Réinitialiser : Mémoire 1',
+  ResetMemory2: 'Réinitialiser : Mémoire 2',
+  ResetMemory3: 'Réinitialiser : Mémoire 3',
+  ResetMemory4: 'Réinitialiser : Mémoire 4',
+  ResetMemory5: 'Réinitialiser : Mémoire 5',
+  MassageHead: 'Massage tête',
+  MassageFoot: 'Massage pieds',
+  MassageHeadStep: 'Massage tête niveau suivant',
+  MassageFootStep: 'Massage pieds niveau suivant',
+  MassageHeadUp: 'Massage tête plus fort',
+  MassageFootUp: 'Massage pieds plus fort',
+  MassageHeadDown: 'Massage tête moins fort',
+  MassageFootDown: 'Massage pieds moins fort',
+  MassageHeadOff: 'Massage tête arrêt',
+  MassageFootOff: 'Massage pieds arrêt',
+  MassageStep: 'Massage niveau suivant',
+  MassageWave: 'Massage ondulant',
+  MassageWaveStep: 'Massage ondulant niveau suivant',
+  MassageModeStep: 'Mode de massage suivant',
+  MassageHeadToggle: 'Basculer massage tête',
+  MassageFootToggle: 'Basculer massage pieds',
+  MassageTimerStep: 'Minuterie de massage suivante',
+  MassageHeadStrength: 'Intensité massage tête',
+  MassageFootStrength: 'Intensité massage pieds',
+  MassageAllOff: 'Massage tout arrêter',
+  MassageAllToggle: 'Massage tout basculer',
+  MassageAllUp: 'Massage tout plus fort',
+  MassageAllDown: 'Massage tout moins fort',
+  MassageStop: 'Arrêter le massage',
+  AngleHead: 'Angle tête',
+  AngleBack: 'Angle dos',
+  AngleFoot: 'Angle pieds',
+  AngleLeg: 'Angle jambes',
+  TargetAngleHead: 'Angle cible tête',
+  TargetAngleBack: 'Angle cible dos',
+  TargetAngleFoot: 'Angle cible pieds',
+  TargetAngleLeg: 'Angle cible jambes',
+  VirtualPreset: 'Position',
+  VirtualPresetSave: 'Enregistrer la position',
+  Routine: 'Routine',
+  RoutineRunning: 'Routine en cours',
+  SaveConfirmation: 'Confirmation d’enregistrement',
+  PressAgainToSave: 'Appuyez à nouveau pour enregistrer',
+  Idle: 'Inactif',
+  SafetyLights: 'Éclairage de sécurité',
+  SafetyLightsToggle: 'Basculer l’éclairage de sécurité',
+  UnderBedLightsToggle: 'Basculer l’éclairage sous le lit',
+  UnderBedLights: 'Éclairage sous le lit',
+  MassageToggle: 'Basculer le massage',
+  MassageMode: 'Mode de massage',
+  Ripple: 'Ondulation',
+  Wave: 'Vague',
+  Waves: 'Vagues',
+  Pulse: 'Pulsation',
+  MassageLumbar: 'Massage lombaire',
+  MassageLeg: 'Massage jambes',
+  Stop: 'Arrêt',
+  Off: 'Arrêt',
+  Low: 'Faible',
+  Medium: 'Moyen',
+  High: 'Fort',
+  MotorHead: 'Tête',
+  MotorBack: 'Dos',
+  MotorLegs: 'Jambes',
+  MotorFeet: 'Pieds',
+  MotorAll: 'Tout',
+  MotorTilt: 'Inclinaison',
+  MotorLumbar: 'Lombaires',
+  MotorNeck: 'Nuque',
+  MotorLift: 'Levage',
+  MotorPillow: 'Oreiller',
+};
+
+export default strings;
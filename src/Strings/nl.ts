@@ -0,0 +1,118 @@
+import { StringsKey } from '@utils/getString';
+
+const strings: Partial<Record<StringsKey, string>> = {
+  PresetFlat: 'Stand: Vlak',
+  PresetFlatBed: 'Stand: Bed vlak',
+  PresetZeroG: 'Stand: Zero G',
+  PresetTV: 'Stand: TV',
+  PresetUserFavorite: 'Stand: Favoriet',
+  PresetMemory: 'Stand: Geheugen',
+  PresetAntiSnore: 'Stand: Anti-snurk',
+  PresetLounge: 'Stand: Lounge',
+  PresetMemory1: 'Stand: Geheugen 1',
+  PresetMemory2: 'Stand: Geheugen 2',
+  PresetMemory3: 'Stand: Geheugen 3',
+  PresetMemory4: 'Stand: Geheugen 4',
+  PresetMemory5: 'Stand: Geheugen 5',
+  PresetYellow: 'Stand: Geel',
+  PresetGreen: 'Stand: Groen',
+  PresetRed: 'Stand: Rood',
+  PresetUnwind: 'Stand: Ontspannen',
+  PresetSleep: 'Stand: Slapen',
+  PresetWakeUp: 'Stand: Wakker worden',
+  PresetRelax: 'Stand: Relax',
+  PresetRise: 'Stand: Opstaan',
+  PresetDecline: 'Stand: Omlaag',
+  PresetTiltForward: 'Stand: Naar voren kantelen',
+  PresetTiltBackward: 'Stand: Naar achteren kantelen',
+  PresetAllFlat: 'Stand: Alles vlak',
+  PresetHome: 'Stand: Beginstand',
+  ProgramZeroG: 'Opslaan: Zero G',
+  ProgramTV: 'Opslaan: TV',
+  ProgramUserFavorite: 'Opslaan: Favoriet',
+  ProgramMemory: 'Opslaan: Geheugen',
+  ProgramAntiSnore: 'Opslaan: Anti-snurk',
+  ProgramLounge: 'Stand: Lounge',
+  ProgramMemory1: 'Opslaan: Geheugen 1',
+  ProgramMemory2: 'Opslaan: Geheugen 2',
+  ProgramMemory3: 'Opslaan: Geheugen 3',
+  ProgramMemory4: 'Opslaan: Geheugen 4',
+  ProgramMemory5: 'Opslaan: Geheugen 5',
+  ProgramUnwind: 'Opslaan: Ontspannen',
+  ProgramSleep: 'Opslaan: Slapen',
+  ProgramWakeUp: 'Opslaan: Wakker worden',
+  ProgramRelax: 'Opslaan: Relax',
+  ResetMemory1: 'Wissen: Geheugen 1',
+  ResetMemory2: 'Wissen: Geheugen 2',
+  ResetMemory3: 'Wissen: Geheugen 3',
+  ResetMemory4: 'Wissen: Geheugen 4',
+  ResetMemory5: 'Wissen: Geheugen 5',
+  MassageHead: 'Hoofdmassage',
+  MassageFoot: 'Voetmassage',
+  MassageHeadStep: 'Hoofdmassage volgende stap',
+  MassageFootStep: 'Voetmassage volgende stap',
+  MassageHeadUp: 'Hoofdmassage sterker',
+  MassageFootUp: 'Voetmassage sterker',
+  MassageHeadDown: 'Hoofdmassage zwakker',
+  MassageFootDown: 'Voetmassage zwakker',
+  MassageHeadOff: 'Hoofdmassage uit',
+  MassageFootOff: 'Voetmassage uit',
+  MassageStep: 'Massage volgende stap',
+  MassageWave: 'Golfmassage',
+  MassageWaveStep: 'Golfmassage volgende stap',
+  MassageModeStep: 'Volgende massagemodus',
+  MassageHeadToggle: 'Hoofdmassage aan/uit',
+  MassageFootToggle: 'Voetmassage aan/uit',
+  MassageTimerStep: 'Massagetimer volgende stap',
+  MassageHeadStrength: 'Hoofdmassage sterkte',
+  MassageFootStrength: 'Voetmassage sterkte',
+  MassageAllOff: 'Alle massage uit',
+  MassageAllToggle: 'Alle massage aan/uit',
+  MassageAllUp: 'Alle massage sterker',
+  MassageAllDown: 'Alle massage zwakker',
+  MassageStop: 'Massage stoppen',
+  AngleHead: 'Hoofdhoek',
+  AngleBack: 'Rughoek',
+  AngleFoot: 'Voethoek',
+  AngleLeg: 'Beenhoek',
+  TargetAngleHead: 'Doelhoek hoofd',
+  TargetAngleBack: 'Doelhoek rug',
+  TargetAngleFoot: 'Doelhoek voet',
+  TargetAngleLeg: 'Doelhoek been',
+  VirtualPreset: 'Stand',
+  VirtualPresetSave: 'Stand opslaan',
+  Routine: 'Routine',
+  RoutineRunning: 'Routine actief',
+  SaveConfirmation: 'Opslagbevestiging',
+  PressAgainToSave: 'Druk nogmaals om op te slaan',
+  Idle: 'Inactief',
+  SafetyLights: 'Veiligheidsverlichting',
+  SafetyLightsToggle: 'Veiligheidsverlichting aan/uit',
+  UnderBedLightsToggle: 'Onderbedverlichting aan/uit',
+  UnderBedLights: 'Onderbedverlichting',
+  MassageToggle: 'Massage aan/uit',
+  MassageMode: 'Massagemodus',
+  Ripple: 'Rimpeling',
+  Wave: 'Golf',
+  Waves: 'Golven',
+  Pulse: 'Puls',
+  MassageLumbar: 'Lendenmassage',
+  MassageLeg: 'Beenmassage',
+  Stop: 'Stop',
+  Off: 'Uit',
+  Low: 'Laag',
+  Medium: 'Middel',
+  High: 'Hoog',
+  MotorHead: 'Hoofd',
+  MotorBack: 'Rug',
+  MotorLegs: 'Benen',
+  MotorFeet: 'Voeten',
+  MotorAll: 'Alles',
+  MotorTilt: 'Kanteling',
+  MotorLumbar: 'Lenden',
+  MotorNeck: 'Nek',
+  MotorLift: 'Lift',
+  MotorPillow: 'Kussen',
+};
+
+export default strings;
@@ -0,0 +1,22 @@
+import { buildEntityConfig } from 'Common/buildEntityConfig';
+import { getEnglishString, getString, loadStrings } from './getString';
+
+jest.mock('./logger');
+
+describe(loadStrings.name, () => {
+  afterAll(() => loadStrings('en'));
+
+  it('translates entity names and keeps tags English', async () => {
+    await loadStrings('de');
+
+    expect(getString('PresetFlat')).toBe('Position: Flach');
+    expect(getEnglishString('PresetFlat')).toBe('Preset: Flat');
+    expect(buildEntityConfig('PresetFlat')).toMatchObject({ description: 'Position: Flach', tag: 'Preset: Flat' });
+  });
+
+  it('falls back to English for unknown languages', async () => {
+    await loadStrings('xx' as any);
+
+    expect(getString('PresetFlat')).toBe('Preset: Flat');
+  });
+});
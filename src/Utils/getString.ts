@@ -1,12 +1,28 @@
 import Strings from 'Strings/en';
 import { Dictionary } from './Dictionary';
-let strings: Dictionary<string> = {};
+import { logWarn } from './logger';
+let strings: Dictionary<string> = Strings;
 
-export const loadStrings = async (language = 'en') => {
-  const imported = await import(`../Strings/${language}`);
-  strings = imported.default ? imported.default : imported;
+export const languages = ['en', 'de', 'fr', 'es', 'nl'] as const;
+export type Language = (typeof languages)[number];
+
+/** Load the entity names for a language. Keys the language doesn't translate keep their English name. */
+export const loadStrings = async (language: Language = 'en') => {
+  try {
+    const imported = await import(`../Strings/${language}`);
+    strings = { ...Strings, ...(imported.default ? imported.default : imported) };
+  } catch (error) {
+    logWarn(`Could not load strings for language '${language}', using English:`, error);
+    strings = Strings;
+  }
 };
 
 export type StringsKey = keyof typeof Strings;
 
 export const getString = (key: StringsKey) => strings[key] || key;
+
+/**
+ * The English name of a key, whatever the language. Entity tags (and so unique_ids and entity ids) are built from
+ * it, so switching the language renames entities instead of creating new ones.
+ */
+export const getEnglishString = (key: StringsKey) => Strings[key] || key;
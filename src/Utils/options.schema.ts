@@ -1,4 +1,22 @@
 import { z } from 'zod';
+import { languages } from './getString';
+
+const typeSchema = z.enum([
+  'scanner',
+  'sleeptracker',
+  'ergowifi',
+  'richmat',
+  'linak',
+  'solace',
+  'motosleep',
+  'reverie',
+  'leggettplatt',
+  'logicdata',
+  'ergomotion',
+  'okimat',
+  'keeson',
+  'octo',
+]);
 
 export const optionsSchema = z.object({
   mqtt_host: z.string(),
@@ -8,22 +26,11 @@ export const optionsSchema = z.object({
   // Optional runtime log verbosity. This is plumbed via add-on config -> options.json -> env(LOG_LEVEL).
   // It exists so we can switch to deep BLE/ESPHome forensics *without* rebuilding images.
   log_level: z.enum(['trace', 'debug', 'info', 'warn', 'error']).optional(),
-  type: z.enum([
-    'scanner',
-    'sleeptracker',
-    'ergowifi',
-    'richmat',
-    'linak',
-    'solace',
-    'motosleep',
-    'reverie',
-    'leggettplatt',
-    'logicdata',
-    'ergomotion',
-    'okimat',
-    'keeson',
-    'octo',
-  ]),
+  // Language of entity names; entity ids stay the same in every language.
+  language: z.enum(languages).optional(),
+  // One brand (the add-on schema), a list of brands (YAML/standalone configs), or omitted/empty to infer the brands
+  // from whichever *Devices/*Credentials lists are filled in. See getTypes() in options.ts.
+  type: z.union([typeSchema, z.array(typeSchema)]).optional(),
   sleeptrackerRefreshFrequency: z.number().int().min(0).optional(),
   sleeptrackerCredentials: z
     .array(
@@ -31,6 +38,7 @@ export const optionsSchema = z.object({
         email: z.string().email(),
         password: z.string(),
         type: z.enum(['tempur', 'beautyrest', 'serta']).optional(),
+        virtualPresets: z.string().optional(),
       })
     )
     .optional(),
@@ -61,6 +69,8 @@ export const optionsSchema = z.object({
       })
     )
     .optional(),
+  // Entries with `host: auto` enable discovery over mDNS and hold the credentials for discovered proxies (matched by
+  // expectedServerName). See ESPHome/options.ts.
   bleProxies: z
     .array(
       z.object({
@@ -72,6 +82,11 @@ export const optionsSchema = z.object({
       })
     )
     .optional(),
+  // OpenMQTTGateway/Theengs-style BLE gateways on the same broker, used instead of bleProxies (see MQTTGateway/).
+  mqttGateways: z.array(z.object({ topic: z.string() })).optional(),
+  advertisingTimeoutMinutes: z.number().int().min(1).optional(),
+  // Program (memory-save) buttons send their command on a second press within this many seconds. See armProgramButton.
+  programArmingSeconds: z.number().int().min(1).optional(),
   richmatDevices: z
     .array(
       z.object({
@@ -79,6 +94,8 @@ export const optionsSchema = z.object({
         friendlyName: z.string(),
         remoteCode: z.string(),
         stayConnected: z.boolean().optional(),
+        motorTravelTimes: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -89,6 +106,8 @@ export const optionsSchema = z.object({
         friendlyName: z.string(),
         hasMassage: z.boolean().optional(),
         motorCount: z.number().int().optional(),
+        virtualPresets: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -97,6 +116,8 @@ export const optionsSchema = z.object({
       z.object({
         name: z.string(),
         friendlyName: z.string(),
+        motorTravelTimes: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -106,6 +127,8 @@ export const optionsSchema = z.object({
         name: z.string(),
         friendlyName: z.string(),
         stayConnected: z.boolean().optional(),
+        motorTravelTimes: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -114,6 +137,8 @@ export const optionsSchema = z.object({
       z.object({
         name: z.string(),
         friendlyName: z.string(),
+        virtualPresets: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -122,6 +147,7 @@ export const optionsSchema = z.object({
       z.object({
         name: z.string(),
         friendlyName: z.string(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -131,6 +157,8 @@ export const optionsSchema = z.object({
         name: z.string(),
         friendlyName: z.string(),
         remoteCode: z.string(),
+        motorTravelTimes: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -141,6 +169,8 @@ export const optionsSchema = z.object({
         friendlyName: z.string(),
         stayConnected: z.boolean().optional(),
         aliases: z.string().optional(),
+        motorTravelTimes: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -150,6 +180,8 @@ export const optionsSchema = z.object({
         name: z.string(),
         friendlyName: z.string(),
         pin: z.string().optional(),
+        motorTravelTimes: z.string().optional(),
+        pair: z.boolean().optional(),
       })
     )
     .optional(),
@@ -161,4 +193,26 @@ export const optionsSchema = z.object({
       })
     )
     .optional(),
+  entityOverrides: z
+    .array(
+      z.object({
+        device: z.string(),
+        entity: z.string(),
+        name: z.string().optional(),
+        icon: z.string().optional(),
+        category: z.enum(['config', 'diagnostic', 'none']).optional(),
+        enabled: z.boolean().optional(),
+        hidden: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  routines: z
+    .array(
+      z.object({
+        name: z.string(),
+        device: z.string(),
+        steps: z.array(z.string()).min(1),
+      })
+    )
+    .optional(),
 });
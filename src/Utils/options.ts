@@ -19,7 +19,9 @@ export type Type =
   | 'octo'
   | 'scanner';
 
-let options: z.infer<typeof optionsSchema>;
+type Options = z.infer<typeof optionsSchema>;
+
+let options: Options;
 
 try {
   const fileContents = readFileSync('../data/options.json');
@@ -39,4 +41,90 @@ try {
 
 export const getRootOptions = (): any => options;
 
-export const getType = () => options.type;
+export const getRoutines = () => options.routines ?? [];
+
+export const getLanguage = () => options.language ?? 'en';
+
+/** Seconds a first press arms a program button for; 0 (the default) sends program commands right away. */
+export const getProgramArmingSeconds = () => options.programArmingSeconds ?? 0;
+
+export const getEntityOverrides = () => options.entityOverrides ?? [];
+
+/** Minutes without advertisements before a bed's `Advertising` sensor turns off. */
+export const getAdvertisingTimeoutMinutes = () => options.advertisingTimeoutMinutes ?? 5;
+
+/**
+ * Option lists that imply a brand when `type` is omitted.
+ *
+ * Scanner is deliberately absent: it is a one-shot diagnostic mode and must be asked for explicitly.
+ */
+const typeOptionKeys: Record<
+  Exclude<Type, 'scanner'>,
+  keyof Pick<
+    Options,
+    | 'sleeptrackerCredentials'
+    | 'ergoWifiCredentials'
+    | 'ergoMotionDevices'
+    | 'logicdataDevices'
+    | 'richmatDevices'
+    | 'linakDevices'
+    | 'solaceDevices'
+    | 'motoSleepDevices'
+    | 'reverieDevices'
+    | 'leggettPlattDevices'
+    | 'okimatDevices'
+    | 'keesonDevices'
+    | 'octoDevices'
+  >
+> = {
+  sleeptracker: 'sleeptrackerCredentials',
+  ergowifi: 'ergoWifiCredentials',
+  ergomotion: 'ergoMotionDevices',
+  logicdata: 'logicdataDevices',
+  richmat: 'richmatDevices',
+  linak: 'linakDevices',
+  solace: 'solaceDevices',
+  motosleep: 'motoSleepDevices',
+  reverie: 'reverieDevices',
+  leggettplatt: 'leggettPlattDevices',
+  okimat: 'okimatDevices',
+  keeson: 'keesonDevices',
+  octo: 'octoDevices',
+};
+
+/**
+ * Brands to run in this instance.
+ *
+ * `type` may be a single brand or a list. When omitted or empty, every brand whose device/credential list
+ * is non-empty is selected, so one add-on can drive e.g. a Keeson and a Linak bed side by side.
+ */
+export const getTypes = (): Type[] => {
+  const { type } = options;
+  if (Array.isArray(type) && type.length > 0) return [...new Set(type)];
+  if (typeof type === 'string') return [type];
+
+  return (Object.keys(typeOptionKeys) as Array<keyof typeof typeOptionKeys>).filter(
+    (type) => (options[typeOptionKeys[type]]?.length ?? 0) > 0
+  );
+};
+
+/**
+ * Whether a device of a brand (by type, e.g. `linak`) is still configured in this instance: its brand runs, and
+ * brands with a device list still list it by friendly name. Brands set up from credentials (Sleeptracker,
+ * ErgoWifi) get their devices from the account, so all of them count. Anything that isn't a brand counts too.
+ */
+export const isConfiguredDevice = (brand: string, name: string) => {
+  if (!(brand in typeOptionKeys)) return true;
+  const type = brand as keyof typeof typeOptionKeys;
+  if (!getTypes().includes(type)) return false;
+  const key = typeOptionKeys[type];
+  if (key.endsWith('Credentials')) return true;
+  const devices: object[] = options[key] || [];
+  return devices.some((device) => 'friendlyName' in device && device.friendlyName === name);
+};
+
+/**
+ * Display label for the configured brands (e.g. `keeson` or `keeson+linak`).
+ * Single-brand installs keep their historical label so HA device ids stay stable.
+ */
+export const getType = () => getTypes().join('+');
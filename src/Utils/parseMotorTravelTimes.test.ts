@@ -0,0 +1,22 @@
+import { parseMotorTravelTimes } from './parseMotorTravelTimes';
+
+jest.mock('./logger');
+
+describe(parseMotorTravelTimes.name, () => {
+  it('handles a missing option', () => {
+    expect(parseMotorTravelTimes(undefined)).toEqual({});
+    expect(parseMotorTravelTimes('')).toEqual({});
+  });
+
+  it.each([
+    ['head=25', { head: 25_000 }],
+    ['head=25, feet=20', { head: 25_000, feet: 20_000 }],
+    ['Head = 12.5;Feet=20', { head: 12_500, feet: 20_000 }],
+  ])('parses %s', (value, expected) => {
+    expect(parseMotorTravelTimes(value)).toEqual(expected);
+  });
+
+  it.each(['head', 'head=', 'head=abc', 'head=0', '=25'])('skips invalid entry %s', (value) => {
+    expect(parseMotorTravelTimes(`${value}, feet=20`)).toEqual({ feet: 20_000 });
+  });
+});
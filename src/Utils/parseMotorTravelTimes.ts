@@ -0,0 +1,22 @@
+import { Dictionary } from './Dictionary';
+import { logWarn } from './logger';
+import { seconds } from './seconds';
+
+/**
+ * Parse a `motorTravelTimes` option such as `head=25, feet=20` into full-travel durations in milliseconds,
+ * keyed by lower case motor name. Invalid entries are skipped with a warning.
+ */
+export const parseMotorTravelTimes = (value?: string): Dictionary<number> => {
+  const travelTimes: Dictionary<number> = {};
+  for (const entry of (value ?? '').split(/[,;]/)) {
+    if (!entry.trim()) continue;
+    const [motor, time] = entry.split('=').map((part) => part?.trim());
+    const travelSeconds = Number(time);
+    if (!motor || !time || !(travelSeconds > 0)) {
+      logWarn(`[Options] Ignoring invalid motorTravelTimes entry '${entry.trim()}', expected e.g. 'head=25'`);
+      continue;
+    }
+    travelTimes[motor.toLowerCase()] = seconds(travelSeconds);
+  }
+  return travelTimes;
+};
@@ -0,0 +1,25 @@
+import { parseRoutineSteps } from './parseRoutineSteps';
+
+jest.mock('./logger');
+
+describe(parseRoutineSteps.name, () => {
+  it('parses commands, repeat counts and waits', () => {
+    expect(
+      parseRoutineSteps('Wake up', ['PresetZeroG', 'MassageFootStep x3', 'wait 30s', 'wait 20m', 'wait 1h'])
+    ).toEqual([
+      { command: 'PresetZeroG', count: 1 },
+      { command: 'MassageFootStep', count: 3 },
+      { waitMs: 30_000 },
+      { waitMs: 1_200_000 },
+      { waitMs: 3_600_000 },
+    ]);
+  });
+
+  it('treats a wait without unit as seconds', () => {
+    expect(parseRoutineSteps('Routine', ['Wait 5'])).toEqual([{ waitMs: 5_000 }]);
+  });
+
+  it.each(['', 'wait', 'wait 5d', 'PresetFlat x0', 'Preset Flat', 'PresetFlat x'])('rejects step %p', (step) => {
+    expect(parseRoutineSteps('Routine', ['PresetFlat', step])).toBeUndefined();
+  });
+});
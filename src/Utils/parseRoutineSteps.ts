@@ -0,0 +1,34 @@
+import { logWarn } from './logger';
+import { minutes } from './minutes';
+import { seconds } from './seconds';
+
+export type RoutineStep = { command: string; count: number } | { waitMs: number };
+
+const waitUnits: Record<string, (value: number) => number> = {
+  '': seconds,
+  s: seconds,
+  m: minutes,
+  h: (value) => minutes(value * 60),
+};
+
+/**
+ * Parse routine steps such as `PresetZeroG`, `MassageFootStep x3` or `wait 20m` (seconds when the unit is omitted).
+ * Returns undefined, with a warning, when any step is invalid: a routine missing a step is not the routine asked for.
+ */
+export const parseRoutineSteps = (routine: string, steps: string[]): RoutineStep[] | undefined => {
+  const parsed: RoutineStep[] = [];
+  for (const step of steps) {
+    const wait = step.trim().match(/^wait\s+(\d+(?:\.\d+)?)\s*([smh]?)$/i);
+    if (wait) {
+      parsed.push({ waitMs: waitUnits[wait[2].toLowerCase()](Number(wait[1])) });
+      continue;
+    }
+    const command = step.trim().match(/^(\w+)(?:\s+x\s*(\d+))?$/i);
+    if (!command || command[2] === '0' || /^wait$/i.test(command[1])) {
+      logWarn(`[Routines] Invalid step '${step}' in routine '${routine}', expected e.g. 'PresetFlat x2' or 'wait 20m'`);
+      return undefined;
+    }
+    parsed.push({ command: command[1], count: Number(command[2] ?? 1) });
+  }
+  return parsed;
+};
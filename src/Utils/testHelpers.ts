@@ -1,4 +1,7 @@
 import { IDeviceData } from '@ha/IDeviceData';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
+import { mock } from 'jest-mock-extended';
+import { Dictionary } from './Dictionary';
 
 export const testDevice: IDeviceData = {
   deviceTopic: 'device_topic',
@@ -11,3 +14,26 @@ export const testDevice: IDeviceData = {
 };
 
 export const mocked = (mock: any) => mock as jest.Mock<any, any>;
+
+export const deviceDiscoveryTopic = 'homeassistant/device/device_topic/config';
+
+/** The device-based discovery payload of `testDevice` with these components. */
+export const testDeviceDiscovery = (components: Dictionary<object>) => ({
+  device: testDevice.device,
+  origin: expect.objectContaining({ name: 'Smartbed MQTT' }),
+  components,
+});
+
+/**
+ * A fresh MQTT mock. Device discovery keeps one `homeassistant/status` listener per connection; `sendHAStatus`
+ * triggers it.
+ */
+export const buildMQTTMock = () => {
+  const mqtt = mock<IMQTTConnection>();
+  let onHAStatus: ((message: string) => void) | undefined;
+  mocked(mqtt.on).mockImplementation((topic: string, listener: (message: string) => void) => {
+    if (topic === 'homeassistant/status') onHAStatus = listener;
+    return mqtt;
+  });
+  return { mqtt: mqtt as IMQTTConnection, sendHAStatus: (message: string) => onHAStatus?.(message) };
+};
@@ -3,12 +3,27 @@ import { loadStrings } from '@utils/getString';
 import { getBuildInfo } from '@utils/buildInfo';
 import { logError, logInfo, logWarn, logWarnDedup } from '@utils/logger';
 import { wait } from '@utils/wait';
-import { getType } from '@utils/options';
+import {
+  getEntityOverrides,
+  getLanguage,
+  getProgramArmingSeconds,
+  getType,
+  getTypes,
+  Type,
+} from '@utils/options';
 import { connectToESPHome } from 'ESPHome/connectToESPHome';
+import { IESPConnection } from 'ESPHome/IESPConnection';
+import { getProxies } from 'ESPHome/options';
+import { releaseProxyLeases } from 'ESPHome/proxyLease';
+import { connectToGateways, gatewayUnsupportedTypes } from 'MQTTGateway/connectToGateways';
+import { getGateways } from 'MQTTGateway/options';
+import { IMQTTConnection } from '@mqtt/IMQTTConnection';
 import { healthMonitor } from 'Diagnostics/HealthMonitor';
 import { Button } from '@ha/Button';
-import { buildMQTTDeviceData } from 'Common/buildMQTTDeviceData';
-import { getRootOptions } from '@utils/options';
+import { setEntityOverrides } from '@ha/base/entityOverrides';
+import { setProgramArming } from 'Common/armProgramButton';
+import { buildAddonDeviceData } from 'Common/buildAddonDeviceData';
+import { scheduleStaleDeviceCleanup } from 'Common/setupDiscoveryCleanup';
 import { ergomotion } from 'ErgoMotion/ergomotion';
 import { ergowifi } from 'ErgoWifi/ergowifi';
 import { keeson } from 'Keeson/keeson';
@@ -24,15 +39,42 @@ import { scanner } from 'Scanner/scanner';
 import { sleeptracker } from 'Sleeptracker/sleeptracker';
 import { solace } from 'Solace/solace';
 import { startProcessTelemetry } from 'Diagnostics/processTelemetry';
+import { startProxySlotSensors } from 'Diagnostics/proxySlotSensors';
 
 let exiting = false;
 const processExit = (exitCode?: number) => {
   if (exiting) return;
   exiting = true;
+  // Best-effort: other instances waiting for our proxies don't have to wait for the leases to expire.
+  releaseProxyLeases();
   if (exitCode !== undefined && exitCode > 0) logError(`Exit code: ${exitCode}`);
   process.exit(exitCode ?? 0);
 };
 
+const httpBrands: Partial<Record<Type, (mqtt: IMQTTConnection) => Promise<void>>> = {
+  sleeptracker,
+  ergowifi,
+  logicdata,
+  ergomotion,
+};
+
+const bleBrands: Partial<Record<Type, (mqtt: IMQTTConnection, esphome: IESPConnection) => Promise<void>>> = {
+  richmat,
+  linak,
+  solace,
+  motosleep,
+  reverie,
+  leggettplatt,
+  okimat,
+  keeson,
+  octo,
+};
+
+// Every BLE brand shares the same ESPHome connection; setup completes once all of them have attached their beds.
+const runBLEBrands = (types: Type[]) => async (mqtt: IMQTTConnection, esphome: IESPConnection) => {
+  await Promise.all(types.map((type) => bleBrands[type]!(mqtt, esphome)));
+};
+
 process.on('exit', (code) => logWarn(`Shutting down Smartbed-MQTT... (code=${code})`));
 process.on('SIGINT', () => processExit(0));
 process.on('SIGTERM', () => processExit(0));
@@ -133,9 +175,10 @@ const runWithSelfHealing = async (
       // Log success and wait - if connections fail later, commands will fail and trigger recovery
       logInfo(`[Main] Device function ${getType()} completed setup successfully. Devices are ready for commands.`);
 
-      // Wait until diagnostics requests a reconnect (e.g. repeated BLE errors).
-      // This is the missing link: many MQTT entity handlers catch/log errors, so we need a central
-      // place to decide when "it's broken enough" to reconnect ESPHome/MQTT.
+      // Wait until diagnostics requests a reconnect.
+      // Repeated BLE errors on a single bed are recovered by DeviceSupervisor without coming through here;
+      // a full ESPHome reconnect is only requested when the proxy connection itself is gone, or manually
+      // (ops buttons / maintenance). Beds that were already set up are re-attached, not rebuilt.
       const reason = await healthMonitor.waitForRestartRequest();
       const reasonText =
         reason.kind === 'manual' || reason.kind === 'maintenance'
@@ -192,7 +235,9 @@ const runWithSelfHealing = async (
 };
 
 const start = async () => {
-  await loadStrings();
+  await loadStrings(getLanguage());
+  setEntityOverrides(getEntityOverrides());
+  setProgramArming(getProgramArmingSeconds());
 
   /**
    * Project memory (runtime fingerprint):
@@ -205,34 +250,50 @@ const start = async () => {
     `[Build] fork=${build.fork} version=${build.version ?? 'unknown'} git=${build.gitSha} built=${build.buildTime}`
   );
 
-  // http/udp devices - these complete and exit, so no self-healing needed
-  const type = getType();
-  switch (type) {
-    case 'sleeptracker':
-      return void (await sleeptracker(await connectToMQTT()));
-    case 'ergowifi':
-      return void (await ergowifi(await connectToMQTT()));
-    case 'logicdata':
-      return void (await logicdata(await connectToMQTT()));
-    case 'ergomotion':
-      return void (await ergomotion(await connectToMQTT()));
+  const types = getTypes();
+  if (!types.length) {
+    logError('[Main] No bed type configured: set `type` or fill in at least one device list');
+    return processExit(1);
   }
-  
-  // bluetooth devices - these need self-healing with connection monitoring
-  const RETRY_DELAY_MS = 5000; // 5 seconds
+
+  // Scanner is a one-shot diagnostic mode that owns the ESPHome connection; it can't share it with brands.
+  const scanOnly = types.length === 1 && types[0] === 'scanner';
+  if (!scanOnly && types.includes('scanner'))
+    logWarn('[Main] `scanner` cannot be combined with other types; ignoring it');
+  const httpTypes = types.filter((type) => type in httpBrands);
+  let bleTypes = scanOnly ? [] : types.filter((type) => type in bleBrands);
+  if (getGateways().length) {
+    const unsupported = bleTypes.filter((type) => gatewayUnsupportedTypes.includes(type));
+    if (unsupported.length)
+      logError(`[Main] ${unsupported.join(', ')} can't run over MQTT BLE gateways (no notifications); not starting`);
+    bleTypes = bleTypes.filter((type) => !unsupported.includes(type));
+  }
+  const type = getType();
+  logInfo(`[Main] Starting brands: ${types.join(', ')}`);
 
   // CRITICAL: Keep MQTT stable across ESPHome/BLE reconnects.
   // Recreating MQTT clients during self-healing can flap availability and make HA/HomeKit entities disappear.
+  // All brands share this single connection (and the health monitor/telemetry below).
   const mqtt = await connectToMQTT();
   healthMonitor.init(mqtt, type);
   startProcessTelemetry(mqtt, type);
+  startProxySlotSensors(mqtt, type);
+  // Scanner runs set up no beds: every device would look removed.
+  if (!scanOnly) scheduleStaleDeviceCleanup(mqtt);
+
+  // http/udp devices - these complete setup and keep running off their own timers, so no self-healing needed.
+  // Run them alongside the BLE brands instead of blocking the ESPHome loop on cloud/LAN requests.
+  for (const httpType of httpTypes) {
+    void httpBrands[httpType]!(mqtt).catch((error) => logError(`[Main] Error during setup in ${httpType}:`, error));
+  }
+  if (!bleTypes.length && !scanOnly) return;
+
+  // bluetooth devices - these need self-healing with connection monitoring
+  const RETRY_DELAY_MS = 5000; // 5 seconds
 
   // HA Buttons (MQTT discovery)
   // These show up as button entities in HA and directly trigger recovery actions.
-  const opsDeviceData = buildMQTTDeviceData(
-    { friendlyName: 'SmartbedMQTT', name: `addon:${type}`, address: 'smartbedmqtt', ids: ['smartbedmqtt', `smartbedmqtt:${type}`] },
-    'SmartbedMQTT'
-  );
+  const opsDeviceData = buildAddonDeviceData(type);
 
   // Soft reconnect: triggers the self-healing loop to reconnect ESPHome without a Supervisor restart.
   new Button(mqtt, opsDeviceData, { description: 'Reconnect BLE (soft)', category: 'diagnostic', icon: 'mdi:refresh' }, async () => {
@@ -246,7 +307,7 @@ const start = async () => {
   });
 
   // Request proxy power-cycle (handled by HA automation listening to smartbed-mqtt/proxy/<host>/command).
-  const proxies = (getRootOptions()?.bleProxies ?? []) as Array<any>;
+  const proxies = getProxies();
   const proxyHosts = proxies.map((p) => p?.host).filter(Boolean);
   new Button(mqtt, opsDeviceData, { description: 'Reboot BLE Proxy (relay)', category: 'diagnostic', icon: 'mdi:power-cycle' }, async () => {
     for (const host of proxyHosts.length ? proxyHosts : ['10.0.0.69']) {
@@ -257,43 +318,18 @@ const start = async () => {
   while (true) {
     let esphome: any = null;
     try {
-      // Reconnect ESPHome if needed (self-healing)
-      esphome = await connectToESPHome();
+      // Reconnect ESPHome if needed (self-healing); beds behind MQTT BLE gateways use those instead.
+      esphome = getGateways().length ? connectToGateways(mqtt) : await connectToESPHome(mqtt);
 
-      // Run device function with self-healing wrapper
-      switch (type) {
-        case 'richmat':
-          await runWithSelfHealing(richmat, mqtt, esphome);
-          return; // Should not reach here, but safety exit
-        case 'linak':
-          await runWithSelfHealing(linak, mqtt, esphome);
-          return;
-        case 'solace':
-          await runWithSelfHealing(solace, mqtt, esphome);
-          return;
-        case 'motosleep':
-          await runWithSelfHealing(motosleep, mqtt, esphome);
-          return;
-        case 'reverie':
-          await runWithSelfHealing(reverie, mqtt, esphome);
-          return;
-        case 'leggettplatt':
-          await runWithSelfHealing(leggettplatt, mqtt, esphome);
-          return;
-        case 'okimat':
-          await runWithSelfHealing(okimat, mqtt, esphome);
-          return;
-        case 'keeson':
-          await runWithSelfHealing(keeson, mqtt, esphome);
-          return;
-        case 'octo':
-          await runWithSelfHealing(octo, mqtt, esphome);
-          return;
-        case 'scanner':
-          // Scanner doesn't need self-healing - it's a one-time scan operation
-          await scanner(esphome);
-          return;
+      if (scanOnly) {
+        // Scanner doesn't need self-healing - it's a one-time scan operation
+        await scanner(esphome);
+        return;
       }
+
+      // Run all BLE brands over the shared ESPHome connection with self-healing wrapper
+      await runWithSelfHealing(runBLEBrands(bleTypes), mqtt, esphome);
+      return; // Should not reach here, but safety exit
     } catch (error: any) {
       const errorMessage = error?.message || String(error);
       const errorCode = error?.code || '';